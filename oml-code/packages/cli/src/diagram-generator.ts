@@ -0,0 +1,23 @@
+import type { LangiumDocument } from 'langium';
+import type { LangiumSharedServices } from 'langium/lsp';
+import type { DiagramImageOptions } from 'oml-language';
+import { renderDiagramImage } from 'oml-language';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { extractDestinationAndName } from './util.js';
+
+/**
+ * Render the diagram of an OML document (as shown by the diagram panel) to `<name>.svg` or
+ * `<name>.png` and return the path of the written file.
+ */
+export async function generateDiagram(shared: LangiumSharedServices, document: LangiumDocument, filePath: string, destination: string | undefined, options: DiagramImageOptions): Promise<string> {
+    const data = extractDestinationAndName(filePath, destination);
+    const generatedFilePath = `${path.join(data.destination, data.name)}.${options.format}`;
+    const image = await renderDiagramImage(shared, document.uri.toString(), options);
+
+    if (!fs.existsSync(data.destination)) {
+        fs.mkdirSync(data.destination, { recursive: true });
+    }
+    fs.writeFileSync(generatedFilePath, image);
+    return generatedFilePath;
+}
@@ -0,0 +1,43 @@
+import type { OmlServices } from 'oml-language';
+import { TextDocument, URI } from 'langium';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * The folders that are not searched for source files: build outputs and dependencies.
+ */
+const IGNORED_FOLDERS = new Set(['build', 'node_modules']);
+
+/**
+ * Return the source files given, and those found recursively in the folders given, sorted.
+ */
+export function getSourceFiles(paths: string[], extensions: readonly string[]): string[] {
+    const files: string[] = [];
+    const visit = (current: string) => {
+        if (!fs.existsSync(current)) {
+            return;
+        } else if (fs.statSync(current).isDirectory()) {
+            fs.readdirSync(current)
+                .filter(f => !f.startsWith('.') && !IGNORED_FOLDERS.has(f))
+                .forEach(f => visit(path.join(current, f)));
+        } else if (extensions.includes(path.extname(current))) {
+            files.push(current);
+        }
+    };
+    paths.forEach(visit);
+    return [...new Set(files)].sort();
+}
+
+/**
+ * Return the content of a source file and its canonical formatting, or `undefined` if the file
+ * has syntax errors.
+ */
+export async function formatSourceFile(fileName: string, services: OmlServices, options: { tabSize: number, insertSpaces: boolean }): Promise<{ content: string, formatted: string } | undefined> {
+    const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.resolve(fileName)));
+    const { lexerErrors, parserErrors } = document.parseResult;
+    if (lexerErrors.length > 0 || parserErrors.length > 0 || !services.lsp.Formatter) {
+        return undefined;
+    }
+    const edits = await services.lsp.Formatter.formatDocument(document, { textDocument: { uri: document.uri.toString() }, options });
+    return { content: document.textDocument.getText(), formatted: TextDocument.applyEdits(document.textDocument, edits) };
+}
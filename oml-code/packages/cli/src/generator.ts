@@ -1,20 +1,22 @@
 import type { Ontology } from 'oml-language';
-import { expandToNode, joinToNode, toString } from 'langium/generate';
-import { isVocabulary } from 'oml-language';
+import { isVocabulary, toTypeScript } from 'oml-language';
+import { expandToNode, toString } from 'langium/generate';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { extractDestinationAndName } from './util.js';
 
-export function generateJavaScript(model: Ontology, filePath: string, destination: string | undefined): string {
+/**
+ * Write the TypeScript declarations of a vocabulary next to the source file (or into the
+ * destination folder) and return the path of the written file.
+ */
+export function generateTypeScript(model: Ontology, filePath: string, destination: string | undefined): string {
     const data = extractDestinationAndName(filePath, destination);
-    const generatedFilePath = `${path.join(data.destination, data.name)}.js`;
-
-    const concepts = isVocabulary(model) ? model.ownedStatements.filter(s => (s as any).$type === 'Concept') : [];
+    const generatedFilePath = `${path.join(data.destination, data.name)}.ts`;
 
     const fileNode = expandToNode`
-        "use strict";
+        // Generated from ${path.basename(filePath)}. Do not edit.
 
-        ${joinToNode(concepts, (c: any) => `console.log('Concept: ${c.name}');`, { appendNewLineIfNotEmpty: true })}
+        ${isVocabulary(model) ? toTypeScript(model) : ''}
     `.appendNewLineIfNotEmpty();
 
     if (!fs.existsSync(data.destination)) {
@@ -0,0 +1,107 @@
+import type { OmlFacts, OmlReasoner, Ontology } from 'oml-language';
+import { formatTerm, getNamespaceIri, getOntologyIri, isConceptInstance, isDescriptionBox, isRelationInstance, OML, OWL } from 'oml-language';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { extractDestinationAndName } from './util.js';
+
+/**
+ * Write the facts entailed about the instances of an ontology (and the descriptions it imports)
+ * as an OML description `<name>-inferred.oml` and return the path of the written file.
+ */
+export function generateInferredFacts(model: Ontology, reasoner: OmlReasoner, facts: OmlFacts, filePath: string, destination: string | undefined): string {
+    const data = extractDestinationAndName(filePath, destination);
+    const generatedFilePath = path.join(data.destination, `${path.basename(filePath, path.extname(filePath))}-inferred.oml`);
+    fs.mkdirSync(data.destination, { recursive: true });
+    fs.writeFileSync(generatedFilePath, inferredFactsToOml(model, reasoner, facts));
+    return generatedFilePath;
+}
+
+/**
+ * Serialize entailed facts as a description that redeclares the inferred instances with `ref`
+ * and adds their entailed types and property values. It extends the descriptions declaring the
+ * instances and uses the vocabularies of the types and properties. Facts about anonymous
+ * instances and `sameAs` facts have no OML counterpart and are skipped.
+ */
+export function inferredFactsToOml(model: Ontology, reasoner: OmlReasoner, facts: OmlFacts): string {
+    const namespace = getNamespaceIri(model);
+    const prefix = `${model.prefix}-inferred`;
+    const imports = new ImportCollector(reasoner.hierarchy.ontologies, [prefix]);
+    const abbreviate = (iri: string) => imports.abbreviate(iri);
+
+    const statements: string[] = [];
+    for (const subject of facts.getSubjects().sort()) {
+        const member = reasoner.getMember(subject);
+        if (!isConceptInstance(member) && !isRelationInstance(member)) {
+            continue;
+        }
+        const lines: string[] = [];
+        if (isRelationInstance(member)) {
+            const sources = facts.getValues(subject, `${OML}hasSource`).filter(s => typeof s === 'string');
+            const targets = facts.getValues(subject, `${OML}hasTarget`).filter(t => typeof t === 'string');
+            if (sources.length > 0) {
+                lines.push(`from ${sources.map(abbreviate).join(', ')}`);
+            }
+            if (targets.length > 0) {
+                lines.push(`to ${targets.map(abbreviate).join(', ')}`);
+            }
+        }
+        for (const property of facts.getProperties(subject).filter(p => !p.startsWith(OML) && p !== `${OWL}sameAs`)) {
+            for (const object of facts.getValues(subject, property).filter(o => typeof o !== 'string' || !o.startsWith('_:'))) {
+                lines.push(`${abbreviate(property)} ${formatTerm(object, abbreviate)}`);
+            }
+        }
+        const types = facts.getTypes(subject).map(abbreviate);
+        if (types.length === 0 && lines.length === 0) {
+            continue;
+        }
+        const keyword = isRelationInstance(member) ? 'ref relation instance' : 'ref instance';
+        const typeList = types.length > 0 ? ` : ${types.join(', ')}` : '';
+        const values = lines.length > 0 ? ` [\n${lines.map(l => `\t\t${l}`).join('\n')}\n\t]` : '';
+        statements.push(`\t${keyword} ${abbreviate(subject)}${typeList}${values}`);
+    }
+
+    const separator = namespace.endsWith('/') ? '/' : '#';
+    const sections = [imports.toOml().join('\n'), statements.join('\n\n')].filter(s => s.length > 0);
+    return `description <${getOntologyIri(namespace)}-inferred${separator}> as ${prefix} {\n\n${sections.map(s => `${s}\n\n`).join('')}}\n`;
+}
+
+/**
+ * Collects the ontologies the abbreviated IRIs belong to, to import them with their own prefix
+ * (made unique if several ontologies use the same one).
+ */
+class ImportCollector {
+
+    protected readonly ontologies: Ontology[];
+    protected readonly prefixes = new Map<Ontology, string>();
+    protected readonly used: Set<string>;
+
+    constructor(ontologies: Ontology[], reserved: string[]) {
+        // Longer namespaces first, so that nested namespaces take precedence
+        this.ontologies = [...ontologies].sort((a, b) => getNamespaceIri(b).length - getNamespaceIri(a).length);
+        this.used = new Set(reserved);
+    }
+
+    abbreviate(iri: string): string {
+        const ontology = this.ontologies.find(o => iri.startsWith(getNamespaceIri(o)) && iri.length > getNamespaceIri(o).length);
+        if (!ontology) {
+            return `<${iri}>`;
+        }
+        let prefix = this.prefixes.get(ontology);
+        if (!prefix) {
+            prefix = ontology.prefix;
+            for (let i = 2; this.used.has(prefix); i++) {
+                prefix = `${ontology.prefix}${i}`;
+            }
+            this.used.add(prefix);
+            this.prefixes.set(ontology, prefix);
+        }
+        return `${prefix}:${iri.substring(getNamespaceIri(ontology).length)}`;
+    }
+
+    toOml(): string[] {
+        return [...this.prefixes]
+            .sort(([a], [b]) => Number(isDescriptionBox(b)) - Number(isDescriptionBox(a)) || getNamespaceIri(a).localeCompare(getNamespaceIri(b)))
+            .map(([ontology, prefix]) => `\t${isDescriptionBox(ontology) ? 'extends' : 'uses'} <${getNamespaceIri(ontology)}> as ${prefix}`);
+    }
+
+}
@@ -0,0 +1,22 @@
+import type { Ontology } from 'oml-language';
+import { isVocabulary, vocabularyToJsonSchema } from 'oml-language';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { extractDestinationAndName } from './util.js';
+
+/**
+ * Write the JSON Schema of a vocabulary next to the source file (or into the destination
+ * folder) and return the path of the written file. The terms of the vocabularies of the given
+ * import closure are defined in the schema too, so that it is self-contained.
+ */
+export function generateJsonSchema(model: Ontology, closure: Ontology[], filePath: string, destination: string | undefined): string {
+    const data = extractDestinationAndName(filePath, destination);
+    const generatedFilePath = `${path.join(data.destination, data.name)}.schema.json`;
+    const schema = isVocabulary(model) ? vocabularyToJsonSchema(model, closure) : {};
+
+    if (!fs.existsSync(data.destination)) {
+        fs.mkdirSync(data.destination, { recursive: true });
+    }
+    fs.writeFileSync(generatedFilePath, JSON.stringify(schema, undefined, 4) + '\n');
+    return generatedFilePath;
+}
@@ -1,9 +1,17 @@
-import type { Ontology } from 'oml-language';
-import { createOmlServices, OmlLanguageMetaData } from 'oml-language';
+import type { DiagramImageFormat, DiagramTheme, Ontology, QueryResultFormat } from 'oml-language';
+import { createDataset, createOmlServices, OmlCatalog, OmlLanguageMetaData, OmlReasoner, resolveBundleIri } from 'oml-language';
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { extractAstNode } from './util.js';
-import { generateJavaScript } from './generator.js';
+import { URI } from 'langium';
+import { extractAstNode, extractDocument } from './util.js';
+import { generateTypeScript } from './generator.js';
+import { generateOwl, generateOwlCatalog } from './owl-generator.js';
+import { generateJsonSchema } from './jsonschema-generator.js';
+import { generateDiagram } from './diagram-generator.js';
+import { generateInferredFacts } from './inference-generator.js';
+import { generateQueryResult, getQueryFiles, getResultsFolder } from './query-generator.js';
+import { formatSourceFile, getSourceFiles } from './format-generator.js';
+import { findConflictingFiles, findUp, generateMergedNTriples, generateMergedOml, type MergeFormat } from './merge-generator.js';
 import { NodeFileSystem } from 'langium/node';
 import * as url from 'node:url';
 import * as fs from 'node:fs/promises';
@@ -16,14 +24,204 @@ const packageContent = await fs.readFile(packagePath, 'utf-8');
 export const generateAction = async (fileName: string, opts: GenerateOptions): Promise<void> => {
     const services = createOmlServices(NodeFileSystem).Oml;
     const model = await extractAstNode<Ontology>(fileName, services);
-    const generatedFilePath = generateJavaScript(model, fileName, opts.destination);
-    console.log(chalk.green(`JavaScript code generated successfully: ${generatedFilePath}`));
+    const generatedFilePath = generateTypeScript(model, fileName, opts.destination);
+    console.log(chalk.green(`TypeScript code generated successfully: ${generatedFilePath}`));
 };
 
 export type GenerateOptions = {
     destination?: string;
 }
 
+export const owlAction = async (fileName: string, opts: OwlOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const model = await extractAstNode<Ontology>(fileName, services);
+    const destination = opts.destination ?? path.join('build', 'owl');
+    // Convert the given ontology together with its import closure, e.g. all ontologies of a bundle
+    for (const ontology of services.shared.workspace.BundleResolver.getClosure(model).ontologies) {
+        const generatedFilePath = generateOwl(ontology, destination);
+        console.log(chalk.green(`OWL ontology generated successfully: ${generatedFilePath}`));
+    }
+    generateOwlCatalog(destination);
+};
+
+export type OwlOptions = {
+    destination?: string;
+}
+
+export const jsonSchemaAction = async (fileName: string, opts: GenerateOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const model = await extractAstNode<Ontology>(fileName, services);
+    const closure = services.shared.workspace.BundleResolver.getClosure(model).ontologies;
+    const generatedFilePath = generateJsonSchema(model, closure, fileName, opts.destination);
+    console.log(chalk.green(`JSON Schema generated successfully: ${generatedFilePath}`));
+};
+
+export const diagramAction = async (fileName: string, opts: DiagramOptions): Promise<void> => {
+    const format = opts.format ?? 'svg';
+    const theme = opts.theme ?? 'light';
+    if (format !== 'svg' && format !== 'png') {
+        console.error(chalk.red(`Unsupported format ${format}; use svg or png.`));
+        process.exit(1);
+    }
+    if (theme !== 'light' && theme !== 'dark') {
+        console.error(chalk.red(`Unsupported theme ${theme}; use light or dark.`));
+        process.exit(1);
+    }
+    const { shared, Oml } = createOmlServices(NodeFileSystem);
+    const document = await extractDocument(fileName, Oml);
+    const generatedFilePath = await generateDiagram(shared, document, fileName, opts.destination, { format, theme, expandedImports: opts.expand });
+    console.log(chalk.green(`Diagram exported successfully: ${generatedFilePath}`));
+};
+
+export type DiagramOptions = {
+    destination?: string;
+    format?: DiagramImageFormat;
+    theme?: DiagramTheme;
+    expand?: string[];
+}
+
+export const inferAction = async (fileName: string, opts: GenerateOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const model = await extractAstNode<Ontology>(fileName, services);
+    // Apply the rules of the vocabularies to the descriptions in the import closure (e.g. of a bundle)
+    const reasoner = new OmlReasoner(model);
+    const result = reasoner.reason();
+    if (result.inconsistencies.length > 0) {
+        console.error(chalk.red('The descriptions are inconsistent:'));
+        result.inconsistencies.forEach(i => console.error(chalk.red(`${i.message} [${i.code}]`)));
+        process.exit(1);
+    }
+    const generatedFilePath = generateInferredFacts(model, reasoner, result.facts.without(result.asserted), fileName, opts.destination);
+    console.log(chalk.green(`Inferred facts generated successfully: ${generatedFilePath}`));
+};
+
+export const queryAction = async (fileName: string, queryPath: string, opts: QueryOptions): Promise<void> => {
+    const format = opts.format ?? 'json';
+    if (format !== 'csv' && format !== 'json' && format !== 'table') {
+        console.error(chalk.red(`Unsupported format ${format}; use csv, json or table.`));
+        process.exit(1);
+    }
+    const queryFiles = getQueryFiles(queryPath);
+    if (queryFiles.length === 0) {
+        console.error(chalk.red(`No SPARQL queries found at ${queryPath}.`));
+        process.exit(1);
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const model = await extractAstNode<Ontology>(fileName, services);
+    const store = createDataset([model], { entailments: opts.entailments });
+    const destination = opts.destination ?? getResultsFolder(fileName, model);
+    for (const queryFile of queryFiles) {
+        try {
+            const { resultPath, content } = generateQueryResult(store, queryFile, format, destination);
+            if (format === 'table') {
+                console.log(content);
+            }
+            console.log(chalk.green(`Query results written successfully: ${resultPath}`));
+        } catch (err) {
+            console.error(chalk.red(`Query ${queryFile} failed: ${err instanceof Error ? err.message : String(err)}`));
+            process.exit(1);
+        }
+    }
+};
+
+export type QueryOptions = {
+    destination?: string;
+    format?: QueryResultFormat;
+    entailments?: boolean;
+}
+
+export const mergeAction = async (bundle: string, opts: MergeOptions): Promise<void> => {
+    const format = opts.format ?? 'oml';
+    if (format !== 'oml' && format !== 'nt') {
+        console.error(chalk.red(`Unsupported format ${format}; use oml or nt.`));
+        process.exit(1);
+    }
+    const configPath = findUp('oml.yml', '.');
+    const iri = resolveBundleIri(bundle, configPath ? await fs.readFile(configPath, 'utf-8') : undefined);
+    if (!iri) {
+        console.error(chalk.red(`There is no dataset ${bundle} in ${configPath ?? 'oml.yml'}.`));
+        process.exit(1);
+    }
+    // Resolve the bundle like its imports, through the catalog of the project
+    const catalogPath = findUp('catalog.xml', '.');
+    const catalog = catalogPath ? OmlCatalog.parse(URI.file(path.resolve(catalogPath)), await fs.readFile(catalogPath, 'utf-8')) : undefined;
+    const fileName = catalog?.resolveNamespace(iri)?.fsPath;
+    if (!catalogPath || !fileName) {
+        console.error(chalk.red(`The bundle <${iri}> cannot be resolved through ${catalogPath ?? 'a catalog.xml'}.`));
+        process.exit(1);
+    }
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const model = await extractAstNode<Ontology>(fileName, services);
+    const ontologies = services.shared.workspace.BundleResolver.getClosure(model).ontologies;
+    const destination = opts.destination ?? path.join('build', 'merged');
+    const conflicts = findConflictingFiles(ontologies, services.shared.workspace.LangiumDocuments, path.dirname(catalogPath), [destination]);
+    if (conflicts.size > 0) {
+        console.error(chalk.red('Several files declare the same namespace with a different content:'));
+        conflicts.forEach((files, namespace) => console.error(chalk.red(`<${namespace}>: ${files.join(', ')}`)));
+        process.exit(1);
+    }
+    if (format === 'nt') {
+        const generatedFilePath = generateMergedNTriples(ontologies, path.join(destination, `${model.prefix}.nt`));
+        console.log(chalk.green(`Merged dataset generated successfully: ${generatedFilePath}`));
+    } else {
+        const generatedFilePaths = generateMergedOml(ontologies, destination);
+        console.log(chalk.green(`Merged dataset generated successfully: ${ontologies.length} ontologies in ${destination}`));
+        generatedFilePaths.forEach(p => console.log(p));
+    }
+};
+
+export type MergeOptions = {
+    destination?: string;
+    format?: MergeFormat;
+}
+
+export const formatAction = async (paths: string[], opts: FormatOptions): Promise<void> => {
+    const services = createOmlServices(NodeFileSystem).Oml;
+    const files = getSourceFiles(paths, services.LanguageMetaData.fileExtensions);
+    if (files.length === 0) {
+        console.error(chalk.red(`No source files found at ${paths.join(', ')}.`));
+        process.exit(1);
+    }
+    const spaces = opts.spaces === undefined ? undefined : Number(opts.spaces);
+    if (spaces !== undefined && !(Number.isInteger(spaces) && spaces > 0)) {
+        console.error(chalk.red(`Unsupported indentation ${opts.spaces}; use a positive number of spaces.`));
+        process.exit(1);
+    }
+    // Indent with tabs by default, like the sources created by the OML tools
+    const options = { tabSize: spaces ?? 4, insertSpaces: spaces !== undefined };
+    const unformatted: string[] = [];
+    let failed = false;
+    for (const file of files) {
+        const result = await formatSourceFile(file, services, options);
+        if (!result) {
+            console.error(chalk.red(`${file} has syntax errors and cannot be formatted.`));
+            failed = true;
+        } else if (result.formatted !== result.content) {
+            unformatted.push(file);
+            if (!opts.check) {
+                await fs.writeFile(file, result.formatted);
+            }
+        }
+    }
+    if (opts.check && unformatted.length > 0) {
+        console.error(chalk.red('These files are not formatted:'));
+        unformatted.forEach(f => console.error(chalk.red(f)));
+        process.exit(1);
+    }
+    if (failed) {
+        process.exit(1);
+    }
+    console.log(chalk.green(opts.check ? `All ${files.length} files are formatted.` : `Files formatted successfully: ${unformatted.length} of ${files.length}`));
+    if (!opts.check) {
+        unformatted.forEach(f => console.log(f));
+    }
+};
+
+export type FormatOptions = {
+    check?: boolean;
+    spaces?: string;
+}
+
 export default function(): void {
     const program = new Command();
 
@@ -34,8 +232,65 @@ export default function(): void {
         .command('generate')
         .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
         .option('-d, --destination <dir>', 'destination directory of generating')
-    .description('generates JavaScript code that lists concepts defined in a vocabulary source file')
+    .description('generates TypeScript interfaces and types for the terms defined in a vocabulary source file')
         .action(generateAction);
 
+    program
+        .command('owl')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('-d, --destination <dir>', 'destination directory of the OWL catalog (default: build/owl)')
+        .description('generates OWL ontologies in Turtle syntax for a source file and the ontologies it imports')
+        .action(owlAction);
+
+    program
+        .command('jsonschema')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('-d, --destination <dir>', 'destination directory of generating')
+        .description('generates a JSON Schema (draft 2020-12) for validating instance data against a vocabulary source file')
+        .action(jsonSchemaAction);
+
+    program
+        .command('diagram')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('-d, --destination <dir>', 'destination directory of generating')
+        .option('-f, --format <format>', 'image format: svg or png (default: svg)')
+        .option('-t, --theme <theme>', 'color theme: light or dark (default: light)')
+        .option('-e, --expand <namespace...>', 'namespaces of imported ontologies to show inline')
+        .description('exports the diagram of a source file as an SVG or PNG image')
+        .action(diagramAction);
+
+    program
+        .command('infer')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('-d, --destination <dir>', 'destination directory of generating')
+        .description('applies the rules and axioms of the vocabularies to the descriptions of a source file and writes the inferred facts as an OML description')
+        .action(inferAction);
+
+    program
+        .command('query')
+        .argument('<file>', `source file of the dataset, e.g. a bundle (possible file extensions: ${fileExtensions})`)
+        .argument('<query>', 'SPARQL query file, or folder of .sparql files')
+        .option('-d, --destination <dir>', 'destination directory of the results (default: build/results/<dataset> next to oml.yml)')
+        .option('-f, --format <format>', 'result format of SELECT and ASK queries: csv, json or table (default: json)')
+        .option('-e, --entailments', 'adds the facts entailed by the reasoner to the dataset')
+        .description('evaluates SPARQL queries on the RDF dataset of a source file and the ontologies it imports')
+        .action(queryAction);
+
+    program
+        .command('merge')
+        .argument('<bundle>', 'IRI of a bundle, or name of a dataset of oml.yml')
+        .option('-d, --destination <dir>', 'destination directory of the merged dataset (default: build/merged)')
+        .option('-f, --format <format>', 'format of the merged dataset: oml (a folder of OML files with a catalog) or nt (a single N-Triples file) (default: oml)')
+        .description('merges the import closure of a bundle, resolved through catalog.xml, into a self-contained dataset')
+        .action(mergeAction);
+
+    program
+        .command('format')
+        .argument('<paths...>', `source files, or folders searched for source files (possible file extensions: ${fileExtensions})`)
+        .option('-c, --check', 'lists the files that are not formatted and fails if there are any, without changing them')
+        .option('-s, --spaces <count>', 'indents with the given number of spaces instead of tabs')
+        .description('formats source files canonically, e.g. to enforce the formatting in a review')
+        .action(formatAction);
+
     program.parse(process.argv);
 }
@@ -0,0 +1,75 @@
+import type { LangiumDocuments } from 'langium';
+import type { Ontology } from 'oml-language';
+import { createDataset, findConflictingNamespaces, getNamespaceIri, getOntologyIri } from 'oml-language';
+import { AstUtils, URI } from 'langium';
+import { defaultGraph } from 'oxigraph';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { generateOwlCatalog, getOntologyFilePath } from './owl-generator.js';
+
+export type MergeFormat = 'oml' | 'nt';
+
+/**
+ * Return the path of the nearest file with the given name in a folder or its parent folders.
+ */
+export function findUp(name: string, folder: string): string | undefined {
+    for (let current = path.resolve(folder); ; current = path.dirname(current)) {
+        const candidate = path.join(current, name);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        if (path.dirname(current) === current) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Return the namespaces of the given ontologies that other `.oml` files below a folder declare
+ * with a different content, with the paths of all the files declaring them. Files below the
+ * excluded folders (e.g. the merge destination) are ignored.
+ */
+export function findConflictingFiles(ontologies: Ontology[], documents: LangiumDocuments, folder: string, excluded: string[]): Map<string, string[]> {
+    const candidates = findOmlFiles(folder, excluded.map(e => path.resolve(e)))
+        .map(file => documents.getDocument(URI.file(file)) ?? documents.createDocument(URI.file(file), fs.readFileSync(file, 'utf-8')));
+    const conflicts = findConflictingNamespaces(ontologies, candidates);
+    return new Map([...conflicts].map(([namespace, uris]) => [namespace, uris.map(u => u.fsPath)]));
+}
+
+/**
+ * Copy the OML files of the given ontologies below the destination folder, laid out by ontology
+ * IRI, with a catalog mapping the IRIs to them. Return the paths of the written files.
+ */
+export function generateMergedOml(ontologies: Ontology[], destination: string): string[] {
+    const generatedFilePaths = ontologies.map(ontology => {
+        const generatedFilePath = getOntologyFilePath(getOntologyIri(getNamespaceIri(ontology)), destination, '.oml');
+        fs.mkdirSync(path.dirname(generatedFilePath), { recursive: true });
+        fs.writeFileSync(generatedFilePath, AstUtils.getDocument(ontology).textDocument.getText());
+        return generatedFilePath;
+    });
+    return [...generatedFilePaths, generateOwlCatalog(destination)];
+}
+
+/**
+ * Write the OWL conversion of the given ontologies as a single N-Triples file, with sorted
+ * triples so that merging the same ontologies gives the same file.
+ */
+export function generateMergedNTriples(ontologies: Ontology[], filePath: string): string {
+    const triples = createDataset(ontologies).dump({ format: 'application/n-triples', from_graph_name: defaultGraph() });
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, triples.split('\n').filter(t => t.length > 0).sort().map(t => `${t}\n`).join(''));
+    return filePath;
+}
+
+function findOmlFiles(folder: string, excluded: string[]): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+        const entryPath = path.join(folder, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules' && !excluded.includes(entryPath)) {
+            files.push(...findOmlFiles(entryPath, excluded));
+        } else if (entry.isFile() && entry.name.endsWith('.oml')) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
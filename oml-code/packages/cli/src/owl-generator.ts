@@ -0,0 +1,42 @@
+import type { Ontology } from 'oml-language';
+import { getNamespaceIri, getOntologyIri, ontologyToTurtle } from 'oml-language';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Map an ontology IRI to a file below the destination folder following the catalog
+ * convention, e.g. `https://example.com/a/b` -> `<destination>/example.com/a/b.ttl`.
+ */
+export function getOntologyFilePath(ontologyIri: string, destination: string, extension: string): string {
+    const relative = ontologyIri.replace(/^[a-zA-Z][\w+.-]*:\/*/, '');
+    return path.join(destination, ...relative.split('/')) + extension;
+}
+
+/**
+ * Write the Turtle serialization of the given ontology below the destination folder and
+ * return the path of the written file.
+ */
+export function generateOwl(model: Ontology, destination: string): string {
+    const generatedFilePath = getOntologyFilePath(getOntologyIri(getNamespaceIri(model)), destination, '.ttl');
+    fs.mkdirSync(path.dirname(generatedFilePath), { recursive: true });
+    fs.writeFileSync(generatedFilePath, ontologyToTurtle(model));
+    return generatedFilePath;
+}
+
+/**
+ * Write an OASIS catalog next to the generated ontologies so that OWL tools resolve the
+ * ontology IRIs to the generated files.
+ */
+export function generateOwlCatalog(destination: string): string {
+    const catalogPath = path.join(destination, 'catalog.xml');
+    fs.mkdirSync(destination, { recursive: true });
+    fs.writeFileSync(catalogPath, [
+        `<?xml version='1.0'?>`,
+        `<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog" prefer="public">`,
+        `\t<rewriteURI uriStartString="http://" rewritePrefix="./" />`,
+        `\t<rewriteURI uriStartString="https://" rewritePrefix="./" />`,
+        `</catalog>`,
+        ''
+    ].join('\n'));
+    return catalogPath;
+}
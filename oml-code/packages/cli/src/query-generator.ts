@@ -0,0 +1,55 @@
+import type { Ontology, QueryResultFormat } from 'oml-language';
+import { evaluateQuery, getDatasetName, getNamespaceIri, getOntologyIri } from 'oml-language';
+import type { Store } from 'oxigraph';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export type QueryResult = {
+    // The file extension of the written result, e.g. `json`, or `ttl` for CONSTRUCT and DESCRIBE
+    extension: string;
+    content: string;
+};
+
+/**
+ * Where the Gradle `query` task of a project writes its results: `build/results/<dataset>` next
+ * to the nearest `oml.yml`, for the dataset with the IRI of the ontology (or the first dataset).
+ * Without an `oml.yml` the results go to `build/results/<file name>`.
+ */
+export function getResultsFolder(filePath: string, model: Ontology): string {
+    for (let folder = path.dirname(path.resolve(filePath)); ; folder = path.dirname(folder)) {
+        const configPath = path.join(folder, 'oml.yml');
+        if (fs.existsSync(configPath)) {
+            const dataset = getDatasetName(fs.readFileSync(configPath, 'utf-8'), getOntologyIri(getNamespaceIri(model)));
+            if (dataset) {
+                return path.join(folder, 'build', 'results', dataset);
+            }
+        }
+        if (path.dirname(folder) === folder) {
+            return path.join('build', 'results', path.basename(filePath, path.extname(filePath)));
+        }
+    }
+}
+
+/**
+ * Return the SPARQL query files at a path: the file itself, or the `.sparql` files of a folder
+ * like the Gradle `query` task runs them.
+ */
+export function getQueryFiles(queryPath: string): string[] {
+    if (!fs.existsSync(queryPath)) {
+        return [];
+    }
+    return fs.statSync(queryPath).isDirectory()
+        ? fs.readdirSync(queryPath).filter(f => f.endsWith('.sparql')).sort().map(f => path.join(queryPath, f))
+        : [queryPath];
+}
+
+/**
+ * Evaluate a query file on a dataset and write the result to `<destination>/<query name>.<format>`.
+ */
+export function generateQueryResult(store: Store, queryFile: string, format: QueryResultFormat, destination: string): QueryResult & { resultPath: string } {
+    const result = evaluateQuery(store, fs.readFileSync(queryFile, 'utf-8'), format);
+    const resultPath = path.join(destination, `${path.basename(queryFile, path.extname(queryFile))}.${result.extension}`);
+    fs.mkdirSync(destination, { recursive: true });
+    fs.writeFileSync(resultPath, result.content);
+    return { ...result, resultPath };
+}
@@ -3,6 +3,7 @@ import chalk from 'chalk';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
 import { URI } from 'langium';
+import { OmlWorkspaceManager } from 'oml-language';
 
 export async function extractDocument(fileName: string, services: LangiumCoreServices): Promise<LangiumDocument> {
     const extensions = services.LanguageMetaData.fileExtensions;
@@ -17,7 +18,10 @@ export async function extractDocument(fileName: string, services: LangiumCoreSer
     }
 
     const document = await services.shared.workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.resolve(fileName)));
-    await services.shared.workspace.DocumentBuilder.build([document], { validation: true });
+    // Load the imported ontologies mapped by the nearest catalog.xml so that references resolve
+    const workspaceManager = services.shared.workspace.WorkspaceManager;
+    const imported = workspaceManager instanceof OmlWorkspaceManager ? await workspaceManager.loadImportedDocuments([document]) : [];
+    await services.shared.workspace.DocumentBuilder.build([document, ...imported], { validation: true });
 
     const validationErrors = (document.diagnostics ?? []).filter(e => e.severity === 1);
     if (validationErrors.length > 0) {
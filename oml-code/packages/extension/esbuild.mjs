@@ -39,7 +39,9 @@ const ctx = await esbuild.context({
         '.js': '.cjs'
     },
     loader: { '.ts': 'ts' },
-    external: ['vscode'],
+    // The PNG rasterizer is a native module and the SPARQL engine loads its WebAssembly next to
+    // its script, so they cannot be bundled
+    external: ['vscode', '@resvg/resvg-js', 'oxigraph'],
     platform: 'node',
     sourcemap: !minify,
     minify,
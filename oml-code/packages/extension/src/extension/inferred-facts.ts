@@ -0,0 +1,72 @@
+import type { LanguageClient } from 'vscode-languageclient/node.js';
+import type { DiagramLocation, InferredFactsModel } from 'oml-language';
+import * as vscode from 'vscode';
+
+type InferredFactsItem =
+    | { kind: 'subject', label: string, location?: DiagramLocation, children: InferredFactsItem[] }
+    | { kind: 'fact', label: string, description?: string, location?: DiagramLocation }
+    | { kind: 'inconsistency', label: string };
+
+/**
+ * Tree of the facts the reasoner infers for the instances of the active OML document, grouped by
+ * instance, with the inconsistencies found on top.
+ */
+export class InferredFactsProvider implements vscode.TreeDataProvider<InferredFactsItem> {
+
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+    private items: InferredFactsItem[] = [];
+    view?: vscode.TreeView<InferredFactsItem>;
+
+    constructor(private readonly client: LanguageClient) {}
+
+    async refresh(document: vscode.TextDocument | undefined): Promise<void> {
+        if (!document || document.languageId !== 'oml') {
+            return;
+        }
+        try {
+            const model: InferredFactsModel = await this.client.sendRequest('oml/inferredFacts', { uri: document.uri.toString() });
+            this.items = [
+                ...model.inconsistencies.map(message => ({ kind: 'inconsistency' as const, label: message })),
+                ...model.subjects.map(subject => ({
+                    kind: 'subject' as const,
+                    label: subject.label,
+                    location: subject.location,
+                    children: subject.facts.map(fact => ({
+                        kind: 'fact' as const,
+                        label: fact.property ? `${fact.property} ${fact.value}` : fact.value,
+                        description: fact.property ? undefined : 'type',
+                        location: fact.location
+                    }))
+                }))
+            ];
+            if (this.view) {
+                this.view.message = this.items.length === 0 ? `No facts are inferred for ${vscode.workspace.asRelativePath(document.uri)}.` : undefined;
+            }
+        } catch (err) {
+            console.error('[oml] Failed to get the inferred facts', err);
+            this.items = [];
+        }
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(item: InferredFactsItem): vscode.TreeItem {
+        const treeItem = new vscode.TreeItem(item.label, item.kind === 'subject' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        if (item.kind === 'inconsistency') {
+            treeItem.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+            treeItem.tooltip = item.label;
+        } else {
+            treeItem.iconPath = new vscode.ThemeIcon(item.kind === 'subject' ? 'symbol-object' : item.description ? 'symbol-class' : 'symbol-property');
+            treeItem.description = item.kind === 'subject' ? `${item.children.length} inferred` : item.description;
+            if (item.location) {
+                treeItem.command = { command: 'oml.openLocation', title: 'Open Declaration', arguments: [item.location] };
+            }
+        }
+        return treeItem;
+    }
+
+    getChildren(item?: InferredFactsItem): InferredFactsItem[] {
+        return item ? (item.kind === 'subject' ? item.children : []) : this.items;
+    }
+
+}
@@ -2,6 +2,10 @@ import type { LanguageClientOptions, ServerOptions } from 'vscode-languageclient
 import * as vscode from 'vscode';
 import * as path from 'node:path';
 import { LanguageClient, TransportKind } from 'vscode-languageclient/node.js';
+import { handleDiagramViewMessage, type DiagramHostMessage } from 'oml-language/diagram-protocol';
+import type { SModelRoot } from 'sprotty-protocol';
+import { InferredFactsProvider } from './inferred-facts.js';
+import { findQueryDatasets, QueryResultsPanels, type QueryDataset } from './query-results.js';
 
 let client: LanguageClient;
 
@@ -9,7 +13,8 @@ let client: LanguageClient;
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     client = await startLanguageClient(context);
     // Track open diagram panels and their associated document URIs
-    const openPanels: Array<{ panel: vscode.WebviewPanel, uri: string }> = [];
+    // together with the namespaces of the imported ontologies expanded inline
+    const openPanels: Array<{ panel: vscode.WebviewPanel, uri: string, expandedImports: Set<string> }> = [];
 
     // Register the UI command to open a read-only diagram
     context.subscriptions.push(vscode.commands.registerCommand('oml.openDiagram', async () => {
@@ -47,25 +52,39 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 </html>`;
 
         // Track this panel and its document URI
-        openPanels.push({ panel, uri: docUri });
+        const expandedImports = new Set<string>();
+        openPanels.push({ panel, uri: docUri, expandedImports });
 
         // Handle messages from the webview
-        const disposeListener = panel.webview.onDidReceiveMessage(async (msg) => {
-            if (msg?.type === 'requestModel') {
+        const disposeListener = panel.webview.onDidReceiveMessage(msg => handleDiagramViewMessage(msg, {
+            requestModel: async () => {
                 const requestStart = Date.now();
                 console.debug('[oml] webview requested model — forwarding to language server');
                 try {
-                    const model = await client.sendRequest('oml/diagramModel', { uri: docUri });
+                    const model: SModelRoot = await client.sendRequest('oml/diagramModel', { uri: docUri, expandedImports: [...expandedImports] });
                     const requestDuration = Date.now() - requestStart;
                     console.debug(`[oml] received model from language server in ${requestDuration}ms`);
-                    panel.webview.postMessage({ type: 'updateModel', model, _timings: { serverMs: requestDuration } });
+                    postDiagramMessage(panel, { type: 'updateModel', model, _timings: { serverMs: requestDuration } });
                 } catch (err) {
                     const requestDuration = Date.now() - requestStart;
                     console.error('[oml] Failed to get diagram model', err);
-                    panel.webview.postMessage({ type: 'updateModel', model: { nodes: [], edges: [] }, _timings: { serverMs: requestDuration, error: true } });
+                    postDiagramMessage(panel, { type: 'updateModel', model: { id: 'root', type: 'graph', children: [] }, _timings: { serverMs: requestDuration, error: true } });
                 }
+            },
+            toggleImport: async (namespace) => {
+                // Expand an imported ontology inline, or collapse it back to external nodes
+                if (!expandedImports.delete(namespace)) {
+                    expandedImports.add(namespace);
+                }
+                await updatePanelsForUri(docUri);
+            },
+            navigate: async ({ uri, range }) => {
+                // Open the declaration of a diagram element, next to the diagram
+                const selection = new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+                await vscode.window.showTextDocument(document, { selection, viewColumn: editor.viewColumn ?? vscode.ViewColumn.One });
             }
-        });
+        }));
         panel.onDidDispose(() => {
             disposeListener.dispose();
             // Remove from openPanels
@@ -74,16 +93,80 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         });
     }));
 
+    // Export the diagram of the active document to an SVG or PNG file
+    context.subscriptions.push(vscode.commands.registerCommand('oml.exportDiagram', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'oml') {
+            return;
+        }
+        const docUri = editor.document.uri;
+        const format = await vscode.window.showQuickPick(['svg', 'png'], { placeHolder: 'Image format' });
+        if (!format) {
+            return;
+        }
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: docUri.with({ path: docUri.path.replace(/\.oml$/, `.${format}`) }),
+            filters: { [format.toUpperCase()]: [format] }
+        });
+        if (!target) {
+            return;
+        }
+        const themeKind = vscode.window.activeColorTheme.kind;
+        const theme = themeKind === vscode.ColorThemeKind.Light || themeKind === vscode.ColorThemeKind.HighContrastLight ? 'light' : 'dark';
+        // Keep the imports expanded in an open diagram panel of the document
+        const expandedImports = openPanels.find(p => p.uri === docUri.toString())?.expandedImports ?? [];
+        try {
+            const image: string = await client.sendRequest('oml/exportDiagram', { uri: docUri.toString(), format, theme, expandedImports: [...expandedImports] });
+            await vscode.workspace.fs.writeFile(target, Buffer.from(image, 'base64'));
+            vscode.window.showInformationMessage(`Diagram exported to ${vscode.workspace.asRelativePath(target)}`);
+        } catch (err) {
+            console.error('[oml] Failed to export diagram', err);
+            vscode.window.showErrorMessage(`Failed to export diagram: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }));
+
+    // Show the facts inferred for the instances of the active document
+    const inferredFacts = new InferredFactsProvider(client);
+    inferredFacts.view = vscode.window.createTreeView('omlInferredFacts', { treeDataProvider: inferredFacts });
+    context.subscriptions.push(inferredFacts.view);
+    context.subscriptions.push(vscode.commands.registerCommand('oml.refreshInferredFacts', () => inferredFacts.refresh(vscode.window.activeTextEditor?.document)));
+    context.subscriptions.push(vscode.commands.registerCommand('oml.openLocation', async (location: { uri: string, range: vscode.Range }) => {
+        const { start, end } = location.range;
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(location.uri));
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(start.line, start.character, end.line, end.character) });
+    }));
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => inferredFacts.refresh(editor?.document)));
+    void inferredFacts.refresh(vscode.window.activeTextEditor?.document);
+
+    // Recognize the SPARQL queries of the datasets declared in oml.yml and run them on the workspace
+    let queryDatasets: QueryDataset[] = [];
+    const updateQueryDatasets = async () => {
+        queryDatasets = await findQueryDatasets();
+        await vscode.commands.executeCommand('setContext', 'oml.queryFolders', queryDatasets.map(d => d.queries));
+    };
+    const configWatcher = vscode.workspace.createFileSystemWatcher('**/oml.yml');
+    context.subscriptions.push(configWatcher, configWatcher.onDidCreate(updateQueryDatasets), configWatcher.onDidChange(updateQueryDatasets), configWatcher.onDidDelete(updateQueryDatasets));
+    void updateQueryDatasets();
+    const queryResults = new QueryResultsPanels(client);
+    context.subscriptions.push(vscode.commands.registerCommand('oml.runQuery', async (uri?: vscode.Uri) => {
+        const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+        if (!document || !document.fileName.endsWith('.sparql')) {
+            vscode.window.showWarningMessage('Open a .sparql file to run it as a query.');
+            return;
+        }
+        await queryResults.run(document, queryDatasets.find(d => path.dirname(document.fileName) === d.queries));
+    }));
+
     // Debounced updates: schedule updates for changed documents and also update on save
     const updateTimeouts = new Map<string, NodeJS.Timeout>();
 
     async function updatePanelsForUri(uri: string) {
-        for (const { panel, uri: panelUri } of openPanels) {
+        for (const { panel, uri: panelUri, expandedImports } of openPanels) {
             if (panelUri === uri) {
                 try {
                     console.debug(`[oml] requesting updated model for ${uri}`);
-                    const model = await client.sendRequest('oml/diagramModel', { uri });
-                    panel.webview.postMessage({ type: 'updateModel', model });
+                    const model: SModelRoot = await client.sendRequest('oml/diagramModel', { uri, expandedImports: [...expandedImports] });
+                    postDiagramMessage(panel, { type: 'updateModel', model });
                     console.debug('[oml] posted updated model to webview');
                 } catch (err) {
                     console.error('[oml] Failed to update diagram model after document change', err);
@@ -105,6 +188,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         updateTimeouts.set(changedUri, t);
     }));
 
+    // Highlight the diagram element declared at the cursor in the panels showing that document
+    context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection((event) => {
+        if (event.textEditor.document.languageId !== 'oml') return;
+        const uri = event.textEditor.document.uri.toString();
+        const { line, character } = event.selections[0].active;
+        for (const { panel, uri: panelUri } of openPanels) {
+            if (panelUri === uri) {
+                postDiagramMessage(panel, { type: 'selectAt', uri, position: { line, character } });
+            }
+        }
+    }));
+
     // Also update on save immediately
     context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((doc) => {
         if (doc.languageId !== 'oml') return;
@@ -115,6 +210,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             updateTimeouts.delete(savedUri);
         }
         void updatePanelsForUri(savedUri);
+        if (doc === vscode.window.activeTextEditor?.document) {
+            void inferredFacts.refresh(doc);
+        }
     }));
 }
 
@@ -126,6 +224,11 @@ export function deactivate(): Thenable<void> | undefined {
     return undefined;
 }
 
+// Send a message to a diagram webview (see `diagramClient.ts` for the receiving side)
+function postDiagramMessage(panel: vscode.WebviewPanel, message: DiagramHostMessage): void {
+    panel.webview.postMessage(message);
+}
+
 async function startLanguageClient(context: vscode.ExtensionContext): Promise<LanguageClient> {
     const serverModule = context.asAbsolutePath(path.join('out', 'language', 'main.cjs'));
     // The debug options for the server
@@ -0,0 +1,140 @@
+import type { LanguageClient } from 'vscode-languageclient/node.js';
+import type { QueryResultsModel } from 'oml-language';
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import { parse } from 'yaml';
+
+/**
+ * A dataset of an `oml.yml` file: the IRI of its bundle and the folder of its SPARQL queries.
+ */
+export type QueryDataset = { iri?: string, queries: string };
+
+/**
+ * Read the datasets that declare a `queries` folder from the `oml.yml` files of the workspace.
+ */
+export async function findQueryDatasets(): Promise<QueryDataset[]> {
+    const datasets: QueryDataset[] = [];
+    for (const configUri of await vscode.workspace.findFiles('**/oml.yml', '**/node_modules/**')) {
+        try {
+            const config = parse(Buffer.from(await vscode.workspace.fs.readFile(configUri)).toString('utf-8'));
+            for (const dataset of Object.values<{ iri?: string, queries?: string }>(config?.datasets ?? {})) {
+                if (dataset?.queries) {
+                    datasets.push({ iri: dataset.iri, queries: path.resolve(path.dirname(configUri.fsPath), dataset.queries) });
+                }
+            }
+        } catch (err) {
+            console.error(`[oml] Failed to read ${configUri.fsPath}`, err);
+        }
+    }
+    return datasets;
+}
+
+/**
+ * Shows the results of the queries run from the editor, one panel per query file.
+ */
+export class QueryResultsPanels {
+
+    private readonly panels = new Map<string, vscode.WebviewPanel>();
+
+    constructor(private readonly client: LanguageClient) {}
+
+    async run(document: vscode.TextDocument, dataset: QueryDataset | undefined): Promise<void> {
+        const key = document.uri.toString();
+        let panel = this.panels.get(key);
+        if (!panel) {
+            panel = vscode.window.createWebviewPanel('omlQueryResults', `Query Results: ${path.basename(document.fileName)}`, vscode.ViewColumn.Beside, { enableScripts: true });
+            this.panels.set(key, panel);
+            panel.onDidDispose(() => this.panels.delete(key));
+            panel.webview.onDidReceiveMessage(async (msg) => {
+                if (msg?.type === 'navigate' && msg.location) {
+                    // Open the declaration of a member in the results
+                    const { uri, range } = msg.location;
+                    const selection = new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+                    const declaration = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+                    await vscode.window.showTextDocument(declaration, { selection, viewColumn: vscode.ViewColumn.One });
+                }
+            });
+        } else {
+            panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+        let model: QueryResultsModel;
+        try {
+            model = await this.client.sendRequest('oml/runQuery', { query: document.getText(), datasetIri: dataset?.iri });
+        } catch (err) {
+            model = { locations: {}, error: err instanceof Error ? err.message : String(err) };
+        }
+        panel.webview.html = renderResults(model);
+    }
+
+}
+
+function renderResults(model: QueryResultsModel): string {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    let body: string;
+    if (model.error) {
+        body = `<p class="error">${escape(model.error)}</p>`;
+    } else if (model.results?.boolean !== undefined) {
+        body = `<p>${model.results.boolean}</p>`;
+    } else {
+        const vars = model.results?.head.vars ?? [];
+        const bindings = model.results?.results?.bindings ?? [];
+        const rows = bindings.map(binding => `<tr>${vars.map(v => {
+            const term = binding[v];
+            if (!term) {
+                return '<td></td>';
+            }
+            const text = term.type === 'uri' ? `<${term.value}>` : term.type === 'bnode' ? `_:${term.value}` : term.value;
+            const location = term.type === 'uri' ? model.locations[term.value] : undefined;
+            const cell = location ? `<a href="#" data-location="${escape(JSON.stringify(location))}">${escape(text)}</a>` : escape(text);
+            return `<td data-value="${escape(term.value)}">${cell}</td>`;
+        }).join('')}</tr>`);
+        body = `<p>${bindings.length} result${bindings.length === 1 ? '' : 's'}</p>
+<table>
+  <thead><tr>${vars.map((v, i) => `<th data-column="${i}">${escape(v)}</th>`).join('')}</tr></thead>
+  <tbody>${rows.join('\n')}</tbody>
+</table>`;
+    }
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 2px 8px; text-align: left; vertical-align: top; }
+    th { cursor: pointer; user-select: none; background: var(--vscode-editorWidget-background); }
+    th[data-order="asc"]::after { content: ' \\25B2'; }
+    th[data-order="desc"]::after { content: ' \\25BC'; }
+    a { color: var(--vscode-textLink-foreground); }
+    .error { color: var(--vscode-errorForeground); white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  ${body}
+  <script>
+    const vscode = acquireVsCodeApi();
+    // Open the declaration of a clicked IRI
+    document.addEventListener('click', event => {
+      const link = event.target.closest('a[data-location]');
+      if (link) {
+        event.preventDefault();
+        vscode.postMessage({ type: 'navigate', location: JSON.parse(link.dataset.location) });
+      }
+    });
+    // Sort the rows by a column, numerically when both values are numbers
+    const collator = new Intl.Collator(undefined, { numeric: true });
+    document.querySelectorAll('th').forEach(th => th.addEventListener('click', () => {
+      const column = Number(th.dataset.column);
+      const order = th.dataset.order === 'asc' ? 'desc' : 'asc';
+      document.querySelectorAll('th').forEach(other => delete other.dataset.order);
+      th.dataset.order = order;
+      const tbody = document.querySelector('tbody');
+      const value = row => row.children[column].dataset.value ?? '';
+      const rows = [...tbody.rows].sort((a, b) => collator.compare(value(a), value(b)) * (order === 'asc' ? 1 : -1));
+      rows.forEach(row => tbody.appendChild(row));
+    }));
+  </script>
+</body>
+</html>`;
+}
@@ -24,7 +24,16 @@ import {
   overrideViewerOptions
 } from 'sprotty';
 import type { IView, RenderingContext } from 'sprotty';
-import type { SModelRoot } from 'sprotty-protocol';
+import { SelectAction, SelectAllAction, UpdateModelAction, type Action } from 'sprotty-protocol';
+import {
+  findDiagramElementAt,
+  getDiagramElementMessage,
+  getDiagramElements,
+  type DiagramElementData,
+  type DiagramHostMessage,
+  type DiagramPosition,
+  type DiagramViewMessage
+} from 'oml-language/diagram-protocol';
 import { h } from 'snabbdom';
 import type { VNode } from 'snabbdom';
 
@@ -387,16 +396,16 @@ let actionDispatcher = container.get<IActionDispatcher>(TYPES.IActionDispatcher)
     // Wrap dispatcher to block moves as final safety net.
   // Markers inherit selection styling via CSS, so no JS color update needed.
   const originalDispatch = actionDispatcher.dispatch.bind(actionDispatcher);
-  (actionDispatcher as any).dispatch = (action: any) => {
-    if (action?.kind === 'setBounds') {
-      return;
+  actionDispatcher.dispatch = (action: Action) => {
+    if (action.kind === 'setBounds') {
+      return Promise.resolve();
     }
     return originalDispatch(action);
   };
 
 // Wire message handling
 // VS Code webview API declaration for TS
-declare function acquireVsCodeApi(): { postMessage(msg: unknown): void };
+declare function acquireVsCodeApi(): { postMessage(msg: DiagramViewMessage): void };
 const vscodeApi = acquireVsCodeApi();
 
 // Watch for selection class changes on edges and swap marker references
@@ -533,30 +542,42 @@ function setupMarkerColorWatcher() {
   updateMarkerReferences();
 }
 
-window.addEventListener('message', (event: MessageEvent) => {
+// IRI, namespace (for members of other ontologies) and declaration of each node and edge, by
+// element id, used to navigate to the source and back (see the dblclick handler below)
+let elements = new Map<string, DiagramElementData>();
+
+// Select the innermost element declared at the given position of a document (the editor cursor)
+function selectElementAt(uri: string, position: DiagramPosition) {
+  const id = findDiagramElementAt(elements, uri, position);
+  actionDispatcher.dispatch(SelectAllAction.create({ select: false }));
+  if (id) {
+    actionDispatcher.dispatch(SelectAction.create({ selectedElementsIDs: [id] }));
+  }
+}
+
+window.addEventListener('message', (event: MessageEvent<DiagramHostMessage>) => {
   const message = event.data;
   if (message?.type === 'updateModel') {
     try {
   // Server now provides a fully laid-out SModel; set it directly.
-      const root: SModelRoot = message.model as SModelRoot;
-      try { console.log('[OML Diagram] updateModel received. root kind:', (root as any).type, 'children:', (root as any).children?.length); } catch {}
+      const root = message.model;
+      elements = getDiagramElements(root);
+      try { console.log('[OML Diagram] updateModel received. root kind:', root.type, 'children:', root.children?.length); } catch {}
       // Prefer morphing updates for smooth animations.
       try {
         // Dispatch UpdateModel action so animationModule can morph the view.
-        actionDispatcher.dispatch({ kind: 'updateModel', newRoot: root, animate: true } as any);
+        actionDispatcher.dispatch(UpdateModelAction.create(root, { animate: true }));
       } catch (_) {
         // Fallback to LocalModelSource if dispatcher path is not available.
-        if (typeof (modelSource as any).updateModel === 'function') {
-          (modelSource as any).updateModel(root);
-        } else {
-          modelSource.setModel(root);
-        }
+        modelSource.updateModel(root);
       }
       // Set up marker watcher after first model load
       setTimeout(() => setupMarkerColorWatcher(), 100);
     } catch (err) {
       console.error('[OML Diagram] Error processing model:', err);
     }
+  } else if (message?.type === 'selectAt') {
+    selectElementAt(message.uri, message.position);
   }
 });
 
@@ -743,8 +764,17 @@ vscodeApi.postMessage({ type: 'requestModel' });
   window.addEventListener('touchmove', onTouchMove, { passive: false, capture: true });
   window.addEventListener('touchend', onTouchEnd, { capture: true });
 
-  // Double-click to reset view
-  root.addEventListener('dblclick', () => {
+  // Double-click a node or edge to open its declaration in the editor; Alt+double-click a node
+  // of another ontology to expand (or collapse) that ontology inline; double-click anywhere
+  // else to reset the view
+  root.addEventListener('dblclick', (e: MouseEvent) => {
+    const elementEl = (e.target as Element).closest('g.sprotty-node, g.sprotty-edge');
+    const id = elementEl ? elementEl.id.substring(`${BASE_DIV_ID}_`.length) : undefined;
+    const message = getDiagramElementMessage(id ? elements.get(id) : undefined, e.altKey);
+    if (message) {
+      vscodeApi.postMessage(message);
+      return;
+    }
     panX = 0;
     panY = 0;
     scale = 1;
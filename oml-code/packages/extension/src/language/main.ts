@@ -1,9 +1,8 @@
 import { startLanguageServer } from 'langium/lsp';
 import { NodeFileSystem } from 'langium/node';
 import { createConnection, ProposedFeatures, RequestType } from 'vscode-languageserver/node.js';
-import { createOmlServices } from 'oml-language';
+import { computeInferredFacts, computeLaidOutSModelForUri, computeQueryResults, createOmlServices, renderDiagramImage, type DiagramImageOptions, type InferredFactsModel, type QueryResultsModel } from 'oml-language';
 import type { SModelRoot } from 'sprotty-protocol';
-import { computeLaidOutSModelForUri } from './diagram-layout.js';
 
 // Create a connection to the client
 const connection = createConnection(ProposedFeatures.all);
@@ -12,11 +11,12 @@ const connection = createConnection(ProposedFeatures.all);
 const { shared } = createOmlServices({ connection, ...NodeFileSystem });
 
 // Custom request: fetch a laid-out Sprotty SModel for a given document URI
-const DiagramModelRequest = new RequestType<{ uri: string }, SModelRoot, void>('oml/diagramModel');
+// `expandedImports` lists the namespaces of imported ontologies to render inline
+const DiagramModelRequest = new RequestType<{ uri: string, expandedImports?: string[] }, SModelRoot, void>('oml/diagramModel');
 
-connection.onRequest(DiagramModelRequest, async ({ uri }) => {
+connection.onRequest(DiagramModelRequest, async ({ uri, expandedImports }) => {
 	try {
-		return await computeLaidOutSModelForUri(shared, uri);
+		return await computeLaidOutSModelForUri(shared, uri, { expandedImports });
 	} catch (err) {
 		// Return an empty model on failure to keep the client resilient
 		console.error('[oml] diagram model error', err);
@@ -24,5 +24,24 @@ connection.onRequest(DiagramModelRequest, async ({ uri }) => {
 	}
 });
 
+// Custom request: render the diagram of a document as an SVG or PNG image (base64 encoded)
+const ExportDiagramRequest = new RequestType<{ uri: string } & DiagramImageOptions, string, void>('oml/exportDiagram');
+
+connection.onRequest(ExportDiagramRequest, async ({ uri, ...options }) => {
+	const image = await renderDiagramImage(shared, uri, options);
+	return Buffer.from(image).toString('base64');
+});
+
+// Custom request: compute the facts the reasoner infers for the instances of a document
+const InferredFactsRequest = new RequestType<{ uri: string }, InferredFactsModel, void>('oml/inferredFacts');
+
+connection.onRequest(InferredFactsRequest, ({ uri }) => computeInferredFacts(shared, uri));
+
+// Custom request: evaluate a SPARQL query on the ontologies of the workspace
+// `datasetIri` is the IRI of the dataset (bundle) of the `oml.yml` declaring the queries folder
+const RunQueryRequest = new RequestType<{ query: string, datasetIri?: string }, QueryResultsModel, void>('oml/runQuery');
+
+connection.onRequest(RunQueryRequest, ({ query, datasetIri }) => computeQueryResults(shared, query, datasetIri));
+
 // Start the language server with the shared services
 startLanguageServer(shared);
@@ -1,6 +1,28 @@
 export * from './oml-module.js';
 export * from './oml-validator.js';
 export * from './oml-diagram.js';
+export * from './oml-diagram-layout.js';
+export * from './oml-diagram-export.js';
+export * from './oml-diagram-protocol.js';
+export * from './oml-scope.js';
+export * from './oml-catalog.js';
+export * from './oml-code-actions.js';
+export * from './oml-completion.js';
+export * from './oml-formatter.js';
+export * from './oml-hover.js';
+export * from './oml-rename.js';
+export * from './oml-workspace.js';
+export * from './oml-bundles.js';
+export * from './oml-hierarchy.js';
+export * from './oml-literals.js';
+export * from './oml-restrictions.js';
+export * from './oml-reasoner.js';
+export * from './oml-inference.js';
+export * from './oml-owl.js';
+export * from './oml-jsonschema.js';
+export * from './oml-typescript.js';
+export * from './oml-sparql.js';
+export * from './oml-utils.js';
 export * from './generated/ast.js';
 export * from './generated/grammar.js';
 export * from './generated/module.js';
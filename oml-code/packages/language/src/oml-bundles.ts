@@ -0,0 +1,146 @@
+import { AstUtils, WorkspaceCache, type LangiumDocument, type LangiumDocuments, type LangiumSharedCoreServices, type URI } from 'langium';
+import { parse } from 'yaml';
+import { isDescriptionBundle, isOntology, isVocabularyBundle, type DescriptionBundle, type Import, type Ontology, type VocabularyBundle } from './generated/ast.js';
+import { getNamespaceIri, getOntologyIri } from './oml-utils.js';
+
+export type Bundle = VocabularyBundle | DescriptionBundle;
+
+export function isBundle(item: unknown): item is Bundle {
+    return isVocabularyBundle(item) || isDescriptionBundle(item);
+}
+
+/**
+ * The import closure of an ontology through its `extends`, `uses` and `includes` imports.
+ */
+export type ImportClosure = {
+    // The ontology followed by the ontologies it transitively imports, in depth-first order
+    ontologies: Ontology[];
+    // The imports of ontologies in the closure whose namespace is not declared by a loaded ontology
+    unresolved: Import[];
+    // The chains of imports that lead from an ontology of the closure back to itself
+    cycles: Import[][];
+};
+
+/**
+ * Compute the import closure of an ontology, as far as the imports are resolved.
+ */
+export function computeImportClosure(ontology: Ontology): ImportClosure {
+    const closure: ImportClosure = { ontologies: [], unresolved: [], cycles: [] };
+    const visited = new Set<Ontology>();
+    // The ontologies being visited, from the given one, and the imports between them
+    const ancestors: Ontology[] = [];
+    const path: Import[] = [];
+    const visit = (current: Ontology) => {
+        visited.add(current);
+        ancestors.push(current);
+        closure.ontologies.push(current);
+        for (const imp of current.ownedImports ?? []) {
+            const imported = imp.imported?.ref;
+            const ancestor = imported ? ancestors.indexOf(imported) : -1;
+            if (!imported) {
+                closure.unresolved.push(imp);
+            } else if (ancestor >= 0) {
+                closure.cycles.push([...path.slice(ancestor), imp]);
+            } else if (!visited.has(imported)) {
+                path.push(imp);
+                visit(imported);
+                path.pop();
+            }
+        }
+        ancestors.pop();
+    };
+    visit(ontology);
+    return closure;
+}
+
+/**
+ * Return the IRI of a bundle given by its IRI or by the name of a dataset declared in an
+ * `oml.yml` with the given content.
+ */
+export function resolveBundleIri(bundle: string, config: string | undefined): string | undefined {
+    if (/^[a-zA-Z][\w+.-]*:/.test(bundle)) {
+        return bundle;
+    }
+    const datasets: Record<string, { iri?: string }> = config ? parse(config)?.datasets ?? {} : {};
+    return datasets[bundle]?.iri;
+}
+
+/**
+ * Return the name of the dataset of an `oml.yml` with the given content that has the given
+ * bundle IRI, or of its first dataset if none has it, like the Gradle `query` task does.
+ */
+export function getDatasetName(config: string, iri: string): string | undefined {
+    const datasets: Record<string, { iri?: string }> = parse(config)?.datasets ?? {};
+    return Object.keys(datasets).find(name => datasets[name]?.iri === iri) ?? Object.keys(datasets)[0];
+}
+
+/**
+ * Return the namespaces of the given ontologies (e.g. the closure of a bundle being merged) that
+ * other documents declare with a different content, with the URIs of all the documents
+ * declaring them.
+ */
+export function findConflictingNamespaces(ontologies: Ontology[], documents: LangiumDocument[]): Map<string, URI[]> {
+    const merged = new Map(ontologies.map(o => [getNamespaceIri(o), AstUtils.getDocument(o)]));
+    const conflicts = new Map<string, URI[]>();
+    for (const document of documents) {
+        const root = document.parseResult.value;
+        const mergedDocument = isOntology(root) ? merged.get(getNamespaceIri(root)) : undefined;
+        if (isOntology(root) && mergedDocument && mergedDocument !== document && mergedDocument.textDocument.getText() !== document.textDocument.getText()) {
+            const namespace = getNamespaceIri(root);
+            conflicts.set(namespace, [...conflicts.get(namespace) ?? [mergedDocument.uri], document.uri]);
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Shared service resolving the bundles of the workspace and the import closures of ontologies,
+ * so that diagrams, validations, exporters and the CLI agree on what a bundle contains.
+ */
+export class OmlBundleResolver {
+
+    protected readonly langiumDocuments: LangiumDocuments;
+    protected readonly closures: WorkspaceCache<Ontology, ImportClosure>;
+
+    constructor(services: LangiumSharedCoreServices) {
+        this.langiumDocuments = services.workspace.LangiumDocuments;
+        this.closures = new WorkspaceCache(services);
+    }
+
+    /**
+     * Return the ontologies of the loaded documents.
+     */
+    getOntologies(): Ontology[] {
+        return this.langiumDocuments.all.map(d => d.parseResult.value).filter(isOntology).toArray();
+    }
+
+    /**
+     * Return the vocabulary and description bundles of the loaded documents.
+     */
+    getBundles(): Bundle[] {
+        return this.getOntologies().filter(isBundle);
+    }
+
+    /**
+     * Return the loaded ontology with the given namespace or ontology IRI, e.g. the bundle of a
+     * dataset in `oml.yml`.
+     */
+    findOntology(iri: string): Ontology | undefined {
+        return this.getOntologies().find(o => getNamespaceIri(o) === iri || getOntologyIri(getNamespaceIri(o)) === iri);
+    }
+
+    /**
+     * Return the import closure of an ontology, which is cached until the workspace changes.
+     */
+    getClosure(ontology: Ontology): ImportClosure {
+        return this.closures.get(ontology, () => computeImportClosure(ontology));
+    }
+
+    /**
+     * Return the bundles whose import closure contains the given ontology.
+     */
+    getIncludingBundles(ontology: Ontology): Bundle[] {
+        return this.getBundles().filter(b => b !== ontology && this.getClosure(b).ontologies.includes(ontology));
+    }
+
+}
@@ -0,0 +1,145 @@
+import { URI, UriUtils, type FileSystemProvider, type LangiumSharedCoreServices } from 'langium';
+
+/**
+ * A single rewrite entry of an OASIS XML catalog.
+ */
+export type CatalogRewriteRule = {
+    kind: 'rewriteURI' | 'rewriteSystem';
+    startString: string;
+    rewritePrefix: string;
+};
+
+/**
+ * An OASIS XML catalog (`catalog.xml`) mapping ontology IRIs to local `.oml` files.
+ * Only the `rewriteURI` and `rewriteSystem` entries are supported; relative rewrite
+ * prefixes are resolved against the folder containing the catalog.
+ */
+export class OmlCatalog {
+
+    constructor(readonly uri: URI, readonly rules: CatalogRewriteRule[]) {}
+
+    /**
+     * Parse the content of a catalog file located at the given URI.
+     */
+    static parse(uri: URI, content: string): OmlCatalog {
+        const rules: CatalogRewriteRule[] = [];
+        const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+        const entryPattern = /<(rewriteURI|rewriteSystem)\b([^>]*?)\/?>/g;
+        for (const match of withoutComments.matchAll(entryPattern)) {
+            const kind = match[1] as CatalogRewriteRule['kind'];
+            const attributes = parseAttributes(match[2]);
+            const startString = kind === 'rewriteURI' ? attributes.get('uriStartString') : attributes.get('systemIdStartString');
+            const rewritePrefix = attributes.get('rewritePrefix');
+            if (startString !== undefined && rewritePrefix !== undefined) {
+                rules.push({ kind, startString, rewritePrefix });
+            }
+        }
+        return new OmlCatalog(uri, rules);
+    }
+
+    /**
+     * Rewrite an IRI with the rule having the longest matching start string, as mandated by
+     * the OASIS specification. Returns `undefined` if no rule matches.
+     */
+    resolveUri(iri: string): URI | undefined {
+        let best: CatalogRewriteRule | undefined;
+        for (const rule of this.rules) {
+            if (iri.startsWith(rule.startString) && (!best || rule.startString.length > best.startString.length)) {
+                best = rule;
+            }
+        }
+        if (!best) {
+            return undefined;
+        }
+        const rewritten = best.rewritePrefix + iri.substring(best.startString.length);
+        if (/^[a-zA-Z][\w+.-]+:/.test(rewritten)) {
+            return URI.parse(rewritten);
+        }
+        return UriUtils.joinPath(UriUtils.dirname(this.uri), rewritten);
+    }
+
+    /**
+     * Map an ontology namespace (e.g. `https://example.com/a/b#`) to the `.oml` file that
+     * declares it (e.g. `<rewritePrefix>/a/b.oml`).
+     */
+    resolveNamespace(namespace: string, extension = '.oml'): URI | undefined {
+        const iri = namespace.replace(/[#/]$/, '');
+        const resolved = this.resolveUri(iri);
+        return resolved ? resolved.with({ path: resolved.path + extension }) : undefined;
+    }
+
+}
+
+function parseAttributes(text: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(["'])(.*?)\2/g)) {
+        attributes.set(match[1], match[3]);
+    }
+    return attributes;
+}
+
+/**
+ * Shared service locating the `catalog.xml` that applies to a document, i.e. the nearest one
+ * found in the document's folder or any of its parent folders.
+ */
+export class OmlCatalogProvider {
+
+    static readonly CATALOG_FILE_NAME = 'catalog.xml';
+
+    protected readonly fileSystemProvider: FileSystemProvider;
+    protected readonly catalogsByFolder = new Map<string, Promise<OmlCatalog | undefined>>();
+
+    constructor(services: LangiumSharedCoreServices) {
+        this.fileSystemProvider = services.workspace.FileSystemProvider;
+    }
+
+    /**
+     * Find the catalog applying to the given document URI.
+     */
+    findCatalog(documentUri: URI): Promise<OmlCatalog | undefined> {
+        return this.findCatalogInFolder(UriUtils.dirname(documentUri));
+    }
+
+    /**
+     * Resolve an imported namespace to the URI of the file declaring it, using the catalog
+     * applying to the importing document.
+     */
+    async resolveNamespace(documentUri: URI, namespace: string): Promise<URI | undefined> {
+        const catalog = await this.findCatalog(documentUri);
+        return catalog?.resolveNamespace(namespace);
+    }
+
+    /**
+     * Forget all cached catalogs, e.g. after a `catalog.xml` has changed.
+     */
+    clear(): void {
+        this.catalogsByFolder.clear();
+    }
+
+    protected findCatalogInFolder(folder: URI): Promise<OmlCatalog | undefined> {
+        const key = folder.toString();
+        let result = this.catalogsByFolder.get(key);
+        if (!result) {
+            result = this.loadCatalogInFolder(folder);
+            this.catalogsByFolder.set(key, result);
+        }
+        return result;
+    }
+
+    protected async loadCatalogInFolder(folder: URI): Promise<OmlCatalog | undefined> {
+        const candidate = UriUtils.joinPath(folder, OmlCatalogProvider.CATALOG_FILE_NAME);
+        try {
+            if (await this.fileSystemProvider.exists(candidate)) {
+                return OmlCatalog.parse(candidate, await this.fileSystemProvider.readFile(candidate));
+            }
+        } catch (err) {
+            console.error(`[oml] failed to read catalog ${candidate.toString()}`, err);
+        }
+        const parent = UriUtils.dirname(folder);
+        if (parent.path === folder.path) {
+            return undefined;
+        }
+        return this.findCatalogInFolder(parent);
+    }
+
+}
@@ -0,0 +1,185 @@
+import { AstUtils, DocumentValidator, GrammarUtils, type AstReflection, type IndexManager, type LangiumDocument, type LangiumDocuments, type LinkingErrorData, type MaybePromise, type References } from 'langium';
+import type { CodeActionProvider } from 'langium/lsp';
+import { CodeActionKind, type CodeAction, type CodeActionParams, type Command, type Diagnostic, type TextEdit, type WorkspaceEdit } from 'vscode-languageserver';
+import { isConcept, isDescription, isDescriptionBox, isOntology, isVocabulary, isVocabularyBox, type Ontology } from './generated/ast.js';
+import type { OmlBundleResolver } from './oml-bundles.js';
+import type { OmlServices } from './oml-module.js';
+import { OmlIssueCodes } from './oml-validator.js';
+import { getImportedNamespace, getNamespaceIri, getPrefixMap, stripAngleBrackets } from './oml-utils.js';
+
+/**
+ * Quick fixes of the diagnostics of OML documents:
+ *  - an unresolved reference to a member of an ontology of the workspace imports that ontology
+ *    (with a prefix that is not used yet) and changes the reference to `prefix:name`,
+ *  - a concept name starting with a lower case letter is capitalized, with its references,
+ *  - a namespace without separator gets a `#`.
+ */
+export class OmlCodeActionProvider implements CodeActionProvider {
+
+    protected readonly reflection: AstReflection;
+    protected readonly indexManager: IndexManager;
+    protected readonly langiumDocuments: LangiumDocuments;
+    protected readonly references: References;
+    protected readonly bundleResolver: OmlBundleResolver;
+
+    constructor(services: OmlServices) {
+        this.reflection = services.shared.AstReflection;
+        this.indexManager = services.shared.workspace.IndexManager;
+        this.langiumDocuments = services.shared.workspace.LangiumDocuments;
+        this.references = services.references.References;
+        this.bundleResolver = services.shared.workspace.BundleResolver;
+    }
+
+    getCodeActions(document: LangiumDocument, params: CodeActionParams): MaybePromise<Array<Command | CodeAction> | undefined> {
+        const actions: CodeAction[] = [];
+        for (const diagnostic of params.context.diagnostics) {
+            if ((diagnostic.data as LinkingErrorData | undefined)?.code === DocumentValidator.LinkingError) {
+                actions.push(...this.importMember(document, diagnostic));
+            } else if (diagnostic.code === OmlIssueCodes.LowercaseConceptName) {
+                actions.push(...this.capitalizeConceptName(document, diagnostic));
+            } else if (diagnostic.code === OmlIssueCodes.InvalidNamespace) {
+                actions.push(this.addNamespaceSeparator(document, diagnostic));
+            }
+        }
+        return actions;
+    }
+
+    /**
+     * Offer to import each ontology of the workspace that declares a member with the name of
+     * the unresolved reference and of the expected type. An ontology that is already imported
+     * only needs the reference to use its prefix.
+     */
+    protected importMember(document: LangiumDocument, diagnostic: Diagnostic): CodeAction[] {
+        const ontology = document.parseResult.value;
+        const offset = document.textDocument.offsetAt(diagnostic.range.start);
+        const reference = document.references.find(r => r.error && r.$refNode?.offset === offset);
+        if (!isOntology(ontology) || !reference?.error) {
+            return [];
+        }
+        const { typedPrefix, localName, iri } = parseReferenceText(reference.$refText);
+        const referenceType = this.reflection.getReferenceType(reference.error.info);
+        const ownNamespace = getNamespaceIri(ontology);
+        const prefixes = getPrefixMap(ontology);
+        const actions: CodeAction[] = [];
+        for (const imported of this.bundleResolver.getOntologies()) {
+            const namespace = getNamespaceIri(imported);
+            const memberIri = namespace + localName;
+            if (namespace === ownNamespace || (iri && iri !== memberIri) || !this.declaresMember(imported, memberIri, referenceType)) {
+                continue;
+            }
+            const existing = ontology.ownedImports.find(i => getImportedNamespace(i) === namespace);
+            if (existing) {
+                const qualified = existing.prefix ? `${existing.prefix}:${localName}` : `<${memberIri}>`;
+                actions.push(this.createQuickFix(`Change to '${qualified}'`, diagnostic, document, [{ range: diagnostic.range, newText: qualified }]));
+                continue;
+            }
+            const kind = getImportKind(ontology, imported);
+            if (!kind) {
+                continue;
+            }
+            const prefix = getUnusedPrefix(typedPrefix ?? imported.prefix, prefixes);
+            const qualified = `${prefix}:${localName}`;
+            actions.push(this.createQuickFix(`Import '${localName}' from <${namespace}> as ${prefix}`, diagnostic, document, [
+                this.createImportEdit(document, ontology, `${kind} <${namespace}> as ${prefix}`),
+                { range: diagnostic.range, newText: qualified }
+            ]));
+        }
+        if (actions.length === 1) {
+            actions[0].isPreferred = true;
+        }
+        return actions;
+    }
+
+    /**
+     * Rename the concept and its references, so that the fix does not break them.
+     */
+    protected capitalizeConceptName(document: LangiumDocument, diagnostic: Diagnostic): CodeAction[] {
+        const offset = document.textDocument.offsetAt(diagnostic.range.start);
+        const concept = AstUtils.streamAst(document.parseResult.value).find(n => isConcept(n) && n.$cstNode !== undefined
+            && GrammarUtils.findNodeForProperty(n.$cstNode, 'name')?.offset === offset);
+        if (!isConcept(concept) || !concept.name) {
+            return [];
+        }
+        const name = concept.name;
+        const capitalized = name.charAt(0).toUpperCase() + name.substring(1);
+        const changes: Record<string, TextEdit[]> = { [document.uri.toString()]: [{ range: diagnostic.range, newText: capitalized }] };
+        for (const reference of this.references.findReferences(concept, { includeDeclaration: false })) {
+            const source = this.langiumDocuments.getDocument(reference.sourceUri);
+            if (!source) {
+                continue;
+            }
+            // The reference may be `name`, `prefix:name` or `<iri>`, which all end with the name
+            const end = reference.segment.offset + source.textDocument.getText(reference.segment.range).lastIndexOf(name);
+            const range = { start: source.textDocument.positionAt(end), end: source.textDocument.positionAt(end + name.length) };
+            (changes[reference.sourceUri.toString()] ??= []).push({ range, newText: capitalized });
+        }
+        return [{ title: `Rename to '${capitalized}'`, kind: CodeActionKind.QuickFix, diagnostics: [diagnostic], isPreferred: true, edit: { changes } }];
+    }
+
+    protected addNamespaceSeparator(document: LangiumDocument, diagnostic: Diagnostic): CodeAction {
+        // The namespace token ends with `>`
+        const end = document.textDocument.positionAt(document.textDocument.offsetAt(diagnostic.range.end) - 1);
+        return this.createQuickFix(`Add '#' to the namespace`, diagnostic, document, [{ range: { start: end, end }, newText: '#' }]);
+    }
+
+    protected declaresMember(ontology: Ontology, iri: string, referenceType: string): boolean {
+        const uri = AstUtils.getDocument(ontology).uri.toString();
+        return this.indexManager.allElements(undefined, new Set([uri])).some(d => d.name === iri && this.reflection.isSubtype(d.type, referenceType));
+    }
+
+    /**
+     * Insert an import after the last import of the ontology, or at the start of its body.
+     */
+    protected createImportEdit(document: LangiumDocument, ontology: Ontology, text: string): TextEdit {
+        const last = ontology.ownedImports[ontology.ownedImports.length - 1];
+        const anchor = last?.$cstNode ?? GrammarUtils.findNodeForKeyword(ontology.$cstNode, '{');
+        const following = last ?? ('ownedStatements' in ontology ? ontology.ownedStatements[0] : undefined);
+        const line = following?.$cstNode ? document.textDocument.getText({ start: { line: following.$cstNode.range.start.line, character: 0 }, end: following.$cstNode.range.start }) : '';
+        const indentation = /^\s*$/.test(line) && line.length > 0 ? line : '\t';
+        const position = anchor!.range.end;
+        return { range: { start: position, end: position }, newText: `\n${indentation}${text}` };
+    }
+
+    protected createQuickFix(title: string, diagnostic: Diagnostic, document: LangiumDocument, edits: TextEdit[]): CodeAction {
+        const edit: WorkspaceEdit = { changes: { [document.uri.toString()]: edits } };
+        return { title, kind: CodeActionKind.QuickFix, diagnostics: [diagnostic], edit };
+    }
+
+}
+
+/**
+ * Split the text of a reference into the prefix, if any, and the local name, or the IRI for an
+ * `<iri>` reference (whose local name follows the last `#` or `/`).
+ */
+function parseReferenceText(refText: string): { typedPrefix?: string; localName: string; iri?: string } {
+    const text = refText.trim();
+    if (text.startsWith('<')) {
+        const iri = stripAngleBrackets(text);
+        return { localName: iri.substring(Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1), iri };
+    }
+    const colon = text.indexOf(':');
+    return colon >= 0 ? { typedPrefix: text.substring(0, colon), localName: text.substring(colon + 1) } : { localName: text.replace(/^\^/, '') };
+}
+
+/**
+ * The kind of import of an ontology whose members can be referenced, following
+ * `OmlValidator.checkImportKind`: vocabularies extend vocabularies, descriptions use
+ * vocabularies and extend descriptions. Bundles declare no members.
+ */
+function getImportKind(importing: Ontology, imported: Ontology): string | undefined {
+    if (isVocabulary(importing)) {
+        return isVocabulary(imported) ? 'extends' : undefined;
+    }
+    if (isDescription(importing)) {
+        return isVocabularyBox(imported) ? 'uses' : isDescriptionBox(imported) ? 'extends' : undefined;
+    }
+    return undefined;
+}
+
+function getUnusedPrefix(preferred: string, prefixes: Map<string, string>): string {
+    let prefix = preferred;
+    for (let i = 1; prefixes.has(prefix); i++) {
+        prefix = `${preferred}${i}`;
+    }
+    return prefix;
+}
@@ -0,0 +1,220 @@
+import { AstUtils, GrammarAST, WorkspaceCache, type AstNode, type AstNodeDescription, type FileSystemProvider, type LangiumDocument, type LangiumDocuments, type MaybePromise, type ReferenceInfo, type Stream, type URI } from 'langium';
+import { DefaultCompletionProvider, type CompletionAcceptor, type CompletionContext, type CompletionProviderOptions, type NextFeature } from 'langium/lsp';
+import { CompletionItemKind, CompletionList, InsertTextFormat, type CancellationToken, type CompletionItem, type CompletionParams } from 'vscode-languageserver';
+import { isOntology, isSpecializationAxiom, isVocabulary, isVocabularyBox, type Ontology } from './generated/ast.js';
+import type { OmlCatalog, OmlCatalogProvider } from './oml-catalog.js';
+import { isCompatibleSpecialization, isCyclicSpecialization } from './oml-hierarchy.js';
+import type { OmlServices } from './oml-module.js';
+import { getImportedNamespace, getNamespaceIri, getOntology, getPrefixMap } from './oml-utils.js';
+
+/**
+ * An ontology that can be imported: loaded in the workspace or found through the catalog.
+ */
+type KnownNamespace = { namespace: string; prefix?: string; kind: string };
+
+/**
+ * Templates of the blocks declaring the most common members, offered with the keyword that
+ * starts them (in a vocabulary, or in a description for `instance`).
+ */
+const SNIPPETS: Array<{ keyword: string; label: string; description: boolean; body: string }> = [
+    { keyword: 'concept', label: 'concept', description: false, body: 'concept ${1:Name} < ${2:SuperConcept}' },
+    { keyword: 'relation', label: 'relation entity', description: false, body: 'relation entity ${1:Name} [\n\tfrom ${2:Source}\n\tto ${3:Target}\n\tforward ${4:forward}\n\treverse ${5:reverse}\n]' },
+    { keyword: 'scalar', label: 'scalar property', description: false, body: 'scalar property ${1:name} [\n\tdomain ${2:Entity}\n\trange ${3:xsd:string}\n]' },
+    { keyword: 'instance', label: 'instance', description: true, body: 'instance ${1:name} : ${2:Type} [\n\t${3:property} ${4:value}\n]' }
+];
+
+/**
+ * Completes references the way they are usually written (bare names of the ontology's own
+ * members, `prefix:name` for imported ones and `<iri>` only once `<` is typed), the members of
+ * an imported ontology after `prefix:`, the namespaces of imports (with their prefix) and the
+ * blocks declaring common members.
+ */
+export class OmlCompletionProvider extends DefaultCompletionProvider {
+
+    protected readonly langiumDocuments: LangiumDocuments;
+    protected readonly catalogProvider: OmlCatalogProvider;
+    protected readonly fileSystemProvider: FileSystemProvider;
+    protected readonly knownNamespacesCache: WorkspaceCache<string, Promise<KnownNamespace[]>>;
+
+    override readonly completionOptions: CompletionProviderOptions = { triggerCharacters: [':', '<'] };
+
+    constructor(services: OmlServices) {
+        super(services);
+        this.langiumDocuments = services.shared.workspace.LangiumDocuments;
+        this.catalogProvider = services.shared.workspace.CatalogProvider;
+        this.fileSystemProvider = services.shared.workspace.FileSystemProvider;
+        this.knownNamespacesCache = new WorkspaceCache(services.shared);
+    }
+
+    /**
+     * After `prefix:` (which is not a complete token yet), complete the references expected
+     * where the prefix starts.
+     */
+    override async getCompletion(document: LangiumDocument, params: CompletionParams, cancelToken?: CancellationToken): Promise<CompletionList | undefined> {
+        const text = document.textDocument.getText();
+        const offset = document.textDocument.offsetAt(params.position);
+        const qualified = /(?<![\w.~%$:^<-])([\w.~%-][\w.~%$-]*):[\w.~%$-]*$/.exec(text.substring(0, offset));
+        const ontology = document.parseResult.value;
+        if (!qualified || !isOntology(ontology) || !getPrefixMap(ontology).has(qualified[1])) {
+            return super.getCompletion(document, params, cancelToken);
+        }
+        const items: CompletionItem[] = [];
+        for (const context of this.buildContexts(document, document.textDocument.positionAt(qualified.index))) {
+            // Replace the typed `prefix:name` rather than insert at its start
+            const typed = { ...context, tokenOffset: qualified.index, tokenEndOffset: offset, offset, position: params.position };
+            const acceptor: CompletionAcceptor = (ctx, value) => {
+                const item = this.fillCompletionItem(ctx, value);
+                if (item) {
+                    items.push(item);
+                }
+            };
+            for (const next of context.features.filter(f => GrammarAST.isCrossReference(f.feature))) {
+                await this.completionForCrossReference(typed, next as NextFeature<GrammarAST.CrossReference>, acceptor);
+            }
+        }
+        return CompletionList.create(this.deduplicateItems(items), true);
+    }
+
+    protected override completionForCrossReference(context: CompletionContext, next: NextFeature<GrammarAST.CrossReference>, acceptor: CompletionAcceptor): MaybePromise<void> {
+        const assignment = AstUtils.getContainerOfType(next.feature, GrammarAST.isAssignment);
+        if (assignment?.feature === 'imported') {
+            return this.completionForImport(context, acceptor);
+        }
+        return super.completionForCrossReference(context, next, acceptor);
+    }
+
+    /**
+     * Keep one textual form of each candidate, depending on what is typed, and only the terms the
+     * term of a specialization can specialize (compatible and without cycle).
+     */
+    protected override getReferenceCandidates(refInfo: ReferenceInfo, context: CompletionContext): Stream<AstNodeDescription> {
+        const typed = context.textDocument.getText().substring(context.tokenOffset, context.offset);
+        const axiom = refInfo.container;
+        const candidates = super.getReferenceCandidates(refInfo, context)
+            .filter(c => !isSpecializationAxiom(axiom) || !c.node || (isCompatibleSpecialization(axiom.$container, c.node) && !isCyclicSpecialization(axiom.$container, c.node)));
+        if (typed.startsWith('<')) {
+            return candidates.filter(c => c.name.startsWith('<'));
+        }
+        const colon = typed.indexOf(':');
+        if (colon >= 0) {
+            return candidates.filter(c => c.name.startsWith(typed.substring(0, colon + 1)));
+        }
+        const prefix = getOntology(refInfo.container)?.prefix;
+        return candidates.filter(c => !c.name.startsWith('<') && !c.name.startsWith(`${prefix}:`));
+    }
+
+    protected override async completionForKeyword(context: CompletionContext, keyword: GrammarAST.Keyword, acceptor: CompletionAcceptor): Promise<void> {
+        await super.completionForKeyword(context, keyword, acceptor);
+        // Only for the keyword starting a declaration, e.g. not `concept` in `ref concept`
+        const group: AstNode | undefined = keyword.$container;
+        if (!GrammarAST.isGroup(group) || group.elements[0] !== keyword || !group.elements.some(e => GrammarAST.isAssignment(e) && e.feature === 'name')) {
+            return;
+        }
+        const rule = AstUtils.getContainerOfType(keyword, GrammarAST.isParserRule)?.name;
+        const description = rule === 'ConceptInstance' || rule === 'RelationInstance';
+        for (const snippet of SNIPPETS.filter(s => s.keyword === keyword.value && s.description === description)) {
+            acceptor(context, {
+                label: snippet.label,
+                kind: CompletionItemKind.Snippet,
+                detail: `${snippet.label} block`,
+                insertText: snippet.body,
+                insertTextFormat: InsertTextFormat.Snippet,
+                sortText: '1'
+            });
+        }
+    }
+
+    /**
+     * Offer the namespaces of the ontologies that can be imported with the typed import kind,
+     * followed by their prefix unless the import already has one.
+     */
+    protected async completionForImport(context: CompletionContext, acceptor: CompletionAcceptor): Promise<void> {
+        const ontology = getOntology(context.node);
+        if (!ontology) {
+            return;
+        }
+        const text = context.textDocument.getText();
+        const kind = /\b(extends|uses|includes)\s*$/.exec(text.substring(0, context.tokenOffset))?.[1];
+        const hasPrefix = /^\S*\s+as\b/.test(text.substring(context.offset));
+        const imported = new Set([getNamespaceIri(ontology), ...ontology.ownedImports.map(getImportedNamespace)]);
+        for (const known of await this.getKnownNamespaces(context.document)) {
+            if (!imported.has(known.namespace) && isImportable(ontology, kind, known.kind)) {
+                acceptor(context, {
+                    label: `<${known.namespace}>`,
+                    kind: CompletionItemKind.Module,
+                    detail: known.kind,
+                    insertText: hasPrefix || !known.prefix ? `<${known.namespace}>` : `<${known.namespace}> as ${known.prefix}`,
+                    sortText: '0'
+                });
+            }
+        }
+    }
+
+    /**
+     * Return the ontologies loaded in the workspace and those declared by the `.oml` files the
+     * catalog of the document maps namespaces to. They are cached per catalog until the workspace
+     * changes, so that the catalog folders are not read again on every completion request.
+     */
+    protected async getKnownNamespaces(document: LangiumDocument): Promise<KnownNamespace[]> {
+        const catalog = await this.catalogProvider.findCatalog(document.uri);
+        return this.knownNamespacesCache.get(catalog?.uri.toString() ?? '', () => this.computeKnownNamespaces(catalog));
+    }
+
+    protected async computeKnownNamespaces(catalog: OmlCatalog | undefined): Promise<KnownNamespace[]> {
+        const known = new Map<string, KnownNamespace>();
+        for (const root of this.langiumDocuments.all.map(d => d.parseResult.value).filter(isOntology)) {
+            known.set(getNamespaceIri(root), { namespace: getNamespaceIri(root), prefix: root.prefix, kind: describeOntology(root) });
+        }
+        for (const rule of catalog?.rules ?? []) {
+            const folder = catalog!.resolveUri(rule.startString);
+            for (const file of folder ? await this.findOmlFiles(folder) : []) {
+                if (this.langiumDocuments.hasDocument(file)) {
+                    continue;
+                }
+                const header = /\b(vocabulary|description)(\s+bundle)?\s+<([^>\s]*[#/])>\s+as\s+([\w.~%$-]+)/.exec(await this.fileSystemProvider.readFile(file));
+                if (header && !known.has(header[3])) {
+                    known.set(header[3], { namespace: header[3], prefix: header[4], kind: header[2] ? `${header[1]} bundle` : header[1] });
+                }
+            }
+        }
+        return [...known.values()];
+    }
+
+    protected async findOmlFiles(folder: URI): Promise<URI[]> {
+        try {
+            const files: URI[] = [];
+            for (const entry of await this.fileSystemProvider.readDirectory(folder)) {
+                if (entry.isDirectory) {
+                    files.push(...await this.findOmlFiles(entry.uri));
+                } else if (entry.isFile && entry.uri.path.endsWith('.oml')) {
+                    files.push(entry.uri);
+                }
+            }
+            return files;
+        } catch {
+            // The catalog may rewrite to folders that do not exist (yet)
+            return [];
+        }
+    }
+
+}
+
+function describeOntology(ontology: Ontology): string {
+    return ontology.$type.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/**
+ * Whether an ontology of the given kind (`vocabulary`, `description bundle`...) can be imported
+ * with the given import kind, following `OmlValidator.checkImportKind`: `uses` imports
+ * vocabularies, the other kinds ontologies of the same kind as the importing one.
+ */
+function isImportable(importing: Ontology, kind: string | undefined, importedKind: string): boolean {
+    const vocabulary = importedKind.startsWith('vocabulary');
+    if (isVocabulary(importing)) {
+        return importedKind === 'vocabulary';
+    }
+    if (!kind) {
+        return true;
+    }
+    return kind === 'uses' ? vocabulary : vocabulary === isVocabularyBox(importing);
+}
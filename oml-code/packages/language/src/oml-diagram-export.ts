@@ -0,0 +1,171 @@
+import type { LangiumSharedServices } from 'langium/lsp';
+import type { SModelRoot } from 'sprotty-protocol';
+import type { DiagramOptions } from './oml-diagram.js';
+import { computeLaidOutSModelForUri } from './oml-diagram-layout.js';
+
+export type DiagramTheme = 'light' | 'dark';
+
+export type DiagramImageFormat = 'svg' | 'png';
+
+export type DiagramImageOptions = DiagramOptions & {
+    format: DiagramImageFormat;
+    theme?: DiagramTheme;
+    // Resolution multiplier for PNG images
+    scale?: number;
+};
+
+/**
+ * Colors of the diagram elements per theme. These mirror `getThemeColors` and `diagramClient.css`
+ * in the extension's webview so that exported images look like the diagram panel.
+ */
+export const DIAGRAM_THEME_COLORS: Record<DiagramTheme, {
+    background: string;
+    nodeFill: string;
+    nodeStroke: string;
+    label: string;
+    divider: string;
+    relation: string;
+    specialization: string;
+}> = {
+    dark: {
+        background: '#1e1e1e',
+        nodeFill: '#1e1e1e',
+        nodeStroke: '#007acc',
+        label: '#ce9178',
+        divider: '#888',
+        relation: '#64b5f6',
+        specialization: '#b39ddb'
+    },
+    light: {
+        background: '#ffffff',
+        nodeFill: '#ffffff',
+        nodeStroke: '#0066cc',
+        label: '#ce9178',
+        divider: '#888',
+        relation: '#1e88e5',
+        specialization: '#8e24aa'
+    }
+};
+
+const PADDING = 20;
+const LINE_HEIGHT = 16;
+const FONT = `font-family="Consolas, Monaco, 'Courier New', monospace" font-size="13" font-weight="500"`;
+
+type Point = { x: number; y: number };
+type Element = {
+    id: string;
+    type: string;
+    kind?: string;
+    text?: string;
+    splitIndex?: number;
+    cssClasses?: string[];
+    hasMarker?: boolean;
+    position?: Point;
+    size?: { width: number; height: number };
+    routingPoints?: Point[];
+    children?: Element[];
+};
+
+/**
+ * Compute the diagram of the OML document at the given URI, lay it out, and render it as an
+ * SVG or PNG image.
+ */
+export async function renderDiagramImage(shared: LangiumSharedServices, uri: string, options: DiagramImageOptions): Promise<Uint8Array> {
+    const root = await computeLaidOutSModelForUri(shared, uri, options);
+    const svg = renderDiagramSvg(root, options.theme);
+    return options.format === 'png' ? renderDiagramPng(svg, options.scale) : new TextEncoder().encode(svg);
+}
+
+/**
+ * Render a laid-out diagram (see `computeLaidOutSModelForUri`) as a standalone SVG document,
+ * drawing nodes, compartments, edges, markers and labels the way the diagram panel does.
+ */
+export function renderDiagramSvg(root: SModelRoot, theme: DiagramTheme = 'light'): string {
+    const colors = DIAGRAM_THEME_COLORS[theme];
+    const elements = (root.children ?? []) as Element[];
+    const nodes = elements.filter(e => e.type.startsWith('node'));
+    const edges = elements.filter(e => e.type === 'edge');
+
+    // Bounds of everything that is drawn
+    const points: Point[] = [];
+    for (const n of nodes) {
+        const { x, y } = n.position ?? { x: 0, y: 0 };
+        points.push({ x, y }, { x: x + (n.size?.width ?? 0), y: y + (n.size?.height ?? 0) });
+    }
+    for (const e of edges) {
+        points.push(...(e.routingPoints ?? []));
+        points.push(...(e.children ?? []).flatMap(l => l.position ? [l.position] : []));
+    }
+    const minX = Math.min(0, ...points.map(p => p.x)) - PADDING;
+    const minY = Math.min(0, ...points.map(p => p.y)) - PADDING;
+    const width = Math.ceil(Math.max(0, ...points.map(p => p.x)) - minX + PADDING);
+    const height = Math.ceil(Math.max(0, ...points.map(p => p.y)) - minY + PADDING);
+
+    const out: string[] = [];
+    out.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}">`);
+    out.push('<defs>');
+    out.push(`<marker id="oml-open-arrow" viewBox="0 0 14 12" refX="12" refY="6" markerUnits="userSpaceOnUse" markerWidth="16" markerHeight="16" orient="auto">`
+        + `<path d="M0,0 L12,6 L0,12" fill="none" stroke="${colors.relation}" stroke-width="1.5" stroke-linejoin="round" stroke-linecap="round"/></marker>`);
+    out.push(`<marker id="oml-closed-triangle" viewBox="-2 0 14 12" refX="12" refY="6" markerUnits="userSpaceOnUse" markerWidth="16" markerHeight="16" orient="auto" overflow="visible">`
+        + `<path d="M0,0 L10,5 L0,10 Z" fill="${colors.background}" stroke="${colors.specialization}" stroke-width="1.5" stroke-linejoin="miter"/></marker>`);
+    out.push('</defs>');
+    out.push(`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${colors.background}"/>`);
+
+    for (const n of nodes) {
+        const { x, y } = n.position ?? { x: 0, y: 0 };
+        const w = n.size?.width ?? 0;
+        const h = n.size?.height ?? 0;
+        const dashed = n.cssClasses?.includes('oml-external') ? ' stroke-dasharray="6 4" stroke-opacity="0.7"' : '';
+        out.push(`<g transform="translate(${x},${y})">`);
+        out.push(`<rect width="${w}" height="${h}" rx="6" ry="6" fill="${colors.nodeFill}" stroke="${colors.nodeStroke}" stroke-width="2"${dashed}/>`);
+        for (const label of n.children ?? []) {
+            out.push(renderLabel(label, colors, w - 12));
+        }
+        out.push('</g>');
+    }
+
+    for (const e of edges) {
+        const stroke = e.kind === 'specialization' ? colors.specialization : colors.relation;
+        const marker = e.kind === 'specialization' ? 'oml-closed-triangle' : e.hasMarker !== false ? 'oml-open-arrow' : undefined;
+        const routingPoints = (e.routingPoints ?? []).map(p => `${p.x},${p.y}`).join(' ');
+        out.push(`<polyline points="${routingPoints}" fill="none" stroke="${stroke}" stroke-width="1.5" stroke-opacity="0.8"${marker ? ` marker-end="url(#${marker})"` : ''}/>`);
+        for (const label of e.children ?? []) {
+            out.push(renderLabel(label, colors));
+        }
+    }
+
+    out.push('</svg>');
+    return out.join('\n') + '\n';
+}
+
+/**
+ * Render a (multiline) label centered on its position, with a divider below the header lines
+ * when the label has a split index (the scalar properties or literal values of a node).
+ */
+function renderLabel(label: Element, colors: typeof DIAGRAM_THEME_COLORS[DiagramTheme], dividerWidth?: number): string {
+    const { x, y } = label.position ?? { x: 0, y: 0 };
+    const lines = (label.text ?? '').split('\n');
+    const startDy = -(LINE_HEIGHT * (lines.length - 1)) / 2;
+    const tspans = lines.map((line, i) => `<tspan x="${x}" dy="${i === 0 ? startDy : LINE_HEIGHT}">${escapeXml(line)}</tspan>`).join('');
+    const text = `<text x="${x}" y="${y}" text-anchor="middle" dominant-baseline="middle" fill="${colors.label}" ${FONT}>${tspans}</text>`;
+    const splitIndex = label.splitIndex ?? 0;
+    if (dividerWidth === undefined || splitIndex <= 0 || splitIndex >= lines.length) {
+        return text;
+    }
+    const dividerY = y + startDy + (splitIndex - 1) * LINE_HEIGHT + LINE_HEIGHT / 2;
+    return `<line x1="${x - dividerWidth / 2}" y1="${dividerY}" x2="${x + dividerWidth / 2}" y2="${dividerY}" stroke="${colors.divider}" stroke-width="1"/>\n${text}`;
+}
+
+/**
+ * Rasterize an SVG document to PNG. The rasterizer is a native module, so it is only loaded
+ * when a PNG is requested.
+ */
+export async function renderDiagramPng(svg: string, scale = 2): Promise<Uint8Array> {
+    const { Resvg } = await import('@resvg/resvg-js');
+    const resvg = new Resvg(svg, { fitTo: { mode: 'zoom', value: scale }, font: { loadSystemFonts: true } });
+    return resvg.render().asPng();
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
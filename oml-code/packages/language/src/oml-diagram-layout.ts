@@ -4,13 +4,14 @@ import { URI } from 'langium';
 import { DefaultLayoutConfigurator } from 'sprotty-elk/lib/elk-layout.js';
 import { ElkLayoutEngine } from 'sprotty-elk/lib/elk-layout.js';
 import type { ElkFactory } from 'sprotty-elk/lib/elk-layout.js';
-import { computeDiagramModel, type DiagramModel, isVocabulary, isScalarProperty, isConcept, type Vocabulary, type ScalarProperty as AstScalarProperty } from 'oml-language';
+import ElkModule from 'elkjs/lib/elk.bundled.js';
+import { computeDiagramModel, type DiagramModel, type DiagramOptions } from './oml-diagram.js';
+import { isVocabulary, isScalarProperty, isConcept, type Vocabulary, type ScalarProperty as AstScalarProperty } from './generated/ast.js';
+import { getMemberIri } from './oml-utils.js';
 
-// Prepare an Elk factory usable in the CJS-bundled extension host.
+// Prepare an Elk factory usable both in the CJS-bundled extension host and in Node ESM (CLI).
 const elkFactory: ElkFactory = () => {
-  // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const ElkModule = require('elkjs/lib/elk.bundled.js');
-  const ElkCtor: any = ElkModule.default ?? ElkModule;
+  const ElkCtor: any = (ElkModule as any).default ?? ElkModule;
   return new ElkCtor({ algorithms: ['layered'] });
 };
 
@@ -48,7 +49,7 @@ class OmlLayoutConfigurator extends DefaultLayoutConfigurator {
 
 const layoutEngine = new ElkLayoutEngine(elkFactory, undefined as any, new OmlLayoutConfigurator());
 
-// Build a map of concept name -> scalar property display lines (declared with that concept in their domain)
+// Build a map of concept IRI -> scalar property display lines (declared with that concept in their domain)
 async function computeConceptScalarProps(shared: LangiumSharedServices, uri: string): Promise<Map<string, string[]>> {
   const map = new Map<string, string[]>();
   const docs = shared.workspace.LangiumDocuments;
@@ -81,10 +82,11 @@ async function computeConceptScalarProps(shared: LangiumSharedServices, uri: str
       const domains: any[] = (sp as any).domains ?? [];
       for (const d of domains) {
         const ent = d?.ref;
-        if (ent && isConcept(ent) && ent.name) {
-          const arr = map.get(ent.name) ?? [];
+        const entIri = ent && isConcept(ent) ? getMemberIri(ent) : undefined;
+        if (entIri) {
+          const arr = map.get(entIri) ?? [];
           if (!arr.includes(line)) arr.push(line);
-          map.set(ent.name, arr);
+          map.set(entIri, arr);
         }
       }
     }
@@ -113,8 +115,9 @@ function diagramToSprotty(model: DiagramModel, conceptProps?: Map<string, string
           ? `A: ${baseHeader}`
           : baseHeader;
 
-      // For concept nodes, append scalar properties (with ranges) below a divider.
-      const props = n.kind === 'concept' ? (conceptProps?.get(n.id) ?? []) : [];
+      // For concept nodes, append scalar properties (with ranges) below a divider;
+      // instance nodes carry their literal property values as compartments.
+      const props = n.kind === 'concept' ? (conceptProps?.get(n.id) ?? []) : (n.compartments ?? []);
       const hasProps = props.length > 0;
       const lines: string[] = hasProps ? [header, ...props] : [header];
 
@@ -131,6 +134,12 @@ function diagramToSprotty(model: DiagramModel, conceptProps?: Map<string, string
             'org.eclipse.elk.portConstraints': 'FREE'
           },
           kind: n.kind,
+          // External nodes (members of other ontologies) are drawn with a dashed border;
+          // the namespace lets the webview ask for their ontology to be expanded inline.
+          cssClasses: n.external ? ['oml-external'] : undefined,
+          namespace: n.namespace,
+          iri: n.iri,
+          location: n.location,
           children: [
             {
               id: `${n.id}_label`,
@@ -179,6 +188,8 @@ function diagramToSprotty(model: DiagramModel, conceptProps?: Map<string, string
       type: 'edge',
       kind: e.kind,
       hasMarker: e.hasMarker,
+      iri: e.iri,
+      location: e.location,
       sourceId: e.source,
       targetId: e.target,
       layoutOptions: isSpec
@@ -219,8 +230,8 @@ function diagramToSprotty(model: DiagramModel, conceptProps?: Map<string, string
   } as unknown as SModelRoot;
 }
 
-export async function computeLaidOutSModelForUri(shared: LangiumSharedServices, uri: string): Promise<SModelRoot> {
-  const diagram = await computeDiagramModel(shared, uri);
+export async function computeLaidOutSModelForUri(shared: LangiumSharedServices, uri: string, options?: DiagramOptions): Promise<SModelRoot> {
+  const diagram = await computeDiagramModel(shared, uri, options);
   const conceptProps = await computeConceptScalarProps(shared, uri);
   const root = diagramToSprotty(diagram, conceptProps);
   const laidOut = await layoutEngine.layout(root as any);
@@ -0,0 +1,101 @@
+import type { SModelElement, SModelRoot } from 'sprotty-protocol';
+import type { DiagramLocation } from './oml-diagram.js';
+
+// This module is also bundled into the diagram webview, so it must only import types
+
+export type DiagramPosition = DiagramLocation['range']['start'];
+
+/**
+ * The messages the diagram webview sends to the extension: to get the laid-out model, to open
+ * the declaration of an element, and to expand (or collapse) an imported ontology inline.
+ */
+export type DiagramViewMessage =
+    | { type: 'requestModel' }
+    | { type: 'navigate'; location: DiagramLocation }
+    | { type: 'toggleImport'; namespace: string };
+
+/**
+ * The messages the extension sends to the diagram webview: the laid-out model, and the cursor
+ * position of the editor to select the element declared there.
+ */
+export type DiagramHostMessage =
+    | { type: 'updateModel'; model: SModelRoot; _timings?: { serverMs: number; error?: boolean } }
+    | { type: 'selectAt'; uri: string; position: DiagramPosition };
+
+/**
+ * What the laid-out nodes and edges carry besides their Sprotty properties: the IRI of the
+ * member, the namespace of the declaring ontology for members of other ontologies, and the
+ * location of the declaration.
+ */
+export type DiagramElementData = { iri?: string; namespace?: string; location?: DiagramLocation };
+
+/**
+ * How the extension reacts to each message of the diagram webview.
+ */
+export type DiagramViewMessageHandler = {
+    requestModel(): Promise<void>;
+    navigate(location: DiagramLocation): Promise<void>;
+    toggleImport(namespace: string): Promise<void>;
+};
+
+/**
+ * Return the data of the nodes and edges of a laid-out model, by element id.
+ */
+export function getDiagramElements(root: SModelRoot): Map<string, DiagramElementData> {
+    const elements = new Map<string, DiagramElementData>();
+    for (const child of root.children ?? []) {
+        const { iri, namespace, location } = child as SModelElement & DiagramElementData;
+        elements.set(child.id, { iri, namespace, location });
+    }
+    return elements;
+}
+
+/**
+ * Return the id of the innermost element declared at the given position of a document.
+ */
+export function findDiagramElementAt(elements: Map<string, DiagramElementData>, uri: string, position: DiagramPosition): string | undefined {
+    let best: { id: string; range: DiagramLocation['range'] } | undefined;
+    for (const [id, { location }] of elements) {
+        if (!location || location.uri !== uri || comparePositions(location.range.start, position) > 0 || comparePositions(position, location.range.end) > 0) {
+            continue;
+        }
+        if (!best || (comparePositions(location.range.start, best.range.start) >= 0 && comparePositions(location.range.end, best.range.end) <= 0)) {
+            best = { id, range: location.range };
+        }
+    }
+    return best?.id;
+}
+
+/**
+ * Return the message for a double-click on an element: expanding its ontology inline when asked
+ * for a member of another ontology, opening its declaration otherwise.
+ */
+export function getDiagramElementMessage(element: DiagramElementData | undefined, expand: boolean): DiagramViewMessage | undefined {
+    if (expand && element?.namespace) {
+        return { type: 'toggleImport', namespace: element.namespace };
+    }
+    return element?.location ? { type: 'navigate', location: element.location } : undefined;
+}
+
+/**
+ * Pass a message received from the diagram webview to the handler, ignoring malformed messages.
+ */
+export async function handleDiagramViewMessage(message: unknown, handler: DiagramViewMessageHandler): Promise<void> {
+    const received = message as Partial<Record<string, unknown>> | undefined;
+    if (received?.type === 'requestModel') {
+        await handler.requestModel();
+    } else if (received?.type === 'navigate' && isLocation(received.location)) {
+        await handler.navigate(received.location);
+    } else if (received?.type === 'toggleImport' && typeof received.namespace === 'string') {
+        await handler.toggleImport(received.namespace);
+    }
+}
+
+function isLocation(value: unknown): value is DiagramLocation {
+    const location = value as Partial<DiagramLocation> | undefined;
+    return typeof location?.uri === 'string' && typeof location.range?.start?.line === 'number' && typeof location.range.end?.line === 'number';
+}
+
+function comparePositions(a: DiagramPosition, b: DiagramPosition): number {
+    return a.line - b.line || a.character - b.character;
+}
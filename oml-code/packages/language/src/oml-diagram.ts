@@ -1,29 +1,57 @@
-import { URI } from 'langium';
+import { AstUtils, URI } from 'langium';
 import type { LangiumSharedServices } from 'langium/lsp';
+import type { AstNode, CstNode, Reference } from 'langium';
 import {
     isVocabulary,
+    isVocabularyBundle,
+    isDescription,
+    isDescriptionBundle,
+    isConceptInstance,
+    isRelationInstance,
+    isQuotedLiteral,
     isConcept,
     isAspect,
     isRelationEntity,
     isUnreifiedRelation,
     isPropertyCardinalityRestrictionAxiom,
     type Vocabulary as AstVocabulary,
-    type Entity as AstEntity,
-    type RelationEntity as AstRelationEntity,
-    type UnreifiedRelation as AstUnreifiedRelation,
     type SemanticProperty as AstSemanticProperty,
     type PropertyRestrictionAxiom as AstPropertyRestrictionAxiom,
-    type SpecializationAxiom as AstSpecializationAxiom
+    type Description as AstDescription,
+    type DescriptionBox as AstDescriptionBox,
+    type NamedInstance as AstNamedInstance,
+    type Literal as AstLiteral,
+    type Ontology as AstOntology
 } from './generated/ast.js';
+import { getImportClosure } from './oml-hierarchy.js';
+import { getDeclaredIri, getImportedNamespace, getMemberIri, getNamespaceIri, getOntology, getReferenceIri } from './oml-utils.js';
+
+/**
+ * Where a diagram element is declared: the document and the range of the declaring node.
+ */
+export type DiagramLocation = { uri: string; range: CstNode['range'] };
 
 export type DiagramNode = {
+    // The IRI of the represented member (or the reference text when it cannot be resolved)
     id: string;
+    iri: string;
     label: string;
-    kind: 'concept' | 'aspect' | 'relation-entity' | 'relation'; // 'relation-entity' is a node, 'relation' is just for edges
+    kind: 'concept' | 'aspect' | 'relation-entity' | 'relation' | 'concept-instance' | 'relation-instance'; // 'relation-entity' is a node, 'relation' is just for edges
+    // Extra lines shown below the label (e.g. the literal property values of an instance)
+    compartments?: string[];
+    // Set for members of other ontologies that are shown for context only (not expanded inline)
+    external?: boolean;
+    // The namespace IRI of the declaring ontology, for members of other ontologies
+    namespace?: string;
+    // Unset for unresolved references
+    location?: DiagramLocation;
 };
 
 export type DiagramEdge = {
+    // See `edgeId`
     id: string;
+    // The IRI of the relation or property the edge stands for; for specializations, of the specializing term
+    iri: string;
     source: string;
     target: string;
     kind: 'specialization' | 'relation';
@@ -32,10 +60,102 @@ export type DiagramEdge = {
     labelTail?: string;
     labelHead?: string;
     hasMarker?: boolean; // false means no marker, true means relation arrow (for relation entity edges)
+    location?: DiagramLocation;
 };
 
 export type DiagramModel = { nodes: DiagramNode[]; edges: DiagramEdge[] };
 
+export type DiagramOptions = {
+    // Namespace IRIs of imported ontologies whose members are rendered inline rather than as external nodes
+    expandedImports?: string[];
+};
+
+/**
+ * Edge ids are `source|predicate|target` triples of IRIs, so that parallel relations between the
+ * same nodes get distinct ids. The predicate is the IRI of the relation or property, or a keyword
+ * (`specializes`, `from`, `to`) for the other edges. The separator, `%` and whitespace (which is
+ * not allowed in DOM ids) are percent-encoded in the parts.
+ */
+function edgeId(source: string, predicate: string, target: string): string {
+    return [source, predicate, target].map(part => part.replace(/[%|\s]/g, encodeURIComponent)).join('|');
+}
+
+function locationOf(node: AstNode | undefined, cstNode: CstNode | undefined = node?.$cstNode): DiagramLocation | undefined {
+    return node && cstNode ? { uri: AstUtils.getDocument(node).uri.toString(), range: cstNode.range } : undefined;
+}
+
+/**
+ * The id of the node a reference points to: the IRI of its target, falling back to the
+ * reference text for references that cannot be expanded.
+ */
+function referenceId(reference: Reference, context: AstNode): string {
+    return getReferenceIri(reference, context) ?? reference.$refText;
+}
+
+/**
+ * Collects the edges of a diagram, dropping repeated edges (same id).
+ */
+class EdgeCollector {
+    readonly edges: DiagramEdge[] = [];
+    private readonly ids = new Set<string>();
+
+    push(edge: DiagramEdge): void {
+        if (!this.ids.has(edge.id)) {
+            this.ids.add(edge.id);
+            this.edges.push(edge);
+        }
+    }
+}
+
+/**
+ * The name of a member as seen from the given ontology: its bare name when declared there,
+ * otherwise prefixed with the import prefix (or the declaring ontology's own prefix).
+ */
+function qualifiedName(member: AstNode, context: AstOntology): string {
+    const name = (member as { name?: string }).name ?? '';
+    const ontology = getOntology(member);
+    if (!ontology || ontology === context) {
+        return name;
+    }
+    const namespace = getNamespaceIri(ontology);
+    const prefix = context.ownedImports.find(i => getImportedNamespace(i) === namespace)?.prefix ?? ontology.prefix;
+    return prefix ? `${prefix}:${name}` : name;
+}
+
+/**
+ * The namespace of the member a reference points to, from its target when resolved and from
+ * its text otherwise.
+ */
+function referenceNamespace(reference: Reference, context: AstOntology): string | undefined {
+    const ontology = getOntology(reference.ref);
+    if (ontology) {
+        return getNamespaceIri(ontology);
+    }
+    const text = reference.$refText ?? '';
+    if (text.startsWith('<')) {
+        const iri = text.substring(1, text.length - 1);
+        return iri.substring(0, Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1);
+    }
+    const colon = text.indexOf(':');
+    const imp = colon >= 0 ? context.ownedImports.find(i => i.prefix === text.substring(0, colon)) : undefined;
+    return imp ? getImportedNamespace(imp) : undefined;
+}
+
+/**
+ * The directly imported ontologies of the given kind that the options ask to expand inline.
+ */
+function expandedImports<T extends AstOntology>(ontology: AstOntology, options: DiagramOptions | undefined, guard: (o: unknown) => o is T): T[] {
+    const expanded = new Set(options?.expandedImports ?? []);
+    const result: T[] = [];
+    for (const imp of ontology.ownedImports) {
+        const imported = imp.imported?.ref;
+        if (guard(imported) && expanded.has(getNamespaceIri(imported)) && !result.includes(imported)) {
+            result.push(imported);
+        }
+    }
+    return result;
+}
+
 function formatCardinality(kind: 'exactly' | 'min' | 'max', value: number): string {
     if (kind === 'exactly') {
         return `[${value}]`;
@@ -48,20 +168,27 @@ function formatCardinality(kind: 'exactly' | 'min' | 'max', value: number): stri
 }
 
 /**
- * Build a lookup from (owning entity, relation name) to explicit cardinality text.
+ * The key of the cardinality of a relation from an entity, both given by IRI.
+ */
+function cardinalityKey(entityIri: string, relationIri: string): string {
+    return `${entityIri} ${relationIri}`;
+}
+
+/**
+ * Build a lookup from (owning entity IRI, relation IRI) to explicit cardinality text.
  */
 function computeCardinalityMap(vocab: AstVocabulary): Map<string, string> {
     const map = new Map<string, string>();
 
-    const push = (entity: AstEntity | undefined, prop: AstSemanticProperty | undefined, kind: 'exactly' | 'min' | 'max', card: number) => {
-        if (!entity || !entity.name || !prop) return;
+    const push = (entity: AstNode, prop: AstSemanticProperty | undefined, kind: 'exactly' | 'min' | 'max', card: number) => {
+        const entityIri = getDeclaredIri(entity);
+        if (!entityIri || !prop) return;
 
-        if ('forwardRelation' in prop || 'reverseRelation' in prop) {
-            const rel = prop as AstRelationEntity | AstUnreifiedRelation;
-            const relName = rel.name;
-            if (!relName) return;
+        if (isRelationEntity(prop) || isUnreifiedRelation(prop)) {
+            const relIri = getDeclaredIri(prop);
+            if (!relIri) return;
 
-            const key = `${entity.name}::${relName}`;
+            const key = cardinalityKey(entityIri, relIri);
             if (!map.has(key)) {
                 map.set(key, formatCardinality(kind, card));
             }
@@ -72,15 +199,14 @@ function computeCardinalityMap(vocab: AstVocabulary): Map<string, string> {
     };
 
     for (const stmt of vocab.ownedStatements ?? []) {
-        const container = stmt as any as AstEntity | AstRelationEntity;
-        const restrictions: AstPropertyRestrictionAxiom[] = (container as any).ownedPropertyRestrictions ?? [];
+        const restrictions: AstPropertyRestrictionAxiom[] = (stmt as any).ownedPropertyRestrictions ?? [];
         for (const r of restrictions) {
             if (!isPropertyCardinalityRestrictionAxiom(r)) continue;
             const prop = r.property?.ref as AstSemanticProperty | undefined;
             const kind = r.kind;
             const card = r.cardinality as number;
             if (kind === 'exactly' || kind === 'min' || kind === 'max') {
-                push(container as any, prop, kind, card);
+                push(stmt, prop, kind, card);
             }
         }
 
@@ -88,21 +214,17 @@ function computeCardinalityMap(vocab: AstVocabulary): Map<string, string> {
         // entity, fall back to [0..1] when it is declared functional. We treat this as
         // a shorthand default so that functional relations still display a useful
         // cardinality even without an explicit `restricts` axiom.
-        if (isRelationEntity(container) || isUnreifiedRelation(container)) {
-            const rel = container as AstRelationEntity | AstUnreifiedRelation;
-            const relName = rel.name;
-            if (!relName) continue;
+        if (isRelationEntity(stmt) || isUnreifiedRelation(stmt)) {
+            const relIri = getDeclaredIri(stmt);
+            if (!relIri || !stmt.functional) continue;
 
             // Find all entities that this relation uses as a source; for each such
-            // entity, if there is no explicit cardinality mapping yet and the
-            // relation is functional, mark it as [0..1].
-            const srcs: any[] = (rel as any).sources ?? [];
-            for (const s of srcs) {
-                const ent = s?.ref as AstEntity | undefined;
-                const entName = ent?.name;
-                if (!entName) continue;
-                const key = `${entName}::${relName}`;
-                if (!map.has(key) && (rel as any).functional) {
+            // entity, if there is no explicit cardinality mapping yet, mark it as [0..1].
+            for (const s of stmt.sources) {
+                const entIri = getReferenceIri(s, stmt);
+                if (!entIri) continue;
+                const key = cardinalityKey(entIri, relIri);
+                if (!map.has(key)) {
                     map.set(key, '[0..1]');
                 }
             }
@@ -113,86 +235,231 @@ function computeCardinalityMap(vocab: AstVocabulary): Map<string, string> {
 }
 
 /**
- * Build a lookup from a relation name to the list of its direct super-relations
- * (by name) based on specialization axioms. This is used purely for display in
- * relation labels as `{subsets parent}` lines.
+ * Build a lookup from the IRI of a relation to the names of its direct super-relations based on
+ * specialization axioms. This is used purely for display in relation labels as
+ * `{subsets parent}` lines.
  */
 function computeRelationSubsets(vocab: AstVocabulary): Map<string, string[]> {
     const map = new Map<string, string[]>();
 
-    const record = (subName: string | undefined, specs: AstSpecializationAxiom[] | undefined) => {
-        if (!subName || !specs) return;
-        for (const s of specs) {
-            const sup = s.superTerm?.ref as any;
-            const supName: string | undefined = sup?.name;
+    for (const stmt of vocab.ownedStatements ?? []) {
+        if (!isRelationEntity(stmt) && !isUnreifiedRelation(stmt)) continue;
+        const subIri = getDeclaredIri(stmt);
+        if (!subIri) continue;
+        for (const s of stmt.ownedSpecializations) {
+            const supName: string | undefined = (s.superTerm?.ref as any)?.name;
             if (!supName) continue;
-            const arr = map.get(subName) ?? [];
+            const arr = map.get(subIri) ?? [];
             if (!arr.includes(supName)) arr.push(supName);
-            map.set(subName, arr);
+            map.set(subIri, arr);
         }
+    }
+
+    return map;
+}
+
+const MAX_LITERAL_LENGTH = 40;
+
+function formatLiteral(literal: AstLiteral): string {
+    if (isQuotedLiteral(literal)) {
+        const text = literal.value.length > MAX_LITERAL_LENGTH
+            ? `${literal.value.substring(0, MAX_LITERAL_LENGTH - 1)}…`
+            : literal.value;
+        return `"${text}"`;
+    }
+    return String(literal.value);
+}
+
+/**
+ * The display name of a reference: the name of its target when resolved, otherwise the
+ * local part of the reference text (so references into unloaded ontologies stay readable).
+ */
+function referenceName(reference: Reference | undefined): string {
+    const name = (reference?.ref as { name?: string } | undefined)?.name;
+    return name ?? (reference?.$refText ?? '').replace(/^<|>$/g, '').replace(/^.*[:#/]/, '');
+}
+
+function instanceLabel(instance: AstNamedInstance, name: string): string {
+    const types = instance.ownedTypes.map(t => referenceName(t.type)).filter(t => t);
+    return types.length > 0 ? `${name} : ${types.join(', ')}` : name;
+}
+
+/**
+ * Compute the diagram of a description:
+ * - Nodes: ConceptInstances and RelationInstances (labeled `name : Type`), with their literal
+ *   property values as compartments, plus the instances of other descriptions they reference
+ *   (as external nodes, unless their description is expanded inline)
+ * - Edges: from/to edges of relation instances and labeled edges for referenced property values
+ * The instances of the given descriptions are rendered; names are qualified as seen from `description`.
+ */
+function computeDescriptionDiagram(description: AstDescriptionBox, descriptions: AstDescription[]): DiagramModel {
+    const nodes: DiagramNode[] = [];
+    const edges = new EdgeCollector();
+    const nodeIds = new Map<AstNamedInstance, string>();
+
+    for (const d of descriptions) {
+        const namespace = d === description ? undefined : getNamespaceIri(d);
+        for (const stmt of d.ownedStatements ?? []) {
+            const iri = getMemberIri(stmt);
+            if ((isConceptInstance(stmt) || isRelationInstance(stmt)) && iri) {
+                nodeIds.set(stmt, iri);
+                const compartments = stmt.ownedPropertyValues.flatMap(pv =>
+                    pv.literalValues.map(l => `${referenceName(pv.property)} = ${formatLiteral(l)}`));
+                nodes.push({
+                    id: iri,
+                    iri,
+                    label: instanceLabel(stmt, qualifiedName(stmt, description)),
+                    location: locationOf(stmt),
+                    kind: isConceptInstance(stmt) ? 'concept-instance' : 'relation-instance',
+                    ...(compartments.length > 0 ? { compartments } : {}),
+                    ...(namespace ? { namespace } : {})
+                });
+            }
+        }
+    }
+
+    // Instances declared elsewhere get an external node the first time they are referenced
+    const nodeOf = (reference: Reference<AstNamedInstance>): string | undefined => {
+        const target = reference.ref;
+        const local = target && nodeIds.get(target);
+        if (local) return local;
+        const id = referenceId(reference, description);
+        if (!id) return undefined;
+        if (!nodes.some(n => n.id === id)) {
+            const namespace = referenceNamespace(reference, description);
+            const label = target ? qualifiedName(target, description) : reference.$refText;
+            nodes.push({
+                id,
+                iri: id,
+                label: target ? instanceLabel(target, label) : label,
+                kind: isRelationInstance(target) ? 'relation-instance' : 'concept-instance',
+                external: true,
+                ...(namespace ? { namespace } : {}),
+                location: locationOf(target)
+            });
+        }
+        return id;
     };
 
-    for (const stmt of vocab.ownedStatements ?? []) {
-        if (isRelationEntity(stmt)) {
-            record(stmt.name, (stmt as any).ownedSpecializations as AstSpecializationAxiom[] | undefined);
-        } else if (isUnreifiedRelation(stmt)) {
-            record(stmt.name, (stmt as any).ownedSpecializations as AstSpecializationAxiom[] | undefined);
+    for (const [instance, id] of [...nodeIds]) {
+        if (isRelationInstance(instance)) {
+            // Same shape as relation entities: source -> node (no marker), node -> target (arrow)
+            for (const s of instance.sources) {
+                const source = nodeOf(s);
+                if (source) edges.push({ id: edgeId(source, 'from', id), iri: id, source, target: id, kind: 'relation', hasMarker: false, location: locationOf(instance, s.$refNode) });
+            }
+            for (const t of instance.targets) {
+                const target = nodeOf(t);
+                if (target) edges.push({ id: edgeId(id, 'to', target), iri: id, source: id, target, kind: 'relation', hasMarker: true, location: locationOf(instance, t.$refNode) });
+            }
+        }
+        for (const pv of instance.ownedPropertyValues) {
+            const label = referenceName(pv.property);
+            const property = referenceId(pv.property, pv);
+            for (const v of pv.referencedValues) {
+                const target = nodeOf(v);
+                if (target) edges.push({ id: edgeId(id, property, target), iri: property, source: id, target, kind: 'relation', hasMarker: true, label, location: locationOf(pv) });
+            }
         }
     }
 
-    return map;
+    return { nodes, edges: edges.edges };
 }
 
 /**
  * Compute a simple diagram model for the OML document at the given URI.
- * - Nodes: Concepts, Aspects, RelationEntities and UnreifiedRelations (as relation nodes)
- * - Edges: Specialization (child -> super) and relation (source -> target) edges
+ * - Vocabularies: Concepts, Aspects and RelationEntities as nodes, with specialization
+ *   (child -> super) and relation (source -> target) edges
+ * - Descriptions: see `computeDescriptionDiagram`
+ * - Bundles: the diagram of the vocabularies (or descriptions) of their import closure
  */
-export async function computeDiagramModel(shared: LangiumSharedServices, uri: string): Promise<DiagramModel> {
+export async function computeDiagramModel(shared: LangiumSharedServices, uri: string, options?: DiagramOptions): Promise<DiagramModel> {
     const langiumDocs = shared.workspace.LangiumDocuments;
     const document = await langiumDocs.getOrCreateDocument(URI.parse(uri));
     // Ensure the document is built/linked
     await shared.workspace.DocumentBuilder.build([document], { validation: false });
 
     const root: any = document.parseResult.value;
+    if (isDescription(root)) {
+        // Imported descriptions expanded inline contribute their instances as regular nodes
+        return computeDescriptionDiagram(root, [root, ...expandedImports(root, options, isDescription)]);
+    }
+    if (isDescriptionBundle(root)) {
+        return computeDescriptionDiagram(root, getImportClosure(root).filter(isDescription));
+    }
+
     const nodes: DiagramNode[] = [];
-    const edges: DiagramEdge[] = [];
-
-    if (isVocabulary(root)) {
-        const vocab = root as AstVocabulary;
-        const cardinalities = computeCardinalityMap(vocab);
-        const subsetOf = computeRelationSubsets(vocab);
-
-        const termByName = new Map<string, any>();
-        for (const stmt of vocab.ownedStatements ?? []) {
-            if (isConcept(stmt) && stmt.name) {
-                termByName.set(stmt.name, stmt);
-                nodes.push({ id: stmt.name, label: stmt.name, kind: 'concept' });
-            } else if (isAspect(stmt) && stmt.name) {
-                termByName.set(stmt.name, stmt);
-                nodes.push({ id: stmt.name, label: stmt.name, kind: 'aspect' });
-            } else if (isRelationEntity(stmt) && stmt.name) {
-                termByName.set(stmt.name, stmt);
-                nodes.push({ id: stmt.name, label: stmt.name, kind: 'relation-entity' });
-            } else if (isUnreifiedRelation(stmt) && stmt.name) {
-                termByName.set(stmt.name, stmt);
-                // UnreifiedRelation does NOT create a node, only edges
+    const edges = new EdgeCollector();
+
+    if (isVocabulary(root) || isVocabularyBundle(root)) {
+        const vocab: AstOntology = root;
+        // Imported vocabularies expanded inline contribute their terms as regular nodes
+        const vocabularies = isVocabulary(root) ? [root, ...expandedImports(root, options, isVocabulary)] : getImportClosure(root).filter(isVocabulary);
+        const cardinalities = new Map(vocabularies.flatMap(v => [...computeCardinalityMap(v)]));
+        const subsetOf = new Map(vocabularies.flatMap(v => [...computeRelationSubsets(v)]));
+
+        // Node id (IRI) of each rendered term; terms of expanded imports get a prefixed label
+        const termIds = new Map<any, string>();
+        for (const v of vocabularies) {
+            const namespace = v === vocab ? {} : { namespace: getNamespaceIri(v) };
+            for (const stmt of v.ownedStatements ?? []) {
+                const id = getMemberIri(stmt);
+                if (!id) continue;
+                const common = { id, iri: id, label: qualifiedName(stmt, vocab), ...namespace, location: locationOf(stmt) };
+                if (isConcept(stmt)) {
+                    termIds.set(stmt, id);
+                    nodes.push({ ...common, kind: 'concept' });
+                } else if (isAspect(stmt)) {
+                    termIds.set(stmt, id);
+                    nodes.push({ ...common, kind: 'aspect' });
+                } else if (isRelationEntity(stmt)) {
+                    termIds.set(stmt, id);
+                    nodes.push({ ...common, kind: 'relation-entity' });
+                } else if (isUnreifiedRelation(stmt)) {
+                    termIds.set(stmt, id);
+                    // UnreifiedRelation does NOT create a node, only edges
+                }
             }
         }
 
+        // Terms of other ontologies get an external node (prefixed label) the first time they are referenced
+        const nodeIdOf = (reference: Reference | undefined): string | undefined => {
+            if (!reference) return undefined;
+            const target: any = reference.ref;
+            const rendered = target && termIds.get(target);
+            if (rendered) return rendered;
+            const id = referenceId(reference, vocab);
+            if (!id) return undefined;
+            if (!nodes.some(n => n.id === id)) {
+                const namespace = referenceNamespace(reference, vocab);
+                nodes.push({
+                    id,
+                    iri: id,
+                    label: target?.name ? qualifiedName(target, vocab) : reference.$refText,
+                    kind: isAspect(target) ? 'aspect' : isRelationEntity(target) ? 'relation-entity' : 'concept',
+                    external: true,
+                    ...(namespace ? { namespace } : {}),
+                    location: locationOf(target)
+                });
+            }
+            return id;
+        };
+
         // Specialization edges for Concepts and Aspects
-        for (const t of termByName.values()) {
+        for (const [t, tId] of [...termIds]) {
+            if (isUnreifiedRelation(t)) continue;
             const specs: any[] = (t as any).ownedSpecializations ?? [];
             for (const s of specs) {
-                const superRef = (s as any).superTerm;
-                const superName = superRef?.ref?.name as string | undefined;
-                if (superName && t.name && termByName.has(superName)) {
-                    // Child (t.name) is source, parent (superName) is target
+                const superId = nodeIdOf((s as any).superTerm);
+                if (superId) {
+                    // Child (t) is source, parent (super term) is target
                     edges.push({
-                        id: `${t.name}->${superName}`,
-                        source: t.name,
-                        target: superName,
-                        kind: 'specialization'
+                        id: edgeId(tId, 'specializes', superId),
+                        iri: tId,
+                        source: tId,
+                        target: superId,
+                        kind: 'specialization',
+                        location: locationOf(s)
                     });
                 }
             }
@@ -201,7 +468,7 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
         // Relation edges for RelationEntity/UnreifiedRelation
         // RelationEntity: creates a node in diagram + two visual edges (source->node, node->target with marker)
         // UnreifiedRelation: creates direct edges only (source->target with marker, no intermediate node).
-        for (const t of termByName.values()) {
+        for (const [t, tId] of [...termIds]) {
             if (isRelationEntity(t)) {
                 const relName: string | undefined = t.name;
                 if (!relName) continue;
@@ -210,17 +477,16 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
                 const forwardName: string | undefined = (t as any).forwardRelation?.name;
                 const reverseName: string | undefined = (t as any).reverseRelation?.name;
                 for (const s of sources) {
-                    const sName = s?.ref?.name as string | undefined;
+                    const sName = nodeIdOf(s);
                     if (!sName) continue;
                     for (const tg of targets) {
-                        const tName = tg?.ref?.name as string | undefined;
+                        const tName = nodeIdOf(tg);
                         if (!tName) continue;
 
                         const forward = forwardName ?? relName;
                         const reverse = reverseName ?? '';
 
-                        const forwardKey = `${(s as any).ref?.name ?? ''}::${relName}`;
-                        const forwardCard = forward ? cardinalities.get(forwardKey) : undefined;
+                        const forwardCard = forward ? cardinalities.get(cardinalityKey(sName, tId)) : undefined;
 
                         const forwardLabel = forwardCard ? `${forward} ${forwardCard}` : forward;
                         const reverseLabel = reverse;
@@ -232,7 +498,7 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
                         // If this relation is a specialization of one or more
                         // other relations, append subset information on its
                         // forward end label block.
-                        const supers = subsetOf.get(relName) ?? [];
+                        const supers = subsetOf.get(tId) ?? [];
                         if (supers.length > 0 && forwardLabel) {
                             const subsetLines = supers.map(sup => `{subsets ${sup}}`).join('\n');
                             combinedLabel = reverseLabel && forwardLabel
@@ -242,21 +508,25 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
 
                         // First visual segment: source -> relation-entity node (no marker)
                         edges.push({
-                            id: `${sName}->${relName}`,
+                            id: edgeId(sName, tId, tId),
+                            iri: tId,
                             source: sName,
-                            target: relName,
+                            target: tId,
                             kind: 'relation',
                             hasMarker: false,
-                            label: combinedLabel
+                            label: combinedLabel,
+                            location: locationOf(t)
                         });
                         
                         // Second visual segment: relation-entity node -> target (arrow marker)
                         edges.push({
-                            id: `${relName}->${tName}`,
-                            source: relName,
+                            id: edgeId(tId, tId, tName),
+                            iri: tId,
+                            source: tId,
                             target: tName,
                             kind: 'relation',
-                            hasMarker: true
+                            hasMarker: true,
+                            location: locationOf(t)
                         });
                     }
                 }
@@ -268,17 +538,16 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
                 const forwardName: string | undefined = (t as any).forwardRelation?.name ?? relName;
                 const reverseName: string | undefined = (t as any).reverseRelation?.name;
                 for (const s of sources) {
-                    const sName = s?.ref?.name as string | undefined;
+                    const sName = nodeIdOf(s);
                     if (!sName) continue;
                     for (const tg of targets) {
-                        const tName = tg?.ref?.name as string | undefined;
+                        const tName = nodeIdOf(tg);
                         if (!tName) continue;
 
                         const forward = forwardName;
                         const reverse = reverseName ?? '';
 
-                        const forwardKey = `${(s as any).ref?.name ?? ''}::${relName}`;
-                        const forwardCard = forward ? cardinalities.get(forwardKey) : undefined;
+                        const forwardCard = forward ? cardinalities.get(cardinalityKey(sName, tId)) : undefined;
 
                         const forwardLabel = forwardCard ? `${forward} ${forwardCard}` : forward;
                         const reverseLabel = reverse;
@@ -287,7 +556,7 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
                             ? `${reverseLabel}\n${forwardLabel}`
                             : (forwardLabel ?? reverseLabel ?? '');
 
-                        const supers = subsetOf.get(relName) ?? [];
+                        const supers = subsetOf.get(tId) ?? [];
                         if (supers.length > 0 && forwardLabel) {
                             const subsetLines = supers.map(sup => `{subsets ${sup}}`).join('\n');
                             combinedLabel = reverseLabel && forwardLabel
@@ -297,12 +566,14 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
 
                         // For unreified relations, create direct edge with arrow marker (no intermediate node)
                         edges.push({
-                            id: `${sName}->${tName}`,
+                            id: edgeId(sName, tId, tName),
+                            iri: tId,
                             source: sName,
                             target: tName,
                             kind: 'relation',
                             hasMarker: true,
-                            label: combinedLabel
+                            label: combinedLabel,
+                            location: locationOf(t)
                         });
                     }
                 }
@@ -310,5 +581,5 @@ export async function computeDiagramModel(shared: LangiumSharedServices, uri: st
         }
     }
 
-    return { nodes, edges };
+    return { nodes, edges: edges.edges };
 }
@@ -0,0 +1,169 @@
+import { CstUtils, GrammarAST, isLeafCstNode, type AstNode, type LangiumDocument, type LeafCstNode, type MaybePromise } from 'langium';
+import type { Formatter } from 'langium/lsp';
+import type { DocumentFormattingParams, DocumentOnTypeFormattingOptions, DocumentRangeFormattingParams, FormattingOptions, Range, TextEdit } from 'vscode-languageserver';
+import { isAnnotation, type Ontology } from './generated/ast.js';
+
+/**
+ * The order of the imports of an ontology by kind.
+ */
+const IMPORT_KINDS = ['extends', 'uses', 'includes'];
+
+/**
+ * The containments whose elements start a line: the imports, statements and annotations of an
+ * ontology or a member, and the axioms, assertions and relations of a `[]` block.
+ */
+const LINE_PROPERTIES = new Set([
+    'ownedImports',
+    'ownedStatements',
+    'ownedAnnotations',
+    'ownedKeys',
+    'ownedEnumeration',
+    'ownedPropertyRestrictions',
+    'ownedPropertyValues',
+    'forwardRelation',
+    'reverseRelation'
+]);
+
+/**
+ * The keywords starting a clause of a `[]` block, like `from`, `domain`, `functional` or `length`.
+ */
+const CLAUSE_KEYWORDS = new Set([
+    'from', 'to', 'domain', 'range',
+    'functional', 'inverse', 'symmetric', 'asymmetric', 'reflexive', 'irreflexive', 'transitive',
+    'length', 'minLength', 'maxLength', 'pattern', 'language', 'minInclusive', 'minExclusive', 'maxInclusive', 'maxExclusive'
+]);
+
+type OffsetEdit = { offset: number; end: number; newText: string };
+
+/**
+ * Formats OML source canonically: every import, statement, annotation and block clause starts a
+ * line indented by its depth in `{}` and `[]` blocks, imports are ordered by kind (`extends`,
+ * `uses`, then `includes`), and the other tokens are separated by one space (none before `,`
+ * and around the parentheses of predicates). Comments are kept where they are, and one blank
+ * line between lines is preserved. Documents with syntax errors are not formatted.
+ */
+export class OmlFormatter implements Formatter {
+
+    formatDocument(document: LangiumDocument, params: DocumentFormattingParams): MaybePromise<TextEdit[]> {
+        return this.format(document, params.options);
+    }
+
+    formatDocumentRange(document: LangiumDocument, params: DocumentRangeFormattingParams): MaybePromise<TextEdit[]> {
+        return this.format(document, params.options, params.range);
+    }
+
+    formatDocumentOnType(): MaybePromise<TextEdit[]> {
+        return [];
+    }
+
+    get formatOnTypeOptions(): DocumentOnTypeFormattingOptions | undefined {
+        return undefined;
+    }
+
+    /**
+     * Compute the edits replacing the whitespace between the tokens of a document, or of the given
+     * range of it, with the canonical one.
+     */
+    protected format(document: LangiumDocument, options: FormattingOptions, range?: Range): TextEdit[] {
+        const { value, lexerErrors, parserErrors } = document.parseResult;
+        if (!value.$cstNode || lexerErrors.length > 0 || parserErrors.length > 0) {
+            return [];
+        }
+        const textDocument = document.textDocument;
+        const text = textDocument.getText();
+        const [start, end] = range ? [textDocument.offsetAt(range.start), textDocument.offsetAt(range.end)] : [0, text.length];
+        const indent = (depth: number) => options.insertSpaces ? ' '.repeat(options.tabSize * depth) : '\t'.repeat(depth);
+        const leaves = CstUtils.streamCst(value.$cstNode).filter(isLeafCstNode).toArray();
+
+        const edits: OffsetEdit[] = [];
+        const blocks: LeafCstNode[] = [];
+        let previous: LeafCstNode | undefined;
+        let significant: LeafCstNode | undefined;
+        for (const leaf of leaves) {
+            const closing = isKeyword(leaf, '}', ']');
+            if (closing) {
+                blocks.pop();
+            }
+            const empty = closing && previous !== undefined && previous === significant && isKeyword(previous, '{', '[');
+            let whitespace = '';
+            if (previous && !empty && this.startsLine(leaf, previous, significant, blocks, text)) {
+                const blank = (text.substring(previous.end, leaf.offset).match(/\n/g)?.length ?? 0) > 1 && !closing && !isKeyword(previous, '{', '[');
+                whitespace = `${blank ? '\n\n' : '\n'}${indent(blocks.length)}`;
+            } else if (previous && !empty) {
+                whitespace = isKeyword(leaf, ',', '(', ')', '^^', '$') || isKeyword(previous, '(', '@', '^^', '$') ? '' : ' ';
+            }
+            edits.push({ offset: previous?.end ?? 0, end: leaf.offset, newText: whitespace });
+            if (isKeyword(leaf, '{', '[')) {
+                blocks.push(leaf);
+            }
+            previous = leaf;
+            significant = leaf.hidden ? significant : leaf;
+        }
+        edits.push({ offset: previous?.end ?? 0, end: text.length, newText: '\n' });
+
+        const imports = this.formatImports(value as Ontology, leaves, text, indent(1));
+        const formatted = imports ? [...edits.filter(e => e.end <= imports.offset || e.offset >= imports.end), imports] : edits;
+        return formatted
+            .filter(e => e.end >= start && e.end <= end && text.substring(e.offset, e.end) !== e.newText)
+            .sort((a, b) => a.offset - b.offset)
+            .map(e => ({ range: { start: textDocument.positionAt(e.offset), end: textDocument.positionAt(e.end) }, newText: e.newText }));
+    }
+
+    /**
+     * Whether a token starts a line: comments that do, and the tokens following a line comment,
+     * opening or closing a block, starting an element or a clause of a block, or following an
+     * annotation.
+     */
+    protected startsLine(leaf: LeafCstNode, previous: LeafCstNode, significant: LeafCstNode | undefined, blocks: LeafCstNode[], text: string): boolean {
+        const newline = text.substring(previous.end, leaf.offset).includes('\n');
+        if (previous.hidden && (previous.tokenType.name === 'SL_COMMENT' || newline)) {
+            return true;
+        } else if (leaf.hidden) {
+            return newline;
+        } else if (isKeyword(leaf, '}', ']') || (significant && isKeyword(significant, '{', '['))) {
+            return true;
+        } else if (significant && getNodesAt(significant, 'end').some(isAnnotation)) {
+            return true;
+        } else if (getNodesAt(leaf, 'offset').some(n => LINE_PROPERTIES.has(n.$containerProperty ?? ''))) {
+            return true;
+        }
+        return isKeyword(leaf, ...CLAUSE_KEYWORDS) && leaf.astNode === blocks.at(-1)?.astNode
+            && !(isKeyword(leaf, 'functional') && significant && isKeyword(significant, 'inverse'));
+    }
+
+    /**
+     * Return the edit writing the imports of an ontology in the order of their kinds, one per line,
+     * or `undefined` if they are ordered already or are commented.
+     */
+    protected formatImports(ontology: Ontology, leaves: LeafCstNode[], text: string, indentation: string): OffsetEdit | undefined {
+        const imports = ontology.ownedImports;
+        const sorted = [...imports].sort((a, b) => IMPORT_KINDS.indexOf(a.kind) - IMPORT_KINDS.indexOf(b.kind));
+        const first = imports[0]?.$cstNode;
+        const last = imports.at(-1)?.$cstNode;
+        if (!first || !last || sorted.every((i, n) => i === imports[n])) {
+            return undefined;
+        }
+        // Comments between the imports or at the end of the last one would move to another import
+        if (leaves.some(l => l.hidden && l.offset > first.offset && (l.end < last.end || !text.substring(last.end, l.offset).includes('\n')))) {
+            return undefined;
+        }
+        const lines = sorted.map(i => i.$cstNode ? CstUtils.streamCst(i.$cstNode).filter(isLeafCstNode).map(l => l.text).join(' ') : '');
+        return { offset: first.offset, end: last.end, newText: lines.join(`\n${indentation}`) };
+    }
+
+}
+
+function isKeyword(leaf: LeafCstNode, ...keywords: string[]): boolean {
+    return !leaf.hidden && GrammarAST.isKeyword(leaf.grammarSource) && keywords.includes(leaf.text);
+}
+
+/**
+ * Return the node of a token and its containers that start, or end, where the token does.
+ */
+function getNodesAt(leaf: LeafCstNode, side: 'offset' | 'end'): AstNode[] {
+    const nodes: AstNode[] = [];
+    for (let node: AstNode | undefined = leaf.astNode; node && node.$cstNode?.[side] === leaf[side]; node = node.$container) {
+        nodes.push(node);
+    }
+    return nodes;
+}
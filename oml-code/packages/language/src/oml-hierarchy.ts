@@ -0,0 +1,196 @@
+import { AstUtils, type AstNode, type Reference } from 'langium';
+import type { Entity, NamedInstance, Ontology, RelationInstance, SpecializationAxiom } from './generated/ast.js';
+import {
+    isAnnotationProperty,
+    isAspect,
+    isConcept,
+    isConceptInstance,
+    isEntityEquivalenceAxiom,
+    isPropertyEquivalenceAxiom,
+    isRelation,
+    isRelationEntity,
+    isRelationInstance,
+    isScalar,
+    isScalarEquivalenceAxiom,
+    isScalarProperty,
+    isSpecializationAxiom,
+    isUnreifiedRelation
+} from './generated/ast.js';
+import { computeImportClosure } from './oml-bundles.js';
+
+/**
+ * Return the given ontology followed by all ontologies it transitively imports (as far as the
+ * imports are resolved).
+ */
+export function getImportClosure(ontology: Ontology): Ontology[] {
+    return computeImportClosure(ontology).ontologies;
+}
+
+/**
+ * Return the member a node declares: the node itself, or the referenced member for a `ref`
+ * redeclaration.
+ */
+export function getDeclaration<T extends AstNode>(node: T): T {
+    const redeclared = (node as { ref?: Reference<T> }).ref?.ref;
+    return redeclared && typeof (node as { name?: unknown }).name !== 'string' ? redeclared : node;
+}
+
+/**
+ * Whether a term can specialize another: aspects specialize aspects, concepts and relation
+ * entities specialize aspects or terms of their kind, unreified relations specialize relations,
+ * and scalars and properties terms of their kind.
+ */
+export function isCompatibleSpecialization(sub: AstNode, sup: AstNode): boolean {
+    return isAspect(sub) ? isAspect(sup)
+        : isConcept(sub) ? isAspect(sup) || isConcept(sup)
+        : isRelationEntity(sub) ? isAspect(sup) || isRelationEntity(sup)
+        : isScalar(sub) ? isScalar(sup)
+        : isScalarProperty(sub) ? isScalarProperty(sup)
+        : isAnnotationProperty(sub) ? isAnnotationProperty(sup)
+        : isUnreifiedRelation(sub) ? isRelation(sup)
+        : true;
+}
+
+/**
+ * Whether specializing a term (or the member it redeclares) by another creates a cycle, i.e. the
+ * other term is the term itself or specializes it.
+ */
+export function isCyclicSpecialization(sub: AstNode, sup: AstNode): boolean {
+    const start = ((sub as { ref?: Reference }).ref?.ref ?? sub) as AstNode;
+    const visited = new Set<AstNode>();
+    const pending: AstNode[] = [sup];
+    while (pending.length > 0) {
+        const term = pending.pop()!;
+        if (term === start) {
+            return true;
+        }
+        if (!visited.has(term)) {
+            visited.add(term);
+            for (const s of (term as { ownedSpecializations?: SpecializationAxiom[] }).ownedSpecializations ?? []) {
+                if (s.superTerm?.ref) {
+                    pending.push(s.superTerm.ref);
+                }
+            }
+        }
+    }
+    return false;
+}
+
+/**
+ * The specialization hierarchy and the instance types of an ontology and its import closure.
+ * Statements of `ref` redeclarations are merged into the members they redeclare, so that e.g.
+ * `ref concept base:Thing < Named` makes `Named` a super term of `base:Thing`.
+ */
+export class OmlHierarchy {
+
+    readonly ontologies: Ontology[];
+    readonly relationInstances: RelationInstance[] = [];
+    protected readonly declarations = new Map<AstNode, AstNode[]>();
+    protected readonly superReferences = new Map<AstNode, Array<Reference<AstNode>>>();
+    protected readonly assertedTypes = new Map<AstNode, Array<Reference<Entity>>>();
+    protected readonly superTermsCache = new Map<AstNode, Set<AstNode>>();
+
+    constructor(ontology: Ontology) {
+        this.ontologies = getImportClosure(ontology);
+        for (const root of this.ontologies) {
+            for (const node of AstUtils.streamAllContents(root)) {
+                const declaration = getDeclaration(node);
+                if (isSpecializationAxiom(node)) {
+                    this.add(this.superReferences, getDeclaration(node.$container), node.superTerm);
+                } else if (isEntityEquivalenceAxiom(node)) {
+                    node.superEntities.forEach(e => this.add(this.superReferences, getDeclaration(node.$container), e));
+                } else if (isScalarEquivalenceAxiom(node)) {
+                    this.add(this.superReferences, getDeclaration(node.$container), node.superScalar);
+                } else if (isPropertyEquivalenceAxiom(node)) {
+                    this.add(this.superReferences, getDeclaration(node.$container), node.superProperty);
+                } else if (isConceptInstance(node) || isRelationInstance(node)) {
+                    node.ownedTypes.forEach(t => this.add(this.assertedTypes, declaration, t.type));
+                    if (isRelationInstance(node) && declaration === node) {
+                        this.relationInstances.push(node);
+                    }
+                }
+                if ((node as { name?: unknown }).name !== undefined || declaration !== node) {
+                    this.add(this.declarations, declaration, node);
+                }
+            }
+        }
+    }
+
+    /**
+     * Return the declaration of a member together with all its `ref` redeclarations.
+     */
+    getRedeclarations<T extends AstNode>(node: T): T[] {
+        const declaration = getDeclaration(node);
+        return (this.declarations.get(declaration) as T[] | undefined) ?? [declaration];
+    }
+
+    /**
+     * Return the references to the direct super terms of a term (specializations and equivalences).
+     */
+    getSuperReferences(term: AstNode): Array<Reference<AstNode>> {
+        return this.superReferences.get(getDeclaration(term)) ?? [];
+    }
+
+    /**
+     * Return the term and all its (transitive, resolved) super terms.
+     */
+    getSuperTerms(term: AstNode): Set<AstNode> {
+        const declaration = getDeclaration(term);
+        let result = this.superTermsCache.get(declaration);
+        if (!result) {
+            result = new Set<AstNode>();
+            const pending = [declaration];
+            while (pending.length > 0) {
+                const current = pending.pop()!;
+                if (!result.has(current)) {
+                    result.add(current);
+                    for (const reference of this.getSuperReferences(current)) {
+                        if (reference.ref) {
+                            pending.push(getDeclaration(reference.ref));
+                        }
+                    }
+                }
+            }
+            this.superTermsCache.set(declaration, result);
+        }
+        return result;
+    }
+
+    isSubTermOf(term: AstNode, superTerm: AstNode): boolean {
+        return this.getSuperTerms(term).has(getDeclaration(superTerm));
+    }
+
+    /**
+     * Return the references to the types asserted for an instance, including those asserted by
+     * its `ref` redeclarations.
+     */
+    getAssertedTypes(instance: NamedInstance): Array<Reference<Entity>> {
+        return this.assertedTypes.get(getDeclaration(instance)) ?? [];
+    }
+
+    /**
+     * Return all (asserted and inherited) types of an instance.
+     */
+    getTypes(instance: NamedInstance): Set<AstNode> {
+        const types = new Set<AstNode>();
+        for (const type of this.getAssertedTypes(instance)) {
+            if (type.ref) {
+                this.getSuperTerms(type.ref).forEach(t => types.add(t));
+            }
+        }
+        return types;
+    }
+
+    protected add<K, V>(map: Map<K, V[]>, key: K, value: V | undefined): void {
+        if (value === undefined) {
+            return;
+        }
+        const values = map.get(key);
+        if (values) {
+            values.push(value);
+        } else {
+            map.set(key, [value]);
+        }
+    }
+
+}
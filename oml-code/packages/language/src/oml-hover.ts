@@ -0,0 +1,175 @@
+import type { AstNode, MaybePromise, Reference } from 'langium';
+import { MultilineCommentHoverProvider } from 'langium/lsp';
+import {
+    isConceptInstance,
+    isEntity,
+    isForwardRelation,
+    isNamedInstance,
+    isQuotedLiteral,
+    isRelationEntity,
+    isRelationInstance,
+    isReverseRelation,
+    isScalarProperty,
+    isUnreifiedRelation,
+    type Annotation,
+    type NamedInstance,
+    type PropertyRestrictionAxiom,
+    type RelationEntity,
+    type UnreifiedRelation
+} from './generated/ast.js';
+import { getDeclaration, OmlHierarchy } from './oml-hierarchy.js';
+import { getLiteralText, RDFS } from './oml-literals.js';
+import { getPropertyRestrictions } from './oml-restrictions.js';
+import { abbreviateIri, getDeclaredIri, getOntology, getReferenceIri } from './oml-utils.js';
+
+/**
+ * The annotation properties whose values describe a member in its hover.
+ */
+const DESCRIPTION_PROPERTIES = new Set([
+    'http://purl.org/dc/elements/1.1/description',
+    'http://purl.org/dc/terms/description',
+    `${RDFS}comment`
+]);
+
+const CHARACTERISTICS = ['functional', 'inverseFunctional', 'symmetric', 'asymmetric', 'reflexive', 'irreflexive', 'transitive'] as const;
+
+/**
+ * Shows what is known about the member under the cursor: its kind and IRI, its description
+ * annotations, its direct and inherited super terms, the domain, range and characteristics of a
+ * property, the restrictions applying to an entity, and the types and property values of an
+ * instance. Names are abbreviated with the prefixes of the ontology declaring the member.
+ */
+export class OmlHoverProvider extends MultilineCommentHoverProvider {
+
+    protected override getAstNodeHoverContent(node: AstNode): MaybePromise<string | undefined> {
+        const member = getDeclaration(node);
+        const iri = getDeclaredIri(member);
+        const ontology = getOntology(member);
+        if (!iri || !ontology) {
+            return super.getAstNodeHoverContent(node);
+        }
+        const hierarchy = new OmlHierarchy(ontology);
+        const name = (target: AstNode) => {
+            const targetIri = getDeclaredIri(target);
+            return targetIri ? `\`${abbreviateIri(targetIri, ontology)}\`` : '`?`';
+        };
+        const names = (references: Array<Reference<AstNode>>) => references.map(r => r.ref ? name(r.ref) : `\`${r.$refText}\``).join(', ');
+        const redeclarations = hierarchy.getRedeclarations(member);
+        const sections = [`**${describeKind(member)}** ${name(member)}\n\n\`<${iri}>\``];
+
+        const descriptions = redeclarations.flatMap(d => (d as { ownedAnnotations?: Annotation[] }).ownedAnnotations ?? [])
+            .filter(a => DESCRIPTION_PROPERTIES.has(getReferenceIri(a.property, a) ?? ''))
+            .flatMap(a => a.literalValues.map(l => isQuotedLiteral(l) ? l.value : getLiteralText(l)));
+        sections.push(...descriptions);
+        const comment = super.getAstNodeHoverContent(member);
+        if (typeof comment === 'string') {
+            sections.push(comment);
+        }
+
+        const lines: string[] = [];
+        const direct = hierarchy.getSuperReferences(member);
+        const inherited = [...hierarchy.getSuperTerms(member)].filter(t => t !== member && !direct.some(r => r.ref && getDeclaration(r.ref) === t));
+        if (direct.length > 0) {
+            lines.push(`Supertypes: ${names(direct)}`);
+        }
+        if (inherited.length > 0) {
+            lines.push(`Inherited supertypes: ${inherited.map(name).join(', ')}`);
+        }
+        if (isScalarProperty(member)) {
+            const properties = hierarchy.getRedeclarations(member);
+            lines.push(...describeProperty(properties.flatMap(d => d.domains), properties.flatMap(d => d.ranges), names));
+            lines.push(...describeCharacteristics(properties));
+        } else if (isRelationEntity(member) || isUnreifiedRelation(member)) {
+            const relations: Array<RelationEntity | UnreifiedRelation> = hierarchy.getRedeclarations(member);
+            lines.push(...describeProperty(relations.flatMap(d => d.sources), relations.flatMap(d => d.targets), names));
+            lines.push(...describeCharacteristics(relations));
+        } else if (isForwardRelation(member) || isReverseRelation(member)) {
+            const relations = hierarchy.getRedeclarations(member.$container);
+            const [sources, targets] = [relations.flatMap(d => d.sources), relations.flatMap(d => d.targets)];
+            lines.push(...describeProperty(isForwardRelation(member) ? sources : targets, isForwardRelation(member) ? targets : sources, names));
+            lines.push(...describeCharacteristics(relations));
+        }
+        if (isEntity(member)) {
+            const restrictions = getPropertyRestrictions(hierarchy.getSuperTerms(member), hierarchy);
+            if (restrictions.length > 0) {
+                lines.push(`Restrictions:\n${restrictions.map(r => `- ${describeRestriction(r, member, name)}`).join('\n')}`);
+            }
+        }
+        if (isNamedInstance(member)) {
+            lines.push(...describeInstance(member, hierarchy, names, name));
+        }
+        if (lines.length > 0) {
+            sections.push(lines.join('\n\n'));
+        }
+        return sections.join('\n\n---\n\n');
+    }
+
+}
+
+function describeKind(member: AstNode): string {
+    return member.$type.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+function describeProperty(domains: Array<Reference<AstNode>>, ranges: Array<Reference<AstNode>>, names: (references: Array<Reference<AstNode>>) => string): string[] {
+    const lines: string[] = [];
+    if (domains.length > 0) {
+        lines.push(`Domain: ${names(domains)}`);
+    }
+    if (ranges.length > 0) {
+        lines.push(`Range: ${names(ranges)}`);
+    }
+    return lines;
+}
+
+function describeCharacteristics(declarations: Array<Partial<Record<typeof CHARACTERISTICS[number], boolean>>>): string[] {
+    const characteristics = CHARACTERISTICS.filter(c => declarations.some(d => d[c]));
+    return characteristics.length > 0 ? [`Characteristics: ${characteristics.map(c => c.replace(/([A-Z])/g, ' $1').toLowerCase()).join(', ')}`] : [];
+}
+
+/**
+ * Show a restriction as it is written, followed by the entity declaring it if it is inherited.
+ */
+function describeRestriction(restriction: PropertyRestrictionAxiom, entity: AstNode, name: (target: AstNode) => string): string {
+    const text = `\`${restriction.$cstNode?.text.replace(/\s+/g, ' ') ?? restriction.$type}\``;
+    const container = restriction.$container;
+    const declaring = getDeclaration(isEntity(container) ? container : container.$container);
+    return declaring === entity ? text : `${text} (from ${name(declaring)})`;
+}
+
+function describeInstance(instance: NamedInstance, hierarchy: OmlHierarchy, names: (references: Array<Reference<AstNode>>) => string, name: (target: AstNode) => string): string[] {
+    const lines: string[] = [];
+    const asserted = hierarchy.getAssertedTypes(instance);
+    const inherited = [...hierarchy.getTypes(instance)].filter(t => !asserted.some(r => r.ref && getDeclaration(r.ref) === t));
+    if (asserted.length > 0) {
+        lines.push(`Types: ${names(asserted)}`);
+    }
+    if (inherited.length > 0) {
+        lines.push(`Inherited types: ${inherited.map(name).join(', ')}`);
+    }
+    const values: string[] = [];
+    for (const declaration of hierarchy.getRedeclarations(instance)) {
+        if (isRelationInstance(declaration)) {
+            if (declaration.sources.length > 0) {
+                values.push(`- from ${names(declaration.sources)}`);
+            }
+            if (declaration.targets.length > 0) {
+                values.push(`- to ${names(declaration.targets)}`);
+            }
+        }
+        if (isConceptInstance(declaration) || isRelationInstance(declaration)) {
+            for (const assertion of declaration.ownedPropertyValues) {
+                const property = assertion.property?.ref ? name(assertion.property.ref) : `\`${assertion.property?.$refText}\``;
+                const objects = [
+                    ...assertion.literalValues.map(l => `\`${getLiteralText(l)}\``),
+                    ...assertion.containedValues.map(v => `\`${v.$cstNode?.text.replace(/\s+/g, ' ') ?? '[...]'}\``),
+                    ...assertion.referencedValues.map(r => r.ref ? name(r.ref) : `\`${r.$refText}\``)
+                ];
+                values.push(`- ${property} ${objects.join(', ')}`);
+            }
+        }
+    }
+    if (values.length > 0) {
+        lines.push(`Property values:\n${values.join('\n')}`);
+    }
+    return lines;
+}
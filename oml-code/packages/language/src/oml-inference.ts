@@ -0,0 +1,95 @@
+import { AstUtils, DocumentState, URI, type AstNode } from 'langium';
+import { isOntology } from './generated/ast.js';
+import type { DiagramLocation } from './oml-diagram.js';
+import type { OmlSharedServices } from './oml-module.js';
+import { RDF, XSD } from './oml-literals.js';
+import type { ObjectTerm } from './oml-reasoner.js';
+import { abbreviateIri } from './oml-utils.js';
+
+/**
+ * A fact entailed about an instance: a type (with `property` unset) or a property value.
+ */
+export type InferredFact = {
+    property?: string;
+    // The type, instance or literal, as OML text abbreviated with the prefixes of the document
+    value: string;
+    // The declaration of the type or instance, if loaded
+    location?: DiagramLocation;
+};
+
+export type InferredSubject = {
+    iri: string;
+    label: string;
+    location?: DiagramLocation;
+    facts: InferredFact[];
+};
+
+/**
+ * The facts entailed (and not asserted) about the named instances of the descriptions in the
+ * import closure of a document, and the inconsistencies found while entailing them.
+ */
+export type InferredFactsModel = {
+    subjects: InferredSubject[];
+    inconsistencies: string[];
+};
+
+/**
+ * Return the OML text of a term: the abbreviated IRI of an instance or a literal, e.g. `42`,
+ * `"a"$en` or `"2024-01-01"^^xsd:date`.
+ */
+export function formatTerm(term: ObjectTerm, abbreviate: (iri: string) => string): string {
+    if (typeof term === 'string') {
+        return abbreviate(term);
+    }
+    switch (term.datatype) {
+        case `${XSD}integer`:
+        case `${XSD}decimal`:
+        case `${XSD}double`:
+        case `${XSD}boolean`:
+            return term.value;
+        case `${XSD}string`:
+            return JSON.stringify(term.value);
+        case `${RDF}langString`:
+            return `${JSON.stringify(term.value)}$${term.language}`;
+        default:
+            return `${JSON.stringify(term.value)}^^${abbreviate(term.datatype)}`;
+    }
+}
+
+/**
+ * Run the reasoner (including the rules of the vocabularies) on the ontology of a document, or
+ * reuse its reasoning since the last change, and return the facts it entails about named
+ * instances, for the inferred facts view.
+ */
+export async function computeInferredFacts(shared: OmlSharedServices, uri: string): Promise<InferredFactsModel> {
+    const document = await shared.workspace.LangiumDocuments.getOrCreateDocument(URI.parse(uri));
+    // Building notifies an update, which would discard the cached reasoning of built documents
+    if (document.state < DocumentState.IndexedReferences) {
+        await shared.workspace.DocumentBuilder.build([document], { validation: false });
+    }
+    const root = document.parseResult.value;
+    if (!isOntology(root)) {
+        return { subjects: [], inconsistencies: [] };
+    }
+    const { reasoner, result } = shared.workspace.ReasoningProvider.getReasoning(root);
+    const inferred = result.facts.without(result.asserted);
+    const abbreviate = (iri: string) => abbreviateIri(iri, root);
+    const locate = (iri: string) => locationOf(reasoner.getSubjectNodes(iri)[0] ?? reasoner.getMember(iri));
+    const subjects: InferredSubject[] = [];
+    for (const subject of inferred.getSubjects().filter(s => !s.startsWith('_:')).sort()) {
+        const facts: InferredFact[] = inferred.getTypes(subject).map(type => ({ value: abbreviate(type), location: locate(type) }));
+        for (const property of inferred.getProperties(subject)) {
+            for (const object of inferred.getValues(subject, property).filter(o => typeof o !== 'string' || !o.startsWith('_:'))) {
+                facts.push({ property: abbreviate(property), value: formatTerm(object, abbreviate), location: typeof object === 'string' ? locate(object) : undefined });
+            }
+        }
+        if (facts.length > 0) {
+            subjects.push({ iri: subject, label: abbreviate(subject), location: locate(subject), facts });
+        }
+    }
+    return { subjects, inconsistencies: result.inconsistencies.map(i => i.message) };
+}
+
+function locationOf(node: AstNode | undefined): DiagramLocation | undefined {
+    return node?.$cstNode ? { uri: AstUtils.getDocument(node).uri.toString(), range: node.$cstNode.range } : undefined;
+}
@@ -0,0 +1,256 @@
+import type { AstNode, Reference } from 'langium';
+import type { Entity, Literal, Ontology, Scalar, Vocabulary } from './generated/ast.js';
+import {
+    isAspect,
+    isConcept,
+    isPropertyCardinalityRestrictionAxiom,
+    isRelationEntity,
+    isScalar,
+    isScalarProperty,
+    isUnreifiedRelation,
+    isVocabulary
+} from './generated/ast.js';
+import { compilePattern, XSD } from './oml-literals.js';
+import { getDeclaredIri, getNamespaceIri, getOntology, getOntologyIri, getReferenceIri } from './oml-utils.js';
+
+const XSD_SCHEMAS: Record<string, JsonSchema> = {
+    boolean: { type: 'boolean' },
+    integer: { type: 'integer' },
+    int: { type: 'integer' },
+    long: { type: 'integer' },
+    short: { type: 'integer' },
+    byte: { type: 'integer' },
+    nonNegativeInteger: { type: 'integer', minimum: 0 },
+    positiveInteger: { type: 'integer', minimum: 1 },
+    nonPositiveInteger: { type: 'integer', maximum: 0 },
+    negativeInteger: { type: 'integer', maximum: -1 },
+    unsignedLong: { type: 'integer', minimum: 0 },
+    unsignedInt: { type: 'integer', minimum: 0 },
+    unsignedShort: { type: 'integer', minimum: 0 },
+    unsignedByte: { type: 'integer', minimum: 0 },
+    decimal: { type: 'number' },
+    double: { type: 'number' },
+    float: { type: 'number' },
+    dateTime: { type: 'string', format: 'date-time' },
+    dateTimeStamp: { type: 'string', format: 'date-time' },
+    date: { type: 'string', format: 'date' },
+    time: { type: 'string', format: 'time' },
+    anyURI: { type: 'string', format: 'uri' }
+};
+
+/**
+ * A JSON Schema (draft 2020-12) object; only the keywords produced by the generator are typed.
+ */
+export type JsonSchema = {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    $defs?: Record<string, JsonSchema>;
+    title?: string;
+    description?: string;
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    format?: string;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    enum?: Array<string | number | boolean>;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+};
+
+/**
+ * Build the self-contained JSON Schema of a vocabulary. Every entity and scalar of the vocabulary
+ * and of the vocabularies of its import closure becomes an entry of `$defs`, named after the term
+ * for the vocabulary's own terms and prefixed with the prefix of their vocabulary for the others:
+ *  - entities are objects combining their supertypes with `allOf`, with a property per scalar
+ *    property (typed by its range) and per relation (holding instance IRIs) in their domain, and
+ *    the `source` and `target` instance IRIs for relation entities,
+ *  - cardinality restrictions bound the number of values and make properties required,
+ *  - scalars carry the enumerations and facets (with whole-value patterns) of their declaration,
+ *    while XSD built-ins have no entry and map to JSON types where they are used.
+ * Functional properties hold a single value, all others an array of values.
+ */
+export function vocabularyToJsonSchema(vocabulary: Vocabulary, closure: Ontology[] = [vocabulary]): JsonSchema {
+    const vocabularies = [vocabulary, ...closure.filter(o => o !== vocabulary)].filter(isVocabulary);
+    const context = new SchemaContext(vocabulary);
+    const defs: Record<string, JsonSchema> = {};
+    const entities = new Map<Entity, JsonSchema>();
+    const statements = vocabularies.flatMap(v => v.ownedStatements);
+
+    for (const statement of statements) {
+        if ((isAspect(statement) || isConcept(statement) || isRelationEntity(statement)) && statement.name) {
+            const definition: JsonSchema = { type: 'object', properties: {} };
+            const supers = statement.ownedSpecializations.flatMap(s => context.refOf(s.superTerm) ?? []).map($ref => ({ $ref }));
+            if (supers.length > 0) {
+                definition.allOf = supers;
+            }
+            entities.set(statement, definition);
+            defs[context.defName(statement)] = definition;
+        } else if (isScalar(statement) && statement.name && !getDeclaredIri(statement)?.startsWith(XSD)) {
+            defs[context.defName(statement)] = context.scalarDefinition(statement);
+        }
+    }
+
+    // The properties by the node that restrictions refer to: the scalar property, the unreified
+    // relation, or the forward or reverse relation
+    const declaredProperties = new Map<AstNode, { name: string, valueSchema: JsonSchema, functional: boolean }>();
+    const addProperty = (domain: Reference<Entity>, property: AstNode | undefined, name: string | undefined, valueSchema: JsonSchema, functional: boolean) => {
+        if (!property || !name) {
+            return;
+        }
+        declaredProperties.set(property, { name, valueSchema, functional });
+        const owner = domain.ref && entities.get(domain.ref);
+        if (owner?.properties) {
+            owner.properties[name] = functional ? valueSchema : { type: 'array', items: valueSchema };
+        }
+    };
+    const instanceReference: JsonSchema = { type: 'string', format: 'iri' };
+
+    for (const statement of statements) {
+        if (isScalarProperty(statement)) {
+            const ranges = statement.ranges.map(r => context.scalarSchema(r, statement));
+            const valueSchema = ranges.length === 1 ? ranges[0] : ranges.length > 1 ? { anyOf: ranges } : {};
+            statement.domains.forEach(d => addProperty(d, statement, statement.name, valueSchema, statement.functional));
+        } else if (isUnreifiedRelation(statement) || isRelationEntity(statement)) {
+            const forward = isRelationEntity(statement) ? statement.forwardRelation : statement;
+            statement.sources.forEach(s => addProperty(s, forward, forward?.name, instanceReference, statement.functional));
+            statement.targets.forEach(t => addProperty(t, statement.reverseRelation, statement.reverseRelation?.name, instanceReference, statement.inverseFunctional));
+            const relationEntity = isRelationEntity(statement) ? entities.get(statement) : undefined;
+            if (relationEntity?.properties) {
+                relationEntity.properties.source = instanceReference;
+                relationEntity.properties.target = instanceReference;
+            }
+        }
+    }
+
+    // Apply cardinality restrictions on the properties of the restricting entity
+    for (const [entity, definition] of entities) {
+        for (const restriction of entity.ownedPropertyRestrictions) {
+            if (!isPropertyCardinalityRestrictionAxiom(restriction)) {
+                continue;
+            }
+            const property = restriction.property.ref;
+            const declared = (property && declaredProperties.get(property))
+                ?? { name: restriction.property.$refText.replace(/^.*:/, ''), valueSchema: {}, functional: false };
+            const minimum = restriction.kind === 'min' || restriction.kind === 'exactly' ? restriction.cardinality : undefined;
+            const maximum = restriction.kind === 'max' || restriction.kind === 'exactly' ? restriction.cardinality : undefined;
+            const properties = definition.properties ??= {};
+            if (declared.functional) {
+                // A single-valued property only needs to become required
+                properties[declared.name] = declared.valueSchema;
+            } else {
+                // Bounds of other restrictions of the property are kept, e.g. both `min` and `max`
+                const previous = properties[declared.name];
+                const bounded: JsonSchema = { type: 'array', items: declared.valueSchema };
+                assign(bounded, 'minItems', minimum ?? previous?.minItems);
+                assign(bounded, 'maxItems', maximum ?? previous?.maxItems);
+                properties[declared.name] = bounded;
+            }
+            if ((minimum ?? 0) > 0) {
+                definition.required = [...new Set([...(definition.required ?? []), declared.name])];
+            }
+        }
+    }
+
+    const namespace = getNamespaceIri(vocabulary);
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        $id: getOntologyIri(namespace),
+        title: vocabulary.prefix,
+        $defs: defs
+    };
+}
+
+/**
+ * Maps the terms of a vocabulary and of its import closure to their entries of `$defs`.
+ */
+class SchemaContext {
+
+    constructor(private readonly vocabulary: Vocabulary) {}
+
+    /**
+     * The name of the `$defs` entry of a term: its name when declared in the vocabulary, its
+     * name prefixed with the prefix of its vocabulary otherwise.
+     */
+    defName(term: AstNode & { name?: string }): string {
+        const ontology = getOntology(term);
+        return !ontology || ontology === this.vocabulary ? term.name ?? '' : `${ontology.prefix}:${term.name}`;
+    }
+
+    /**
+     * A `$ref` to the definition of a referenced term, or `undefined` if it is not loaded.
+     */
+    refOf(reference: Reference<AstNode>): string | undefined {
+        const target = reference.ref as (AstNode & { name?: string }) | undefined;
+        return target?.name ? `#/$defs/${this.defName(target)}` : undefined;
+    }
+
+    /**
+     * The schema of a referenced scalar: XSD built-ins map to JSON types (with formats and
+     * bounds), other scalars to a `$ref` to their definition.
+     */
+    scalarSchema(reference: Reference<Scalar>, context: AstNode): JsonSchema {
+        const iri = getReferenceIri(reference, context);
+        if (iri?.startsWith(XSD)) {
+            return XSD_SCHEMAS[iri.substring(XSD.length)] ?? { type: 'string' };
+        }
+        const $ref = this.refOf(reference);
+        return $ref ? { $ref } : { type: 'string' };
+    }
+
+    scalarDefinition(scalar: Scalar): JsonSchema {
+        const superScalar = (scalar.ownedSpecializations[0]?.superTerm ?? scalar.ownedEquivalences[0]?.superScalar) as Reference<Scalar> | undefined;
+        const definition: JsonSchema = superScalar ? { ...this.scalarSchema(superScalar, scalar) }
+            : scalar.ownedEnumeration ? {}
+            : { type: 'string' };
+        if (scalar.ownedEnumeration) {
+            definition.enum = scalar.ownedEnumeration.literals.map(literalValue);
+        }
+        for (const equivalence of scalar.ownedEquivalences) {
+            const first = <T>(values: T[]): T | undefined => values[0];
+            const length = first(equivalence.length);
+            if (length !== undefined) {
+                definition.minLength = length;
+                definition.maxLength = length;
+            }
+            assign(definition, 'minLength', first(equivalence.minLength));
+            assign(definition, 'maxLength', first(equivalence.maxLength));
+            const pattern = first(equivalence.pattern);
+            // XSD patterns match the whole value, JSON Schema patterns any part of it
+            assign(definition, 'pattern', pattern !== undefined ? compilePattern(pattern)?.source : undefined);
+            assign(definition, 'minimum', numeric(first(equivalence.minInclusive)));
+            assign(definition, 'maximum', numeric(first(equivalence.maxInclusive)));
+            assign(definition, 'exclusiveMinimum', numeric(first(equivalence.minExclusive)));
+            assign(definition, 'exclusiveMaximum', numeric(first(equivalence.maxExclusive)));
+        }
+        return definition;
+    }
+
+}
+
+function literalValue(literal: Literal): string | number | boolean {
+    return literal.value;
+}
+
+function numeric(literal: Literal | undefined): number | undefined {
+    if (!literal) {
+        return undefined;
+    }
+    const value = literalValue(literal);
+    return typeof value === 'number' ? value : undefined;
+}
+
+function assign<K extends keyof JsonSchema>(schema: JsonSchema, key: K, value: JsonSchema[K] | undefined): void {
+    if (value !== undefined) {
+        schema[key] = value;
+    }
+}
@@ -0,0 +1,215 @@
+import type { AstNode, Reference } from 'langium';
+import type { Literal, LiteralEnumerationAxiom, ScalarEquivalenceAxiom } from './generated/ast.js';
+import { isBooleanLiteral, isDecimalLiteral, isDoubleLiteral, isIntegerLiteral, isQuotedLiteral, isScalar } from './generated/ast.js';
+import type { OmlHierarchy } from './oml-hierarchy.js';
+import { getDeclaredIri, getReferenceIri } from './oml-utils.js';
+
+export const XSD = 'http://www.w3.org/2001/XMLSchema#';
+export const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const OWL = 'http://www.w3.org/2002/07/owl#';
+export const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+
+/**
+ * The kinds of values the built-in datatypes accept.
+ */
+export type DatatypeCategory = 'integer' | 'decimal' | 'float' | 'boolean' | 'text';
+
+const INTEGER_TYPES = ['integer', 'int', 'long', 'short', 'byte', 'nonNegativeInteger', 'positiveInteger', 'nonPositiveInteger',
+    'negativeInteger', 'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte'];
+
+/**
+ * Return the category of a built-in datatype IRI, or `undefined` for datatypes that accept any
+ * literal (e.g. `rdfs:Literal`) or are unknown.
+ */
+export function getDatatypeCategory(datatype: string): DatatypeCategory | undefined {
+    if (datatype.startsWith(XSD)) {
+        const name = datatype.substring(XSD.length);
+        return INTEGER_TYPES.includes(name) ? 'integer'
+            : name === 'decimal' ? 'decimal'
+            : name === 'double' || name === 'float' ? 'float'
+            : name === 'boolean' ? 'boolean'
+            : 'text';
+    }
+    if (datatype === `${OWL}real` || datatype === `${OWL}rational`) {
+        return 'float';
+    }
+    if (datatype === `${RDF}langString` || datatype === `${RDF}PlainLiteral` || datatype === `${RDF}XMLLiteral`) {
+        return 'text';
+    }
+    return undefined;
+}
+
+/**
+ * Whether a value of the first category is a valid value of the second one, e.g. an integer is a
+ * valid decimal but a decimal is not a valid integer.
+ */
+export function isCategoryCompatible(value: DatatypeCategory, range: DatatypeCategory): boolean {
+    switch (range) {
+        case 'float': return value === 'integer' || value === 'decimal' || value === 'float';
+        case 'decimal': return value === 'integer' || value === 'decimal';
+        default: return value === range;
+    }
+}
+
+/**
+ * Return the IRI of the built-in datatype a scalar reference ultimately specializes, walking the
+ * specializations and equivalences of the (resolved) scalars. References to built-in datatypes
+ * are recognized by their IRI, so the XSD vocabulary does not have to be loaded.
+ */
+export function getBuiltInDatatype(scalar: Reference<AstNode> | undefined, context: AstNode, hierarchy: OmlHierarchy): string | undefined {
+    const visited = new Set<AstNode>();
+    const pending: Array<[Reference<AstNode>, AstNode]> = scalar ? [[scalar, context]] : [];
+    while (pending.length > 0) {
+        const [reference, referenceContext] = pending.shift()!;
+        const iri = getReferenceIri(reference, referenceContext);
+        if (iri && getDatatypeCategory(iri) !== undefined) {
+            return iri;
+        }
+        const target = reference.ref;
+        if (target && !visited.has(target)) {
+            visited.add(target);
+            for (const declaration of hierarchy.getRedeclarations(target)) {
+                const declaredIri = getDeclaredIri(declaration);
+                if (declaredIri && getDatatypeCategory(declaredIri) !== undefined) {
+                    return declaredIri;
+                }
+            }
+            hierarchy.getSuperReferences(target).forEach(r => pending.push([r, r.$refNode?.astNode ?? target]));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Return the built-in datatype of a literal: the one implied by its syntax, or the datatype
+ * of the scalar given with `^^`.
+ */
+export function getLiteralDatatype(literal: Literal, hierarchy: OmlHierarchy): string | undefined {
+    if (isIntegerLiteral(literal)) {
+        return `${XSD}integer`;
+    } else if (isDecimalLiteral(literal)) {
+        return `${XSD}decimal`;
+    } else if (isDoubleLiteral(literal)) {
+        return `${XSD}double`;
+    } else if (isBooleanLiteral(literal)) {
+        return `${XSD}boolean`;
+    } else if (isQuotedLiteral(literal)) {
+        return literal.type ? getBuiltInDatatype(literal.type, literal, hierarchy)
+            : literal.langTag ? `${RDF}langString`
+            : `${XSD}string`;
+    }
+    return undefined;
+}
+
+/**
+ * Return the text of a literal as written in OML, e.g. `"a"^^xsd:string` or `1.5`.
+ */
+export function getLiteralText(literal: Literal): string {
+    if (isQuotedLiteral(literal)) {
+        const quoted = JSON.stringify(literal.value);
+        return literal.type ? `${quoted}^^${literal.type.$refText}` : literal.langTag ? `${quoted}$${literal.langTag}` : quoted;
+    }
+    return literal.$cstNode?.text ?? String(literal.value);
+}
+
+/**
+ * The facets and enumerations a scalar accumulates from itself and the scalars it specializes.
+ */
+export type ScalarFacets = {
+    equivalences: ScalarEquivalenceAxiom[];
+    enumerations: LiteralEnumerationAxiom[];
+};
+
+/**
+ * Collect the facets and enumerations of a scalar reference by walking its specializations and
+ * equivalences down to the built-in datatypes.
+ */
+export function getScalarFacets(scalar: Reference<AstNode> | undefined, hierarchy: OmlHierarchy): ScalarFacets {
+    const facets: ScalarFacets = { equivalences: [], enumerations: [] };
+    if (!scalar?.ref) {
+        return facets;
+    }
+    for (const term of hierarchy.getSuperTerms(scalar.ref)) {
+        for (const declaration of hierarchy.getRedeclarations(term)) {
+            if (isScalar(declaration)) {
+                facets.equivalences.push(...declaration.ownedEquivalences);
+                if (declaration.ownedEnumeration) {
+                    facets.enumerations.push(declaration.ownedEnumeration);
+                }
+            }
+        }
+    }
+    return facets;
+}
+
+/**
+ * Return the value of a literal: numbers for numeric literals (including quoted literals with a
+ * numeric `^^` datatype), booleans for boolean literals, and the lexical form otherwise.
+ */
+export function getLiteralValue(literal: Literal, hierarchy: OmlHierarchy): string | number | boolean {
+    if (isQuotedLiteral(literal)) {
+        const datatype = getLiteralDatatype(literal, hierarchy);
+        const category = datatype && getDatatypeCategory(datatype);
+        const number = Number(literal.value);
+        if ((category === 'integer' || category === 'decimal' || category === 'float') && literal.value.trim() !== '' && !isNaN(number)) {
+            return number;
+        }
+        return category === 'boolean' && (literal.value === 'true' || literal.value === 'false') ? literal.value === 'true' : literal.value;
+    }
+    return literal.value;
+}
+
+/**
+ * Return the violations of the given facets and enumerations by a literal, e.g.
+ * `is shorter than the minLength 3`.
+ */
+export function getFacetViolations(literal: Literal, facets: ScalarFacets, hierarchy: OmlHierarchy): string[] {
+    const violations: string[] = [];
+    const value = getLiteralValue(literal, hierarchy);
+    const text = isQuotedLiteral(literal) ? literal.value : String(value);
+    const bound = (facet: Literal, compare: (v: number, b: number) => boolean, message: string) => {
+        const limit = getLiteralValue(facet, hierarchy);
+        if (typeof value === 'number' && typeof limit === 'number' && !compare(value, limit)) {
+            violations.push(`${message} ${getLiteralText(facet)}`);
+        }
+    };
+    for (const axiom of facets.equivalences) {
+        axiom.length.filter(l => text.length !== l).forEach(l => violations.push(`does not have the length ${l}`));
+        axiom.minLength.filter(l => text.length < l).forEach(l => violations.push(`is shorter than the minLength ${l}`));
+        axiom.maxLength.filter(l => text.length > l).forEach(l => violations.push(`is longer than the maxLength ${l}`));
+        for (const pattern of axiom.pattern) {
+            const regex = compilePattern(pattern);
+            if (regex && !regex.test(text)) {
+                violations.push(`does not match the pattern ${JSON.stringify(pattern)}`);
+            }
+        }
+        for (const language of axiom.language) {
+            const langTag = isQuotedLiteral(literal) ? literal.langTag : undefined;
+            if (langTag?.toLowerCase() !== language.toLowerCase()) {
+                violations.push(`does not have the language ${language}`);
+            }
+        }
+        axiom.minInclusive.forEach(f => bound(f, (v, b) => v >= b, 'is less than the minInclusive'));
+        axiom.minExclusive.forEach(f => bound(f, (v, b) => v > b, 'is not greater than the minExclusive'));
+        axiom.maxInclusive.forEach(f => bound(f, (v, b) => v <= b, 'is greater than the maxInclusive'));
+        axiom.maxExclusive.forEach(f => bound(f, (v, b) => v < b, 'is not less than the maxExclusive'));
+    }
+    for (const enumeration of facets.enumerations) {
+        if (!enumeration.literals.some(l => getLiteralValue(l, hierarchy) === value)) {
+            violations.push(`is not one of ${enumeration.literals.map(getLiteralText).join(', ')}`);
+        }
+    }
+    return violations;
+}
+
+/**
+ * Compile an XSD pattern, which always matches the whole value, to a regular expression.
+ * Returns `undefined` if the pattern is not a valid regular expression.
+ */
+export function compilePattern(pattern: string): RegExp | undefined {
+    try {
+        return new RegExp(`^(?:${pattern})$`, 'u');
+    } catch {
+        return undefined;
+    }
+}
@@ -1,7 +1,17 @@
-import { type Module, inject } from 'langium';
+import { type DeepPartial, type Module, inject } from 'langium';
 import { createDefaultModule, createDefaultSharedModule, type DefaultSharedModuleContext, type LangiumServices, type LangiumSharedServices, type PartialLangiumServices } from 'langium/lsp';
 import { OmlGeneratedModule, OmlGeneratedSharedModule } from './generated/module.js';
 import { OmlValidator, registerValidationChecks } from './oml-validator.js';
+import { OmlScopeComputation, OmlScopeProvider } from './oml-scope.js';
+import { OmlCatalogProvider } from './oml-catalog.js';
+import { OmlDocumentUpdateHandler, OmlWorkspaceManager } from './oml-workspace.js';
+import { OmlBundleResolver } from './oml-bundles.js';
+import { OmlReasoningProvider } from './oml-reasoner.js';
+import { OmlCompletionProvider } from './oml-completion.js';
+import { OmlFormatter } from './oml-formatter.js';
+import { OmlCodeActionProvider } from './oml-code-actions.js';
+import { OmlHoverProvider } from './oml-hover.js';
+import { OmlRenameProvider } from './oml-rename.js';
 
 /**
  * Declaration of custom services - add your own service classes here.
@@ -16,7 +26,39 @@ export type OmlAddedServices = {
  * Union of Langium default services and your custom services - use this as constructor parameter
  * of custom service classes.
  */
-export type OmlServices = LangiumServices & OmlAddedServices
+export type OmlServices = LangiumServices & OmlAddedServices & { shared: OmlSharedServices }
+
+/**
+ * Declaration of custom shared services, i.e. services that are used by all languages.
+ */
+export type OmlAddedSharedServices = {
+    workspace: {
+        CatalogProvider: OmlCatalogProvider,
+        BundleResolver: OmlBundleResolver,
+        ReasoningProvider: OmlReasoningProvider
+    }
+}
+
+/**
+ * Union of Langium default shared services and the custom shared services.
+ */
+export type OmlSharedServices = LangiumSharedServices & OmlAddedSharedServices
+
+/**
+ * Dependency injection module that overrides Langium default shared services and contributes
+ * the declared custom shared services.
+ */
+export const OmlSharedModule: Module<OmlSharedServices, DeepPartial<LangiumSharedServices> & OmlAddedSharedServices> = {
+    lsp: {
+        DocumentUpdateHandler: (services) => new OmlDocumentUpdateHandler(services)
+    },
+    workspace: {
+        CatalogProvider: (services) => new OmlCatalogProvider(services),
+        BundleResolver: (services) => new OmlBundleResolver(services),
+        ReasoningProvider: (services) => new OmlReasoningProvider(services),
+        WorkspaceManager: (services) => new OmlWorkspaceManager(services)
+    }
+};
 
 /**
  * Dependency injection module that overrides Langium default services and contributes the
@@ -24,17 +66,29 @@ export type OmlServices = LangiumServices & OmlAddedServices
  * selected services, while the custom services must be fully specified.
  */
 export const OmlModule: Module<OmlServices, PartialLangiumServices & OmlAddedServices> = {
+    lsp: {
+        CodeActionProvider: (services) => new OmlCodeActionProvider(services),
+        CompletionProvider: (services) => new OmlCompletionProvider(services),
+        Formatter: () => new OmlFormatter(),
+        HoverProvider: (services) => new OmlHoverProvider(services),
+        RenameProvider: (services) => new OmlRenameProvider(services)
+    },
+    references: {
+        ScopeComputation: (services) => new OmlScopeComputation(services),
+        ScopeProvider: (services) => new OmlScopeProvider(services)
+    },
     validation: {
-        OmlValidator: () => new OmlValidator()
+        OmlValidator: (services) => new OmlValidator(services)
     }
 };
 
 /**
  * Create the full set of services required by Langium.
  *
- * First inject the shared services by merging two modules:
+ * First inject the shared services by merging three modules:
  *  - Langium default shared services
  *  - Services generated by langium-cli
+ *  - Shared services specified in this file
  *
  * Then inject the language-specific services by merging three modules:
  *  - Langium default language-specific services
@@ -45,12 +99,13 @@ export const OmlModule: Module<OmlServices, PartialLangiumServices & OmlAddedSer
  * @returns An object wrapping the shared services and the language-specific services
  */
 export function createOmlServices(context: DefaultSharedModuleContext): {
-    shared: LangiumSharedServices,
+    shared: OmlSharedServices,
     Oml: OmlServices
 } {
     const shared = inject(
         createDefaultSharedModule(context),
-        OmlGeneratedSharedModule
+        OmlGeneratedSharedModule,
+        OmlSharedModule
     );
     const Oml = inject(
         createDefaultModule({ shared }),
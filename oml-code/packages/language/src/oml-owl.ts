@@ -0,0 +1,441 @@
+import type { AstNode, Reference } from 'langium';
+import type {
+    AnonymousInstance,
+    Annotation,
+    Entity,
+    Literal,
+    Ontology,
+    PropertyRestrictionAxiom,
+    PropertyValueAssertion,
+    RelationEntity,
+    UnreifiedRelation
+} from './generated/ast.js';
+import {
+    isAnnotationProperty,
+    isAnonymousConceptInstance,
+    isAspect,
+    isBooleanLiteral,
+    isConcept,
+    isConceptInstance,
+    isDecimalLiteral,
+    isDescription,
+    isDoubleLiteral,
+    isIntegerLiteral,
+    isPropertyCardinalityRestrictionAxiom,
+    isPropertyRangeRestrictionAxiom,
+    isPropertySelfRestrictionAxiom,
+    isPropertyValueRestrictionAxiom,
+    isRelationEntity,
+    isRelationInstance,
+    isScalar,
+    isScalarProperty,
+    isUnreifiedRelation,
+    isVocabulary
+} from './generated/ast.js';
+import { OML } from './oml-reasoner.js';
+import { getDeclaredIri, getImportedNamespace, getMemberIri, getNamespaceIri, getOntologyIri, getReferenceIri } from './oml-utils.js';
+
+const STANDARD_PREFIXES: Array<[string, string]> = [
+    ['owl', 'http://www.w3.org/2002/07/owl#'],
+    ['rdf', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#'],
+    ['rdfs', 'http://www.w3.org/2000/01/rdf-schema#'],
+    ['xsd', 'http://www.w3.org/2001/XMLSchema#']
+];
+
+/**
+ * Serialize an ontology to OWL 2 in Turtle syntax, following the mapping of the `oml2owl` tool:
+ * aspects, concepts and relation entities become classes (relation entities with object
+ * properties to their sources and targets), relations object properties, scalar properties
+ * datatype properties, restriction axioms OWL restrictions and instances named individuals.
+ * Rules and built-ins have no OWL counterpart and are skipped.
+ */
+export function ontologyToTurtle(model: Ontology): string {
+    const writer = new TurtleWriter();
+    for (const [prefix, namespace] of STANDARD_PREFIXES) {
+        writer.prefix(prefix, namespace);
+    }
+    writer.prefix(model.prefix, getNamespaceIri(model));
+    for (const imp of model.ownedImports ?? []) {
+        if (imp.prefix) {
+            writer.prefix(imp.prefix, getImportedNamespace(imp));
+        }
+    }
+
+    const ontologyIri = getOntologyIri(getNamespaceIri(model));
+    writer.add(ontologyIri, 'a', 'owl:Ontology');
+    for (const imp of model.ownedImports ?? []) {
+        writer.add(ontologyIri, 'owl:imports', writer.iri(getOntologyIri(getImportedNamespace(imp))));
+    }
+    addAnnotations(writer, ontologyIri, model.ownedAnnotations);
+
+    if (isVocabulary(model)) {
+        for (const statement of model.ownedStatements) {
+            addVocabularyStatement(writer, statement);
+        }
+    } else if (isDescription(model)) {
+        for (const statement of model.ownedStatements) {
+            addInstance(writer, statement);
+        }
+    }
+    return writer.toString();
+}
+
+function addVocabularyStatement(writer: TurtleWriter, statement: AstNode): void {
+    const iri = getDeclaredIri(statement);
+    if (!iri) {
+        return;
+    }
+    const declared = typeof (statement as { name?: unknown }).name === 'string';
+    addAnnotations(writer, iri, (statement as { ownedAnnotations?: Annotation[] }).ownedAnnotations);
+
+    if (isAspect(statement) || isConcept(statement) || isRelationEntity(statement)) {
+        if (declared) {
+            writer.add(iri, 'a', 'owl:Class');
+        }
+        addEntityAxioms(writer, iri, statement);
+        if (isConcept(statement) && statement.ownedEnumeration) {
+            const instances = statement.ownedEnumeration.instances.map(i => iriOf(writer, i, statement));
+            writer.add(iri, 'owl:equivalentClass', `[ a owl:Class ; owl:oneOf ${list(instances)} ]`);
+        }
+        if (isRelationEntity(statement)) {
+            addRelation(writer, statement);
+        }
+    } else if (isScalar(statement)) {
+        if (declared) {
+            writer.add(iri, 'a', 'rdfs:Datatype');
+        }
+        for (const specialization of statement.ownedSpecializations) {
+            writer.add(iri, 'rdfs:subClassOf', iriOf(writer, specialization.superTerm, statement));
+        }
+        if (statement.ownedEnumeration) {
+            const literals = statement.ownedEnumeration.literals.map(l => literal(writer, l));
+            writer.add(iri, 'owl:equivalentClass', `[ a rdfs:Datatype ; owl:oneOf ${list(literals)} ]`);
+        }
+        for (const equivalence of statement.ownedEquivalences) {
+            const facets: string[] = [];
+            const facet = (name: string, values: Array<string | number | Literal>) => {
+                for (const value of values) {
+                    const object = typeof value === 'object' ? literal(writer, value)
+                        : typeof value === 'number' ? `"${value}"^^xsd:nonNegativeInteger`
+                        : JSON.stringify(value);
+                    facets.push(`[ xsd:${name} ${object} ]`);
+                }
+            };
+            facet('length', equivalence.length);
+            facet('minLength', equivalence.minLength);
+            facet('maxLength', equivalence.maxLength);
+            facet('pattern', equivalence.pattern);
+            facet('langRange', equivalence.language);
+            facet('minInclusive', equivalence.minInclusive);
+            facet('minExclusive', equivalence.minExclusive);
+            facet('maxInclusive', equivalence.maxInclusive);
+            facet('maxExclusive', equivalence.maxExclusive);
+            const superScalar = iriOf(writer, equivalence.superScalar, statement);
+            writer.add(iri, 'owl:equivalentClass', facets.length > 0
+                ? `[ a rdfs:Datatype ; owl:onDatatype ${superScalar} ; owl:withRestrictions ${list(facets)} ]`
+                : superScalar);
+        }
+    } else if (isAnnotationProperty(statement) || isScalarProperty(statement) || isUnreifiedRelation(statement)) {
+        if (declared) {
+            writer.add(iri, 'a', isAnnotationProperty(statement) ? 'owl:AnnotationProperty'
+                : isScalarProperty(statement) ? 'owl:DatatypeProperty'
+                : 'owl:ObjectProperty');
+        }
+        for (const specialization of statement.ownedSpecializations) {
+            writer.add(iri, 'rdfs:subPropertyOf', iriOf(writer, specialization.superTerm, statement));
+        }
+        for (const equivalence of statement.ownedEquivalences) {
+            writer.add(iri, 'owl:equivalentProperty', iriOf(writer, equivalence.superProperty, statement));
+        }
+        if (isScalarProperty(statement)) {
+            statement.domains.forEach(d => writer.add(iri, 'rdfs:domain', iriOf(writer, d, statement)));
+            statement.ranges.forEach(r => writer.add(iri, 'rdfs:range', iriOf(writer, r, statement)));
+            if (statement.functional) {
+                writer.add(iri, 'a', 'owl:FunctionalProperty');
+            }
+        } else if (isUnreifiedRelation(statement)) {
+            addRelation(writer, statement);
+        }
+    }
+}
+
+function addEntityAxioms(writer: TurtleWriter, iri: string, entity: Entity): void {
+    for (const specialization of entity.ownedSpecializations) {
+        writer.add(iri, 'rdfs:subClassOf', iriOf(writer, specialization.superTerm, entity));
+    }
+    for (const restriction of entity.ownedPropertyRestrictions) {
+        writer.add(iri, 'rdfs:subClassOf', restrictionOf(writer, restriction));
+    }
+    for (const equivalence of entity.ownedEquivalences) {
+        const operands = [
+            ...equivalence.superEntities.map(e => iriOf(writer, e, entity)),
+            ...equivalence.ownedPropertyRestrictions.map(r => restrictionOf(writer, r))
+        ];
+        writer.add(iri, 'owl:equivalentClass', operands.length === 1 ? operands[0] : `[ a owl:Class ; owl:intersectionOf ${list(operands)} ]`);
+    }
+    for (const key of entity.ownedKeys) {
+        writer.add(iri, 'owl:hasKey', list(key.properties.map(p => iriOf(writer, p, entity))));
+    }
+}
+
+/**
+ * Emit the object properties of a relation: for relation entities the forward relation carries
+ * the domain, range and characteristics, for unreified relations the relation itself does.
+ * A reverse relation becomes the inverse of the forward property.
+ */
+function addRelation(writer: TurtleWriter, relation: RelationEntity | UnreifiedRelation): void {
+    if (isRelationEntity(relation)) {
+        addRelationEntityProperty(writer, relation, 'Source', relation.sources);
+        addRelationEntityProperty(writer, relation, 'Target', relation.targets);
+    }
+    const forward = isRelationEntity(relation)
+        ? relation.forwardRelation && getMemberIri(relation.forwardRelation)
+        : getDeclaredIri(relation);
+    if (forward && isRelationEntity(relation) && relation.forwardRelation) {
+        writer.add(forward, 'a', 'owl:ObjectProperty');
+        addAnnotations(writer, forward, relation.forwardRelation.ownedAnnotations);
+    }
+    if (forward) {
+        relation.sources.forEach(s => writer.add(forward, 'rdfs:domain', iriOf(writer, s, relation)));
+        relation.targets.forEach(t => writer.add(forward, 'rdfs:range', iriOf(writer, t, relation)));
+        const characteristics: Array<[boolean, string]> = [
+            [relation.functional, 'owl:FunctionalProperty'],
+            [relation.inverseFunctional, 'owl:InverseFunctionalProperty'],
+            [relation.symmetric, 'owl:SymmetricProperty'],
+            [relation.asymmetric, 'owl:AsymmetricProperty'],
+            [relation.reflexive, 'owl:ReflexiveProperty'],
+            [relation.irreflexive, 'owl:IrreflexiveProperty'],
+            [relation.transitive, 'owl:TransitiveProperty']
+        ];
+        for (const [enabled, type] of characteristics) {
+            if (enabled) {
+                writer.add(forward, 'a', type);
+            }
+        }
+    }
+    const reverse = relation.reverseRelation && getMemberIri(relation.reverseRelation);
+    if (reverse && relation.reverseRelation) {
+        writer.add(reverse, 'a', 'owl:ObjectProperty');
+        addAnnotations(writer, reverse, relation.reverseRelation.ownedAnnotations);
+        if (forward) {
+            writer.add(reverse, 'owl:inverseOf', writer.iri(forward));
+        }
+    }
+}
+
+/**
+ * Emit the functional object property relating the instances of a relation entity to their
+ * sources or targets, e.g. `hasHasWheelSource`, as a sub property of `oml:hasSource` or
+ * `oml:hasTarget`.
+ */
+function addRelationEntityProperty(writer: TurtleWriter, relation: RelationEntity, end: 'Source' | 'Target', types: Array<Reference<Entity>>): void {
+    const iri = getDeclaredIri(relation);
+    if (!iri) {
+        return;
+    }
+    const property = getRelationEntityPropertyIri(iri, end);
+    if (typeof relation.name === 'string') {
+        writer.add(property, 'a', 'owl:ObjectProperty');
+        writer.add(property, 'a', 'owl:FunctionalProperty');
+        writer.add(property, 'rdfs:subPropertyOf', writer.iri(`${OML}has${end}`));
+        writer.add(property, 'rdfs:domain', writer.iri(iri));
+    }
+    types.forEach(t => writer.add(property, 'rdfs:range', iriOf(writer, t, relation)));
+}
+
+function getRelationEntityPropertyIri(iri: string, end: 'Source' | 'Target'): string {
+    const separator = Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1;
+    const name = iri.substring(separator);
+    return `${iri.substring(0, separator)}has${name.charAt(0).toUpperCase()}${name.substring(1)}${end}`;
+}
+
+function restrictionOf(writer: TurtleWriter, restriction: PropertyRestrictionAxiom): string {
+    const property = iriOf(writer, restriction.property, restriction);
+    const parts = ['a owl:Restriction', `owl:onProperty ${property}`];
+    if (isPropertyRangeRestrictionAxiom(restriction)) {
+        const range = iriOf(writer, restriction.range, restriction);
+        parts.push(`${restriction.kind === 'all' ? 'owl:allValuesFrom' : 'owl:someValuesFrom'} ${range}`);
+    } else if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+        const cardinality = `"${restriction.cardinality}"^^xsd:nonNegativeInteger`;
+        const kind = restriction.kind === 'min' ? 'min' : restriction.kind === 'max' ? 'max' : '';
+        if (restriction.range) {
+            const qualified = kind ? `owl:${kind}QualifiedCardinality` : 'owl:qualifiedCardinality';
+            const onRange = isScalarProperty(restriction.property.ref) || isScalar(restriction.range.ref) ? 'owl:onDataRange' : 'owl:onClass';
+            parts.push(`${qualified} ${cardinality}`, `${onRange} ${iriOf(writer, restriction.range, restriction)}`);
+        } else {
+            parts.push(`${kind ? `owl:${kind}Cardinality` : 'owl:cardinality'} ${cardinality}`);
+        }
+    } else if (isPropertyValueRestrictionAxiom(restriction)) {
+        const value = restriction.literalValue ? literal(writer, restriction.literalValue)
+            : restriction.containedValue ? anonymousInstance(writer, restriction.containedValue)
+            : iriOf(writer, restriction.referencedValue, restriction);
+        parts.push(`owl:hasValue ${value}`);
+    } else if (isPropertySelfRestrictionAxiom(restriction)) {
+        parts.push('owl:hasSelf true');
+    }
+    return `[ ${parts.join(' ; ')} ]`;
+}
+
+function addInstance(writer: TurtleWriter, instance: AstNode): void {
+    if (!isConceptInstance(instance) && !isRelationInstance(instance)) {
+        return;
+    }
+    const iri = getDeclaredIri(instance);
+    if (!iri) {
+        return;
+    }
+    if (instance.name) {
+        writer.add(iri, 'a', 'owl:NamedIndividual');
+    }
+    addAnnotations(writer, iri, instance.ownedAnnotations);
+    for (const type of instance.ownedTypes) {
+        writer.add(iri, 'a', iriOf(writer, type.type, instance));
+    }
+    if (isRelationInstance(instance)) {
+        // Assert the sources and targets of each typing relation entity, and its forward relation
+        // between every source and target
+        for (const type of instance.ownedTypes) {
+            const relationEntity = type.type.ref;
+            const relationIri = isRelationEntity(relationEntity) ? getDeclaredIri(relationEntity) : undefined;
+            if (relationIri) {
+                instance.sources.forEach(s => writer.add(iri, writer.iri(getRelationEntityPropertyIri(relationIri, 'Source')), iriOf(writer, s, instance)));
+                instance.targets.forEach(t => writer.add(iri, writer.iri(getRelationEntityPropertyIri(relationIri, 'Target')), iriOf(writer, t, instance)));
+            }
+            const forward = isRelationEntity(relationEntity) && relationEntity.forwardRelation
+                ? getMemberIri(relationEntity.forwardRelation)
+                : undefined;
+            if (!forward) {
+                continue;
+            }
+            for (const source of instance.sources) {
+                const sourceIri = getReferenceIri(source, instance);
+                for (const target of instance.targets) {
+                    if (sourceIri) {
+                        writer.add(sourceIri, writer.iri(forward), iriOf(writer, target, instance));
+                    }
+                }
+            }
+        }
+    }
+    for (const assertion of instance.ownedPropertyValues) {
+        for (const [predicate, object] of propertyValues(writer, assertion)) {
+            writer.add(iri, predicate, object);
+        }
+    }
+}
+
+function propertyValues(writer: TurtleWriter, assertion: PropertyValueAssertion): Array<[string, string]> {
+    const predicate = iriOf(writer, assertion.property, assertion);
+    return [
+        ...assertion.literalValues.map(l => literal(writer, l)),
+        ...assertion.referencedValues.map(r => iriOf(writer, r, assertion)),
+        ...assertion.containedValues.map(c => anonymousInstance(writer, c))
+    ].map(object => [predicate, object]);
+}
+
+function anonymousInstance(writer: TurtleWriter, instance: AnonymousInstance): string {
+    if (!isAnonymousConceptInstance(instance)) {
+        // An anonymous relation instance stands for the link to its target
+        return iriOf(writer, instance.target, instance);
+    }
+    const parts: string[] = [];
+    if (instance.type) {
+        parts.push(`a ${iriOf(writer, instance.type, instance)}`);
+    }
+    for (const assertion of instance.ownedPropertyValues) {
+        for (const [predicate, object] of propertyValues(writer, assertion)) {
+            parts.push(`${predicate} ${object}`);
+        }
+    }
+    return parts.length > 0 ? `[ ${parts.join(' ; ')} ]` : '[]';
+}
+
+function addAnnotations(writer: TurtleWriter, subject: string, annotations: Annotation[] | undefined): void {
+    for (const annotation of annotations ?? []) {
+        const property = iriOf(writer, annotation.property, annotation);
+        for (const value of annotation.literalValues) {
+            writer.add(subject, property, literal(writer, value));
+        }
+        for (const value of annotation.referencedValues) {
+            writer.add(subject, property, iriOf(writer, value, annotation));
+        }
+    }
+}
+
+function literal(writer: TurtleWriter, value: Literal): string {
+    if (isIntegerLiteral(value)) {
+        return String(value.value);
+    } else if (isDecimalLiteral(value)) {
+        return `"${value.value}"^^xsd:decimal`;
+    } else if (isDoubleLiteral(value)) {
+        return `"${value.value}"^^xsd:double`;
+    } else if (isBooleanLiteral(value)) {
+        return value.value ? 'true' : 'false';
+    }
+    const text = JSON.stringify(value.value ?? '');
+    if (value.type) {
+        return `${text}^^${iriOf(writer, value.type, value)}`;
+    }
+    return value.langTag ? `${text}@${value.langTag}` : text;
+}
+
+function iriOf(writer: TurtleWriter, reference: Reference | undefined, context: AstNode): string {
+    const iri = getReferenceIri(reference, context);
+    return iri ? writer.iri(iri) : `<${reference?.$refText ?? ''}>`;
+}
+
+function list(items: string[]): string {
+    return `( ${items.join(' ')} )`;
+}
+
+/**
+ * Minimal Turtle serializer grouping predicate/object pairs by subject and abbreviating IRIs
+ * with the declared prefixes.
+ */
+class TurtleWriter {
+
+    private readonly prefixes = new Map<string, string>();
+    private readonly subjects = new Map<string, Array<[string, string]>>();
+
+    prefix(prefix: string | undefined, namespace: string): void {
+        if (prefix && namespace && !this.prefixes.has(prefix)) {
+            this.prefixes.set(prefix, namespace);
+        }
+    }
+
+    iri(iri: string): string {
+        for (const [prefix, namespace] of this.prefixes) {
+            if (iri.startsWith(namespace)) {
+                const local = iri.substring(namespace.length);
+                if (/^[A-Za-z_][\w-]*$/.test(local)) {
+                    return `${prefix}:${local}`;
+                }
+            }
+        }
+        return `<${iri}>`;
+    }
+
+    add(subject: string, predicate: string, object: string): void {
+        const pairs = this.subjects.get(subject) ?? [];
+        if (!pairs.some(([p, o]) => p === predicate && o === object)) {
+            pairs.push([predicate, object]);
+        }
+        this.subjects.set(subject, pairs);
+    }
+
+    toString(): string {
+        const lines: string[] = [];
+        for (const [prefix, namespace] of this.prefixes) {
+            lines.push(`@prefix ${prefix}: <${namespace}> .`);
+        }
+        for (const [subject, pairs] of this.subjects) {
+            lines.push('', this.iri(subject));
+            pairs.forEach(([predicate, object], index) => {
+                lines.push(`    ${predicate} ${object}${index === pairs.length - 1 ? ' .' : ' ;'}`);
+            });
+        }
+        lines.push('');
+        return lines.join('\n');
+    }
+
+}
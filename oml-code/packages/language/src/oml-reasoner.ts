@@ -0,0 +1,719 @@
+import { AstUtils, WorkspaceCache, type AstNode, type LangiumSharedCoreServices } from 'langium';
+import type { Argument, BuiltInPredicate, Literal, Ontology, Predicate, PropertyValueAssertion, Rule } from './generated/ast.js';
+import {
+    isAnonymousConceptInstance,
+    isAnonymousRelationInstance,
+    isBooleanLiteral,
+    isBuiltInPredicate,
+    isConcept,
+    isConceptInstance,
+    isDecimalLiteral,
+    isDescription,
+    isDifferentFromPredicate,
+    isDoubleLiteral,
+    isForwardRelation,
+    isIntegerLiteral,
+    isPropertyPredicate,
+    isRelationEntity,
+    isRelationEntityPredicate,
+    isRelationInstance,
+    isReverseRelation,
+    isRule,
+    isSameAsPredicate,
+    isScalarProperty,
+    isTypePredicate,
+    isUnreifiedRelation
+} from './generated/ast.js';
+import { getDeclaration, OmlHierarchy } from './oml-hierarchy.js';
+import { OWL, RDF, XSD } from './oml-literals.js';
+import { abbreviateIri, getDeclaredIri, getMemberIri, getReferenceIri } from './oml-utils.js';
+
+export const OML = 'http://opencaesar.io/oml#';
+export const SWRLB = 'http://www.w3.org/2003/11/swrlb#';
+
+/**
+ * A literal value in its lexical form, e.g. `{ value: '42', datatype: xsd:integer }`.
+ */
+export type LiteralTerm = { value: string; datatype: string; language?: string };
+
+/**
+ * The object of a property value: the IRI of an instance (or the `_:` id of an anonymous
+ * instance) or a literal.
+ */
+export type ObjectTerm = string | LiteralTerm;
+
+export type Inconsistency = {
+    message: string;
+    code: string;
+    subject: string;
+    // The two types of a `disjoint-types` inconsistency
+    types?: [string, string];
+};
+
+/**
+ * Codes of the inconsistencies found by the reasoner, reported as diagnostics by the validator.
+ */
+export const OmlInconsistencyCodes = {
+    DisjointTypes: 'disjoint-types',
+    IrreflexiveRelation: 'irreflexive-relation',
+    AsymmetricRelation: 'asymmetric-relation'
+} as const;
+
+/**
+ * The comparison and string builtins (from SWRL) that rules can use.
+ */
+export const SUPPORTED_BUILTINS: Record<string, (...args: LiteralTerm[]) => boolean> = {
+    equal: (a, b) => compareTerms(a, b) === 0,
+    notEqual: (a, b) => compareTerms(a, b) !== 0,
+    lessThan: (a, b) => compareTerms(a, b) < 0,
+    lessThanOrEqual: (a, b) => compareTerms(a, b) <= 0,
+    greaterThan: (a, b) => compareTerms(a, b) > 0,
+    greaterThanOrEqual: (a, b) => compareTerms(a, b) >= 0,
+    startsWith: (a, b) => a.value.startsWith(b.value),
+    endsWith: (a, b) => a.value.endsWith(b.value),
+    contains: (a, b) => a.value.includes(b.value),
+    containsIgnoreCase: (a, b) => a.value.toLowerCase().includes(b.value.toLowerCase()),
+    matches: (a, b) => { try { return new RegExp(b.value, 'u').test(a.value); } catch { return false; } }
+};
+
+/**
+ * Return the key identifying an object term in sets of values.
+ */
+export function getTermKey(term: ObjectTerm): string {
+    return typeof term === 'string' ? term : JSON.stringify([term.value, term.datatype, term.language ?? '']);
+}
+
+/**
+ * Return the arguments of a predicate in the order of the relation they state, i.e. the source,
+ * relation instance and target of a relation entity predicate.
+ */
+export function getPredicateArguments(predicate: Predicate): Argument[] {
+    if (isTypePredicate(predicate)) {
+        return [predicate.argument];
+    } else if (isRelationEntityPredicate(predicate)) {
+        return [predicate.argument1, predicate.argument, predicate.argument2];
+    } else if (isBuiltInPredicate(predicate)) {
+        return predicate.arguments;
+    }
+    return [predicate.argument1, predicate.argument2];
+}
+
+/**
+ * Return the local name of the builtin a predicate calls, e.g. `lessThan` for `swrlb:lessThan`.
+ */
+export function getBuiltInName(predicate: BuiltInPredicate): string {
+    const iri = getReferenceIri(predicate.builtIn, predicate) ?? predicate.builtIn.$refText;
+    return iri.substring(Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/'), iri.lastIndexOf(':')) + 1);
+}
+
+/**
+ * Return the implementation of the builtin a predicate calls, or `undefined` if it is not one
+ * of the `SUPPORTED_BUILTINS`.
+ */
+export function getSupportedBuiltIn(predicate: BuiltInPredicate): ((...args: LiteralTerm[]) => boolean) | undefined {
+    const name = getBuiltInName(predicate);
+    return Object.prototype.hasOwnProperty.call(SUPPORTED_BUILTINS, name) ? SUPPORTED_BUILTINS[name] : undefined;
+}
+
+/**
+ * Convert an OML literal to a literal term. Quoted literals typed with `^^` keep the IRI of
+ * their (possibly user-defined) scalar as datatype.
+ */
+export function toLiteralTerm(literal: Literal): LiteralTerm {
+    if (isIntegerLiteral(literal)) {
+        return { value: literal.$cstNode?.text ?? String(literal.value), datatype: `${XSD}integer` };
+    } else if (isDecimalLiteral(literal)) {
+        return { value: literal.$cstNode?.text ?? String(literal.value), datatype: `${XSD}decimal` };
+    } else if (isDoubleLiteral(literal)) {
+        return { value: literal.$cstNode?.text ?? String(literal.value), datatype: `${XSD}double` };
+    } else if (isBooleanLiteral(literal)) {
+        return { value: String(literal.value), datatype: `${XSD}boolean` };
+    }
+    if (literal.type) {
+        return { value: literal.value, datatype: getReferenceIri(literal.type, literal) ?? `${XSD}string` };
+    }
+    return literal.langTag ? { value: literal.value, datatype: `${RDF}langString`, language: literal.langTag } : { value: literal.value, datatype: `${XSD}string` };
+}
+
+/**
+ * A set of type and property value facts about instances, identified by IRIs.
+ */
+export class OmlFacts {
+
+    protected readonly types = new Map<string, Set<string>>();
+    protected readonly values = new Map<string, Map<string, Map<string, ObjectTerm>>>();
+
+    addType(subject: string, type: string): boolean {
+        let types = this.types.get(subject);
+        if (!types) {
+            types = new Set();
+            this.types.set(subject, types);
+        }
+        if (types.has(type)) {
+            return false;
+        }
+        types.add(type);
+        return true;
+    }
+
+    addValue(subject: string, property: string, object: ObjectTerm): boolean {
+        let properties = this.values.get(subject);
+        if (!properties) {
+            properties = new Map();
+            this.values.set(subject, properties);
+        }
+        let objects = properties.get(property);
+        if (!objects) {
+            objects = new Map();
+            properties.set(property, objects);
+        }
+        const key = getTermKey(object);
+        if (objects.has(key)) {
+            return false;
+        }
+        objects.set(key, object);
+        return true;
+    }
+
+    hasType(subject: string, type: string): boolean {
+        return this.types.get(subject)?.has(type) ?? false;
+    }
+
+    hasValue(subject: string, property: string, object: ObjectTerm): boolean {
+        return this.values.get(subject)?.get(property)?.has(getTermKey(object)) ?? false;
+    }
+
+    getTypes(subject: string): string[] {
+        return [...this.types.get(subject) ?? []];
+    }
+
+    getValues(subject: string, property: string): ObjectTerm[] {
+        return [...this.values.get(subject)?.get(property)?.values() ?? []];
+    }
+
+    getProperties(subject: string): string[] {
+        return [...this.values.get(subject)?.keys() ?? []];
+    }
+
+    getSubjects(): string[] {
+        return [...new Set([...this.types.keys(), ...this.values.keys()])];
+    }
+
+    getSubjectsOfType(type: string): string[] {
+        return [...this.types].filter(([, types]) => types.has(type)).map(([subject]) => subject);
+    }
+
+    getSubjectsWithProperty(property: string): string[] {
+        return [...this.values].filter(([, properties]) => properties.has(property)).map(([subject]) => subject);
+    }
+
+    /**
+     * Return the facts that are not also facts of the other set, e.g. the entailed facts that
+     * were not asserted.
+     */
+    without(other: OmlFacts): OmlFacts {
+        const facts = new OmlFacts();
+        for (const subject of this.getSubjects()) {
+            this.getTypes(subject).filter(t => !other.hasType(subject, t)).forEach(t => facts.addType(subject, t));
+            for (const property of this.getProperties(subject)) {
+                this.getValues(subject, property).filter(o => !other.hasValue(subject, property, o)).forEach(o => facts.addValue(subject, property, o));
+            }
+        }
+        return facts;
+    }
+
+}
+
+export type ReasoningOptions = {
+    // Whether to apply the rules of the vocabularies (default true)
+    rules?: boolean;
+};
+
+/**
+ * The result of reasoning: all (asserted and entailed) facts, the asserted ones, and the
+ * inconsistencies found.
+ */
+export type ReasoningResult = {
+    facts: OmlFacts;
+    asserted: OmlFacts;
+    inconsistencies: Inconsistency[];
+};
+
+type RelationInfo = {
+    domains: string[];
+    ranges: string[];
+    inverse?: string;
+    symmetric: boolean;
+    transitive: boolean;
+    asymmetric: boolean;
+    irreflexive: boolean;
+};
+
+type Bindings = Map<string, ObjectTerm>;
+
+/**
+ * A forward-chaining reasoner for the OWL-lite subset that OML vocabularies express, applied to
+ * the instances of the descriptions in the import closure of an ontology. It entails
+ *  - the super types of instances, and types from the domains and ranges of their properties,
+ *  - the values of super properties, inverse (forward/reverse), symmetric and transitive relations,
+ *  - the relations between the sources and targets of relation instances,
+ *  - the consequents of the rules whose antecedents match,
+ * and reports instances of disjoint types (entities not related by specialization are disjoint
+ * unless they have a common specialization) and violated asymmetric and irreflexive relations.
+ */
+export class OmlReasoner {
+
+    readonly hierarchy: OmlHierarchy;
+    protected readonly ontology: Ontology;
+    protected readonly members = new Map<string, AstNode>();
+    protected readonly supersCache = new Map<string, Set<string>>();
+    protected readonly relationCache = new Map<string, RelationInfo | undefined>();
+    protected readonly subjectNodes = new Map<string, AstNode[]>();
+    protected anonymousCount = 0;
+
+    constructor(ontology: Ontology, hierarchy = new OmlHierarchy(ontology)) {
+        this.ontology = ontology;
+        this.hierarchy = hierarchy;
+        for (const root of hierarchy.ontologies) {
+            for (const node of AstUtils.streamAllContents(root)) {
+                const iri = getMemberIri(node);
+                if (iri && !this.members.has(iri)) {
+                    this.members.set(iri, node);
+                }
+            }
+        }
+    }
+
+    /**
+     * Return the rules declared in the vocabularies of the import closure.
+     */
+    getRules(): Rule[] {
+        return this.hierarchy.ontologies.flatMap(o => AstUtils.streamAllContents(o).filter(isRule).filter(r => r.antecedent.length > 0).toArray());
+    }
+
+    /**
+     * Return the node declaring the member with the given IRI, if it is loaded.
+     */
+    getMember(iri: string): AstNode | undefined {
+        return this.members.get(iri);
+    }
+
+    /**
+     * Return the nodes (named and anonymous instances) that assert facts about a subject.
+     */
+    getSubjectNodes(subject: string): AstNode[] {
+        return this.subjectNodes.get(subject) ?? [];
+    }
+
+    reason(options: ReasoningOptions = {}): ReasoningResult {
+        const asserted = new OmlFacts();
+        for (const root of this.hierarchy.ontologies.filter(isDescription)) {
+            for (const statement of root.ownedStatements) {
+                this.assertInstance(statement, asserted);
+            }
+        }
+        // Start from a copy of the asserted facts
+        const facts = asserted.without(new OmlFacts());
+        const rules = options.rules === false ? [] : this.getRules();
+        while (this.applyAxioms(facts) || rules.some(rule => this.applyRule(rule, facts))) {
+            // until no new facts are entailed
+        }
+        return { facts, asserted, inconsistencies: this.findInconsistencies(facts) };
+    }
+
+    /**
+     * Return the IRI of a term and all its super terms; terms that are not loaded only have
+     * themselves as super term.
+     */
+    getSuperTerms(iri: string): Set<string> {
+        let supers = this.supersCache.get(iri);
+        if (!supers) {
+            supers = new Set([iri]);
+            const member = this.members.get(iri);
+            if (member) {
+                for (const term of this.hierarchy.getSuperTerms(member)) {
+                    const termIri = getDeclaredIri(term);
+                    if (termIri) {
+                        supers.add(termIri);
+                    }
+                    for (const reference of this.hierarchy.getSuperReferences(term).filter(r => !r.ref)) {
+                        const referenceIri = getReferenceIri(reference, reference.$refNode?.astNode ?? term);
+                        if (referenceIri) {
+                            supers.add(referenceIri);
+                        }
+                    }
+                }
+            }
+            this.supersCache.set(iri, supers);
+        }
+        return supers;
+    }
+
+    protected assertInstance(node: AstNode, facts: OmlFacts): string | undefined {
+        const subject = isConceptInstance(node) || isRelationInstance(node) ? getDeclaredIri(node)
+            : isAnonymousConceptInstance(node) || isAnonymousRelationInstance(node) ? `_:b${this.anonymousCount++}`
+            : undefined;
+        if (!subject) {
+            return undefined;
+        }
+        this.subjectNodes.set(subject, [...this.getSubjectNodes(subject), node]);
+        if (isConceptInstance(node) || isRelationInstance(node)) {
+            node.ownedTypes.forEach(t => this.addIri(getReferenceIri(t.type, t), type => facts.addType(subject, type)));
+        }
+        if (isAnonymousConceptInstance(node) && node.type) {
+            this.addIri(getReferenceIri(node.type, node), type => facts.addType(subject, type));
+        }
+        if (isRelationInstance(node)) {
+            node.sources.forEach(s => this.addIri(getReferenceIri(s, node), source => facts.addValue(subject, `${OML}hasSource`, source)));
+            node.targets.forEach(t => this.addIri(getReferenceIri(t, node), target => facts.addValue(subject, `${OML}hasTarget`, target)));
+        }
+        if (isAnonymousRelationInstance(node)) {
+            this.addIri(getReferenceIri(node.target, node), target => facts.addValue(subject, `${OML}hasTarget`, target));
+        }
+        const assertions: PropertyValueAssertion[] = (node as { ownedPropertyValues?: PropertyValueAssertion[] }).ownedPropertyValues ?? [];
+        for (const assertion of assertions) {
+            const property = getReferenceIri(assertion.property, assertion);
+            if (!property) {
+                continue;
+            }
+            assertion.literalValues.forEach(l => facts.addValue(subject, property, toLiteralTerm(l)));
+            assertion.referencedValues.forEach(r => this.addIri(getReferenceIri(r, assertion), object => facts.addValue(subject, property, object)));
+            for (const contained of assertion.containedValues) {
+                const object = this.assertInstance(contained, facts);
+                if (object && isAnonymousRelationInstance(contained)) {
+                    // The anonymous instance reifies the relation from the subject to its target
+                    facts.addValue(object, `${OML}hasSource`, subject);
+                    const relation = this.members.get(property);
+                    if (isForwardRelation(relation)) {
+                        this.addIri(getDeclaredIri(getDeclaration(relation.$container)), type => facts.addType(object, type));
+                    }
+                } else if (object) {
+                    facts.addValue(subject, property, object);
+                }
+            }
+        }
+        return subject;
+    }
+
+    /**
+     * Apply the axioms of the vocabularies once to all facts; return whether new facts were added.
+     */
+    protected applyAxioms(facts: OmlFacts): boolean {
+        let changed = false;
+        for (const subject of facts.getSubjects()) {
+            for (const type of facts.getTypes(subject)) {
+                this.getSuperTerms(type).forEach(t => changed = facts.addType(subject, t) || changed);
+                // The relation instance relates its sources to its targets
+                const entity = this.members.get(type);
+                const forward = isRelationEntity(entity) && entity.forwardRelation ? getMemberIri(entity.forwardRelation) : undefined;
+                if (forward) {
+                    for (const source of facts.getValues(subject, `${OML}hasSource`).filter(s => typeof s === 'string')) {
+                        facts.getValues(subject, `${OML}hasTarget`).forEach(target => changed = facts.addValue(source, forward, target) || changed);
+                    }
+                }
+            }
+            for (const property of facts.getProperties(subject)) {
+                const relation = this.getRelationInfo(property);
+                for (const object of facts.getValues(subject, property)) {
+                    this.getSuperTerms(property).forEach(p => changed = facts.addValue(subject, p, object) || changed);
+                    relation?.domains.forEach(d => changed = facts.addType(subject, d) || changed);
+                    if (!relation || typeof object !== 'string') {
+                        continue;
+                    }
+                    relation.ranges.forEach(r => changed = facts.addType(object, r) || changed);
+                    if (relation.inverse) {
+                        changed = facts.addValue(object, relation.inverse, subject) || changed;
+                    }
+                    if (relation.symmetric) {
+                        changed = facts.addValue(object, property, subject) || changed;
+                    }
+                    if (relation.transitive) {
+                        facts.getValues(object, property).forEach(next => changed = facts.addValue(subject, property, next) || changed);
+                    }
+                }
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Return the domains, ranges and characteristics of a relation or scalar property, merging
+     * the statements of its `ref` redeclarations. Reverse relations swap them with their relation.
+     */
+    protected getRelationInfo(iri: string): RelationInfo | undefined {
+        if (this.relationCache.has(iri)) {
+            return this.relationCache.get(iri);
+        }
+        const property = this.members.get(iri);
+        let info: RelationInfo | undefined;
+        if (isScalarProperty(property)) {
+            const domains = this.hierarchy.getRedeclarations(property).flatMap(d => d.domains.map(r => getReferenceIri(r, d)));
+            info = { domains: domains.filter(d => d !== undefined), ranges: [], symmetric: false, transitive: false, asymmetric: false, irreflexive: false };
+        } else if (isForwardRelation(property) || isReverseRelation(property) || isUnreifiedRelation(property)) {
+            const reverse = isReverseRelation(property);
+            const relation = isUnreifiedRelation(property) ? property : getDeclaration(property.$container);
+            const declarations = this.hierarchy.getRedeclarations(relation);
+            const iris = (references: 'sources' | 'targets') => declarations.flatMap(d => d[references].map(r => getReferenceIri(r, d))).filter(i => i !== undefined);
+            const forwardIri = isRelationEntity(relation) ? relation.forwardRelation && getMemberIri(relation.forwardRelation) : getMemberIri(relation);
+            const reverseIri = relation.reverseRelation && getMemberIri(relation.reverseRelation);
+            info = {
+                domains: reverse ? iris('targets') : iris('sources'),
+                ranges: reverse ? iris('sources') : iris('targets'),
+                inverse: reverse ? forwardIri : reverseIri,
+                symmetric: declarations.some(d => d.symmetric),
+                transitive: declarations.some(d => d.transitive),
+                asymmetric: declarations.some(d => d.asymmetric),
+                irreflexive: declarations.some(d => d.irreflexive)
+            };
+        }
+        this.relationCache.set(iri, info);
+        return info;
+    }
+
+    /**
+     * Add the consequent of a rule for every match of its antecedent; return whether new facts
+     * were added.
+     */
+    protected applyRule(rule: Rule, facts: OmlFacts): boolean {
+        let changed = false;
+        for (const bindings of this.match(rule.antecedent, new Map(), facts)) {
+            for (const predicate of rule.consequent) {
+                changed = this.assertPredicate(predicate, bindings, facts) || changed;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Enumerate the variable bindings that satisfy all predicates. Predicates that only test
+     * bound arguments (builtins and `differentFrom`) are postponed until their arguments are bound.
+     */
+    protected *match(predicates: Predicate[], bindings: Bindings, facts: OmlFacts): Generator<Bindings> {
+        if (predicates.length === 0) {
+            yield bindings;
+            return;
+        }
+        const index = predicates.findIndex(p => !(isBuiltInPredicate(p) || isDifferentFromPredicate(p)) || getPredicateArguments(p).every(a => this.valueOf(a, bindings) !== undefined));
+        if (index < 0) {
+            return;
+        }
+        const predicate = predicates[index];
+        const rest = [...predicates.slice(0, index), ...predicates.slice(index + 1)];
+        for (const next of this.matchPredicate(predicate, bindings, facts)) {
+            yield* this.match(rest, next, facts);
+        }
+    }
+
+    protected *matchPredicate(predicate: Predicate, bindings: Bindings, facts: OmlFacts): Generator<Bindings> {
+        if (isTypePredicate(predicate)) {
+            const type = getReferenceIri(predicate.type, predicate);
+            const value = this.valueOf(predicate.argument, bindings);
+            if (!type) {
+                return;
+            }
+            const subjects = typeof value === 'string' ? [value] : value ? [] : facts.getSubjectsOfType(type);
+            for (const subject of subjects.filter(s => facts.hasType(s, type))) {
+                yield* this.unify([[predicate.argument, subject]], bindings);
+            }
+        } else if (isRelationEntityPredicate(predicate)) {
+            const type = getReferenceIri(predicate.type, predicate);
+            const value = this.valueOf(predicate.argument, bindings);
+            const instances = typeof value === 'string' ? [value] : value ? [] : type ? facts.getSubjectsOfType(type) : [];
+            for (const instance of instances.filter(i => type && facts.hasType(i, type))) {
+                for (const source of facts.getValues(instance, `${OML}hasSource`)) {
+                    for (const target of facts.getValues(instance, `${OML}hasTarget`)) {
+                        yield* this.unify([[predicate.argument, instance], [predicate.argument1, source], [predicate.argument2, target]], bindings);
+                    }
+                }
+            }
+        } else if (isPropertyPredicate(predicate)) {
+            const property = getReferenceIri(predicate.property, predicate);
+            const value = this.valueOf(predicate.argument1, bindings);
+            if (!property) {
+                return;
+            }
+            const subjects = typeof value === 'string' ? [value] : value ? [] : facts.getSubjectsWithProperty(property);
+            for (const subject of subjects) {
+                for (const object of facts.getValues(subject, property)) {
+                    yield* this.unify([[predicate.argument1, subject], [predicate.argument2, object]], bindings);
+                }
+            }
+        } else if (isSameAsPredicate(predicate)) {
+            const value1 = this.valueOf(predicate.argument1, bindings);
+            const value2 = this.valueOf(predicate.argument2, bindings);
+            if (value1 !== undefined || value2 !== undefined) {
+                yield* this.unify([[predicate.argument1, (value1 ?? value2)!], [predicate.argument2, (value1 ?? value2)!]], bindings);
+            }
+        } else if (isDifferentFromPredicate(predicate)) {
+            const value1 = this.valueOf(predicate.argument1, bindings);
+            const value2 = this.valueOf(predicate.argument2, bindings);
+            if (value1 !== undefined && value2 !== undefined && getTermKey(value1) !== getTermKey(value2)) {
+                yield bindings;
+            }
+        } else if (isBuiltInPredicate(predicate)) {
+            const builtIn = getSupportedBuiltIn(predicate);
+            const values = predicate.arguments.map(a => this.valueOf(a, bindings));
+            if (builtIn && values.every(v => v !== undefined) && builtIn(...values.map(v => typeof v === 'string' ? { value: v, datatype: `${XSD}anyURI` } : v))) {
+                yield bindings;
+            }
+        }
+    }
+
+    /**
+     * Add the fact stated by a consequent predicate; predicates with unbound arguments are skipped.
+     */
+    protected assertPredicate(predicate: Predicate, bindings: Bindings, facts: OmlFacts): boolean {
+        const values = getPredicateArguments(predicate).map(a => this.valueOf(a, bindings));
+        if (values.some(v => v === undefined)) {
+            return false;
+        }
+        if (isTypePredicate(predicate)) {
+            const type = getReferenceIri(predicate.type, predicate);
+            return typeof values[0] === 'string' && !!type && facts.addType(values[0], type);
+        } else if (isPropertyPredicate(predicate)) {
+            const property = getReferenceIri(predicate.property, predicate);
+            return typeof values[0] === 'string' && !!property && facts.addValue(values[0], property, values[1]!);
+        } else if (isRelationEntityPredicate(predicate)) {
+            const type = getReferenceIri(predicate.type, predicate);
+            const [source, instance, target] = values;
+            if (typeof instance !== 'string' || !type) {
+                return false;
+            }
+            const added = [facts.addType(instance, type), facts.addValue(instance, `${OML}hasSource`, source!), facts.addValue(instance, `${OML}hasTarget`, target!)];
+            return added.some(a => a);
+        } else if (isSameAsPredicate(predicate) && typeof values[0] === 'string' && typeof values[1] === 'string') {
+            const added = [facts.addValue(values[0], `${OWL}sameAs`, values[1]), facts.addValue(values[1], `${OWL}sameAs`, values[0])];
+            return added.some(a => a);
+        }
+        return false;
+    }
+
+    protected valueOf(argument: Argument, bindings: Bindings): ObjectTerm | undefined {
+        if (argument.variable) {
+            return bindings.get(argument.variable);
+        } else if (argument.literal) {
+            return toLiteralTerm(argument.literal);
+        }
+        return argument.instance ? getReferenceIri(argument.instance, argument) : undefined;
+    }
+
+    protected *unify(pairs: Array<[Argument, ObjectTerm]>, bindings: Bindings): Generator<Bindings> {
+        const next = new Map(bindings);
+        for (const [argument, value] of pairs) {
+            const bound = this.valueOf(argument, next);
+            if (bound === undefined && argument.variable) {
+                next.set(argument.variable, value);
+            } else if (bound === undefined || getTermKey(bound) !== getTermKey(value)) {
+                return;
+            }
+        }
+        yield next;
+    }
+
+    protected findInconsistencies(facts: OmlFacts): Inconsistency[] {
+        const inconsistencies: Inconsistency[] = [];
+        const commonSubTypes = this.getEntitiesWithCommonSubTypes();
+        for (const subject of facts.getSubjects()) {
+            const entities = facts.getTypes(subject).filter(t => isConcept(this.members.get(t)) || isRelationEntity(this.members.get(t)));
+            disjoint: for (let i = 0; i < entities.length; i++) {
+                for (let j = i + 1; j < entities.length; j++) {
+                    const [a, b] = [entities[i], entities[j]];
+                    if (!this.getSuperTerms(a).has(b) && !this.getSuperTerms(b).has(a) && !commonSubTypes.has(`${a} ${b}`)) {
+                        inconsistencies.push({
+                            subject,
+                            types: [a, b],
+                            code: OmlInconsistencyCodes.DisjointTypes,
+                            message: `${this.label(subject)} cannot be both ${this.label(a)} and ${this.label(b)}: entities that do not specialize each other are disjoint.`
+                        });
+                        break disjoint;
+                    }
+                }
+            }
+            for (const property of facts.getProperties(subject)) {
+                const relation = this.getRelationInfo(property);
+                for (const object of facts.getValues(subject, property)) {
+                    if (relation?.irreflexive && object === subject) {
+                        inconsistencies.push({ subject, code: OmlInconsistencyCodes.IrreflexiveRelation, message: `${this.label(subject)} cannot be related to itself by the irreflexive ${this.label(property)}.` });
+                    } else if (relation?.asymmetric && typeof object === 'string' && facts.hasValue(object, property, subject)) {
+                        inconsistencies.push({ subject, code: OmlInconsistencyCodes.AsymmetricRelation, message: `${this.label(subject)} and ${this.label(object)} cannot be related both ways by the asymmetric ${this.label(property)}.` });
+                    }
+                }
+            }
+        }
+        return inconsistencies;
+    }
+
+    /**
+     * Return the pairs (`a b` and `b a`) of entities that have a common sub entity.
+     */
+    protected getEntitiesWithCommonSubTypes(): Set<string> {
+        const pairs = new Set<string>();
+        for (const [iri, member] of this.members) {
+            if (isConcept(member) || isRelationEntity(member)) {
+                const supers = [...this.getSuperTerms(iri)];
+                supers.forEach(a => supers.forEach(b => pairs.add(`${a} ${b}`)));
+            }
+        }
+        return pairs;
+    }
+
+    /**
+     * Abbreviate an IRI with the prefixes of the ontology, e.g. `'base:Thing'`.
+     */
+    protected label(iri: string): string {
+        if (iri.startsWith('_:')) {
+            return 'an anonymous instance';
+        }
+        const abbreviated = abbreviateIri(iri, this.ontology);
+        return abbreviated.startsWith('<') ? abbreviated : `'${abbreviated}'`;
+    }
+
+    protected addIri(iri: string | undefined, add: (iri: string) => void): void {
+        if (iri) {
+            add(iri);
+        }
+    }
+
+}
+
+/**
+ * A reasoner on the import closure of an ontology and the result of its reasoning.
+ */
+export type Reasoning = {
+    reasoner: OmlReasoner;
+    result: ReasoningResult;
+};
+
+/**
+ * Shared service running the reasoner (with the rules) on the import closure of an ontology once
+ * per workspace state, so that the validation of a description and the inferred facts view do
+ * not reason again until a document changes.
+ */
+export class OmlReasoningProvider {
+
+    protected readonly results: WorkspaceCache<Ontology, Reasoning>;
+
+    constructor(services: LangiumSharedCoreServices) {
+        this.results = new WorkspaceCache(services);
+    }
+
+    /**
+     * Return the reasoning on the import closure of an ontology, which is cached until the
+     * workspace changes.
+     */
+    getReasoning(ontology: Ontology): Reasoning {
+        return this.results.get(ontology, () => {
+            const reasoner = new OmlReasoner(ontology);
+            return { reasoner, result: reasoner.reason() };
+        });
+    }
+
+}
+
+function compareTerms(a: LiteralTerm, b: LiteralTerm): number {
+    const [x, y] = [Number(a.value), Number(b.value)];
+    if (a.value.trim() !== '' && b.value.trim() !== '' && !isNaN(x) && !isNaN(y)) {
+        return x - y;
+    }
+    return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
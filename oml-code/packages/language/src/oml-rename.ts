@@ -0,0 +1,254 @@
+import { AstUtils, CstUtils, GrammarAST, GrammarUtils, TextDocument, type AstNode, type CstNode, type FileSystemProvider, type LangiumDocument, type LangiumDocuments, URI, type WorkspaceManager } from 'langium';
+import { DefaultRenameProvider } from 'langium/lsp';
+import { LSPErrorCodes, ResponseError, type Range, type RenameParams, type TextDocumentPositionParams, type TextEdit, type WorkspaceEdit } from 'vscode-languageserver';
+import { isImport, isOntology, type Import, type Ontology } from './generated/ast.js';
+import type { OmlBundleResolver } from './oml-bundles.js';
+import type { OmlServices } from './oml-module.js';
+import { getDeclaration } from './oml-hierarchy.js';
+import { getImportedNamespace, getMemberIri, getNamespaceIri, getPrefixMap, stripAngleBrackets } from './oml-utils.js';
+
+/**
+ * What a rename applies to: a member (by its declaration), the prefix of an ontology or of an
+ * import, or the namespace of an ontology.
+ */
+type RenameTarget =
+    | { kind: 'member'; member: AstNode; range: Range }
+    | { kind: 'prefix'; owner: Ontology | Import; range: Range }
+    | { kind: 'namespace'; ontology: Ontology; range: Range };
+
+const NAME = /^[a-zA-Z0-9\-_.~%][a-zA-Z0-9\-_.~%$]*$/;
+
+/**
+ * The IRIs, strings and comments of a SPARQL query, matched together so that a `#` in an IRI
+ * does not start a comment and a `<` in a string does not start an IRI.
+ */
+const SPARQL_TOKENS = /<[^<>"{}|^`\\\s]*>|("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|#[^\n]*)/g;
+
+/**
+ * Renames members, prefixes and namespaces across the workspace. Unlike the default rename,
+ * which replaces whole reference texts, only the renamed part of each reference is changed, so
+ * `name`, `prefix:name` and `<iri>` references (including `ref` redeclarations, keys and
+ * enumerations) keep their form. Renaming a member or a namespace also updates the IRIs of the
+ * SPARQL queries of the workspace folders. Names that conflict are refused.
+ */
+export class OmlRenameProvider extends DefaultRenameProvider {
+
+    protected readonly langiumDocuments: LangiumDocuments;
+    protected readonly bundleResolver: OmlBundleResolver;
+    protected readonly fileSystemProvider: FileSystemProvider;
+    protected readonly workspaceManager: WorkspaceManager;
+
+    constructor(services: OmlServices) {
+        super(services);
+        this.langiumDocuments = services.shared.workspace.LangiumDocuments;
+        this.bundleResolver = services.shared.workspace.BundleResolver;
+        this.fileSystemProvider = services.shared.workspace.FileSystemProvider;
+        this.workspaceManager = services.shared.workspace.WorkspaceManager;
+    }
+
+    override async rename(document: LangiumDocument, params: RenameParams): Promise<WorkspaceEdit | undefined> {
+        const target = this.findRenameTarget(document, params.position);
+        if (target?.kind === 'member') {
+            return this.renameMember(target.member, params.newName);
+        } else if (target?.kind === 'prefix') {
+            return this.renamePrefix(target.owner, params.newName);
+        } else if (target?.kind === 'namespace') {
+            return this.renameNamespace(target.ontology, params.newName);
+        }
+        return undefined;
+    }
+
+    override prepareRename(document: LangiumDocument, params: TextDocumentPositionParams): Range | undefined {
+        return this.findRenameTarget(document, params.position)?.range;
+    }
+
+    /**
+     * Find what the name, prefix, namespace or reference at the given position renames. For a
+     * reference, only its local name is renamed.
+     */
+    protected findRenameTarget(document: LangiumDocument, position: { line: number; character: number }): RenameTarget | undefined {
+        const root = document.parseResult.value.$cstNode;
+        const leaf = root ? CstUtils.findDeclarationNodeAtOffset(root, document.textDocument.offsetAt(position), this.grammarConfig.nameRegexp) : undefined;
+        const assignment = leaf ? GrammarUtils.findAssignment(leaf) : undefined;
+        if (!leaf || !assignment) {
+            return undefined;
+        }
+        const node = leaf.astNode;
+        if (isOntology(node) && assignment.feature === 'namespace') {
+            return { kind: 'namespace', ontology: node, range: this.getInnerRange(document, leaf) };
+        } else if ((isOntology(node) || isImport(node)) && assignment.feature === 'prefix') {
+            return { kind: 'prefix', owner: node, range: leaf.range };
+        } else if (isImport(node) && assignment.feature === 'imported') {
+            const imported = node.imported?.ref;
+            return imported ? { kind: 'namespace', ontology: imported, range: this.getInnerRange(document, leaf) } : undefined;
+        } else if (assignment.feature === 'name' && getMemberIri(node)) {
+            return { kind: 'member', member: node, range: leaf.range };
+        }
+        const target = GrammarAST.isCrossReference(assignment.terminal) ? this.references.findDeclarations(leaf)[0] : undefined;
+        const member = target ? getDeclaration(target) : undefined;
+        const name = (member as { name?: unknown } | undefined)?.name;
+        if (!member || typeof name !== 'string' || !getMemberIri(member)) {
+            return undefined;
+        }
+        return { kind: 'member', member, range: this.getNameRange(document.textDocument, leaf.offset, leaf.text, name) };
+    }
+
+    protected async renameMember(member: AstNode, newName: string): Promise<WorkspaceEdit> {
+        const name = (member as { name?: unknown }).name as string;
+        const ontology = AstUtils.getContainerOfType(member, isOntology)!;
+        const namespace = getNamespaceIri(ontology);
+        if (!NAME.test(newName)) {
+            throw new ResponseError(LSPErrorCodes.RequestFailed, `'${newName}' is not a valid name.`);
+        }
+        if (AstUtils.streamAllContents(ontology).some(n => getMemberIri(n) === namespace + newName)) {
+            throw new ResponseError(LSPErrorCodes.RequestFailed, `The name '${newName}' is already used in <${namespace}>.`);
+        }
+        const changes: Record<string, TextEdit[]> = {};
+        const declaration = GrammarUtils.findNodeForProperty(member.$cstNode, 'name');
+        if (declaration) {
+            addEdit(changes, AstUtils.getDocument(member).uri, { range: declaration.range, newText: newName });
+        }
+        for (const reference of this.references.findReferences(member, { includeDeclaration: false })) {
+            const source = this.langiumDocuments.getDocument(reference.sourceUri);
+            if (source) {
+                const text = source.textDocument.getText(reference.segment.range);
+                addEdit(changes, reference.sourceUri, { range: this.getNameRange(source.textDocument, reference.segment.offset, text, name), newText: newName });
+            }
+        }
+        const oldIri = namespace + name;
+        await this.renameInQueries(changes, iri => iri === oldIri ? namespace + newName : undefined);
+        return { changes };
+    }
+
+    /**
+     * Rename the prefix of an import in its ontology, or the prefix of an ontology in itself and
+     * in the ontologies importing it with the same prefix.
+     */
+    protected renamePrefix(owner: Ontology | Import, newName: string): WorkspaceEdit {
+        if (!NAME.test(newName)) {
+            throw new ResponseError(LSPErrorCodes.RequestFailed, `'${newName}' is not a valid prefix.`);
+        }
+        const changes: Record<string, TextEdit[]> = {};
+        const prefix = owner.prefix!;
+        const owners: Array<Ontology | Import> = [owner];
+        if (isOntology(owner)) {
+            const namespace = getNamespaceIri(owner);
+            for (const ontology of this.bundleResolver.getOntologies()) {
+                owners.push(...ontology.ownedImports.filter(i => i.prefix === prefix && getImportedNamespace(i) === namespace));
+            }
+        }
+        for (const renamed of owners) {
+            const ontology = isOntology(renamed) ? renamed : renamed.$container;
+            const document = AstUtils.getDocument(ontology);
+            if (getPrefixMap(ontology).has(newName)) {
+                throw new ResponseError(LSPErrorCodes.RequestFailed, `The prefix '${newName}' is already used in <${getNamespaceIri(ontology)}>.`);
+            }
+            addEdit(changes, document.uri, { range: GrammarUtils.findNodeForProperty(renamed.$cstNode, 'prefix')!.range, newText: newName });
+            for (const reference of document.references) {
+                if (reference.$refNode && reference.$refText.startsWith(`${prefix}:`)) {
+                    const start = document.textDocument.positionAt(reference.$refNode.offset);
+                    const end = document.textDocument.positionAt(reference.$refNode.offset + prefix.length);
+                    addEdit(changes, document.uri, { range: { start, end }, newText: newName });
+                }
+            }
+        }
+        return { changes };
+    }
+
+    /**
+     * Rename the namespace of an ontology, the imports of it and the `<iri>` references to its
+     * members across the workspace.
+     */
+    protected async renameNamespace(ontology: Ontology, newName: string): Promise<WorkspaceEdit> {
+        const namespace = getNamespaceIri(ontology);
+        const newNamespace = stripAngleBrackets(newName);
+        if (!/^[^<>\s]*[#/]$/.test(newNamespace)) {
+            throw new ResponseError(LSPErrorCodes.RequestFailed, `Namespace <${newNamespace}> must end with '#' or '/'.`);
+        }
+        if (this.bundleResolver.getOntologies().some(o => getNamespaceIri(o) === newNamespace)) {
+            throw new ResponseError(LSPErrorCodes.RequestFailed, `The namespace <${newNamespace}> is already declared by another ontology.`);
+        }
+        // The IRI of the ontology or of one of its members, renamed
+        const rename = (iri: string) => iri.startsWith(namespace) && !/[#/]/.test(iri.substring(namespace.length)) ? newNamespace + iri.substring(namespace.length) : undefined;
+        const changes: Record<string, TextEdit[]> = {};
+        addEdit(changes, AstUtils.getDocument(ontology).uri, { range: GrammarUtils.findNodeForProperty(ontology.$cstNode, 'namespace')!.range, newText: `<${newNamespace}>` });
+        for (const document of this.langiumDocuments.all) {
+            for (const reference of document.references) {
+                const text = reference.$refText.trim();
+                const renamed = text.startsWith('<') ? rename(stripAngleBrackets(text)) : undefined;
+                if (reference.$refNode && renamed) {
+                    addEdit(changes, document.uri, { range: reference.$refNode.range, newText: `<${renamed}>` });
+                }
+            }
+        }
+        await this.renameInQueries(changes, rename);
+        return { changes };
+    }
+
+    /**
+     * Rename the IRIs of the SPARQL queries of the workspace folders, written either `<iri>` or
+     * `prefix:name` with a prefix declared by the query, outside of strings and comments.
+     */
+    protected async renameInQueries(changes: Record<string, TextEdit[]>, rename: (iri: string) => string | undefined): Promise<void> {
+        for (const uri of await this.findQueryFiles()) {
+            const query = TextDocument.create(uri.toString(), 'sparql', 0, await this.fileSystemProvider.readFile(uri));
+            // Blank the strings and comments, keeping the offsets of the rest of the query
+            const text = query.getText().replace(SPARQL_TOKENS, (token, skipped?: string) => skipped ? ' '.repeat(token.length) : token);
+            const prefixes = new Map([...text.matchAll(/PREFIX\s+([\w.-]*):\s*<([^>\s]*)>/gi)].map(m => [m[1], m[2]]));
+            const edits: TextEdit[] = [];
+            const edit = (offset: number, length: number, newText: string) => edits.push({ range: { start: query.positionAt(offset), end: query.positionAt(offset + length) }, newText });
+            for (const match of text.matchAll(/<([^<>"{}|^`\\\s]*)>/g)) {
+                const renamed = rename(match[1]);
+                if (renamed) {
+                    edit(match.index, match[0].length, `<${renamed}>`);
+                }
+            }
+            for (const match of text.matchAll(/(?<![\w.<:-])([a-zA-Z][\w.-]*)?:([\w-][\w.-]*[\w-]|[\w-])/g)) {
+                const namespace = prefixes.get(match[1] ?? '');
+                const renamed = namespace !== undefined ? rename(namespace + match[2]) : undefined;
+                if (renamed?.startsWith(namespace!)) {
+                    edit(match.index + match[0].length - match[2].length, match[2].length, renamed.substring(namespace!.length));
+                }
+            }
+            edits.forEach(e => addEdit(changes, uri, e));
+        }
+    }
+
+    protected async findQueryFiles(): Promise<URI[]> {
+        const files: URI[] = [];
+        const visit = async (folder: URI) => {
+            for (const entry of await this.fileSystemProvider.readDirectory(folder)) {
+                const name = entry.uri.path.substring(entry.uri.path.lastIndexOf('/') + 1);
+                if (entry.isDirectory && !name.startsWith('.') && name !== 'node_modules') {
+                    await visit(entry.uri);
+                } else if (entry.isFile && name.endsWith('.sparql')) {
+                    files.push(entry.uri);
+                }
+            }
+        };
+        for (const folder of this.workspaceManager.workspaceFolders ?? []) {
+            await visit(URI.parse(folder.uri));
+        }
+        return files;
+    }
+
+    /**
+     * Return the range of the name ending a reference text (`name`, `prefix:name` or `<iri>`).
+     */
+    protected getNameRange(textDocument: TextDocument, offset: number, text: string, name: string): Range {
+        const start = offset + text.lastIndexOf(name);
+        return { start: textDocument.positionAt(start), end: textDocument.positionAt(start + name.length) };
+    }
+
+    /**
+     * Return the range of a namespace token without its angle brackets.
+     */
+    protected getInnerRange(document: LangiumDocument, node: CstNode): Range {
+        return { start: document.textDocument.positionAt(node.offset + 1), end: document.textDocument.positionAt(node.end - 1) };
+    }
+
+}
+
+function addEdit(changes: Record<string, TextEdit[]>, uri: URI, edit: TextEdit): void {
+    (changes[uri.toString()] ??= []).push(edit);
+}
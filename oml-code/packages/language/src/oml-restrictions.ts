@@ -0,0 +1,100 @@
+import type { AstNode, Reference } from 'langium';
+import type { AnonymousInstance, Literal, NamedInstance, PropertyRestrictionAxiom, PropertyValueAssertion, SemanticProperty } from './generated/ast.js';
+import { isAnonymousConceptInstance, isEntity, isLiteral, isNamedInstance, isRelationEntity, isScalar } from './generated/ast.js';
+import { getDeclaration, type OmlHierarchy } from './oml-hierarchy.js';
+import { getBuiltInDatatype, getDatatypeCategory, getFacetViolations, getLiteralDatatype, getScalarFacets, isCategoryCompatible } from './oml-literals.js';
+
+/**
+ * A value of a property of an instance, together with the node asserting it: a property value
+ * assertion (with the index of the value in it) or a relation instance.
+ */
+export type PropertyValue = {
+    value: Literal | NamedInstance | AnonymousInstance | undefined;
+    source: PropertyValueAssertion | NamedInstance;
+    index?: number;
+};
+
+/**
+ * Return the property restrictions that apply to instances of the given types, i.e. the ones
+ * declared on the types (and their `ref` redeclarations) in specializations and equivalences.
+ */
+export function getPropertyRestrictions(types: Iterable<AstNode>, hierarchy: OmlHierarchy): PropertyRestrictionAxiom[] {
+    const restrictions: PropertyRestrictionAxiom[] = [];
+    for (const type of types) {
+        for (const declaration of hierarchy.getRedeclarations(type)) {
+            if (isEntity(declaration)) {
+                restrictions.push(...declaration.ownedPropertyRestrictions);
+                declaration.ownedEquivalences.forEach(e => restrictions.push(...e.ownedPropertyRestrictions));
+            }
+        }
+    }
+    return restrictions;
+}
+
+/**
+ * Return the values an instance has for a property (or one of its sub properties): the values of
+ * its property value assertions and, for forward and reverse relations, the targets and sources
+ * of the relation instances it is a source or target of.
+ */
+export function getPropertyValues(instance: NamedInstance, property: SemanticProperty, hierarchy: OmlHierarchy): PropertyValue[] {
+    const values: PropertyValue[] = [];
+    for (const declaration of hierarchy.getRedeclarations(instance)) {
+        for (const assertion of declaration.ownedPropertyValues) {
+            if (!assertion.property?.ref || !hierarchy.isSubTermOf(assertion.property.ref, property)) {
+                continue;
+            }
+            assertion.literalValues.forEach((value, index) => values.push({ value, source: assertion, index }));
+            assertion.containedValues.forEach((value, index) => values.push({ value, source: assertion, index }));
+            assertion.referencedValues.forEach((value, index) => values.push({ value: value.ref, source: assertion, index }));
+        }
+    }
+    const relation = getDeclaration(property);
+    for (const relationInstance of hierarchy.relationInstances) {
+        const entities = [...hierarchy.getTypes(relationInstance)].filter(isRelationEntity);
+        const forward = entities.some(e => e.forwardRelation === relation);
+        const reverse = entities.some(e => e.reverseRelation === relation);
+        if (!forward && !reverse) {
+            continue;
+        }
+        const declarations = hierarchy.getRedeclarations(relationInstance);
+        const sources = declarations.flatMap(d => d.sources);
+        const targets = declarations.flatMap(d => d.targets);
+        const [subjects, objects] = forward ? [sources, targets] : [targets, sources];
+        if (subjects.some(s => s.ref && getDeclaration(s.ref) === getDeclaration(instance))) {
+            objects.forEach(o => values.push({ value: o.ref, source: relationInstance }));
+        }
+    }
+    return values;
+}
+
+/**
+ * Whether a value is known to be of the given type: an instance of an entity, or a literal
+ * conforming to a scalar. Returns `undefined` if this cannot be decided (e.g. for an untyped
+ * instance or an unresolved type).
+ */
+export function isValueOfType(value: PropertyValue['value'], type: Reference<AstNode> | undefined, hierarchy: OmlHierarchy): boolean | undefined {
+    const target = type?.ref;
+    if (!value || !type) {
+        return undefined;
+    }
+    if (isLiteral(value)) {
+        const rangeDatatype = getBuiltInDatatype(type, type.$refNode?.astNode ?? value, hierarchy);
+        const rangeCategory = rangeDatatype && getDatatypeCategory(rangeDatatype);
+        const literalDatatype = getLiteralDatatype(value, hierarchy);
+        const literalCategory = literalDatatype && getDatatypeCategory(literalDatatype);
+        if (rangeCategory && literalCategory && !isCategoryCompatible(literalCategory, rangeCategory)) {
+            return false;
+        }
+        if (target && isScalar(target)) {
+            return getFacetViolations(value, getScalarFacets(type, hierarchy), hierarchy).length === 0;
+        }
+        return rangeCategory ? true : undefined;
+    }
+    if (!target) {
+        return undefined;
+    }
+    const types = isNamedInstance(value) ? hierarchy.getTypes(value)
+        : isAnonymousConceptInstance(value) && value.type?.ref ? hierarchy.getSuperTerms(value.type.ref)
+        : new Set<AstNode>();
+    return types.size > 0 ? types.has(getDeclaration(target)) : undefined;
+}
@@ -0,0 +1,167 @@
+import {
+    AstUtils,
+    Cancellation,
+    DefaultScopeComputation,
+    DefaultScopeProvider,
+    EMPTY_SCOPE,
+    interruptAndCheck,
+    MapScope,
+    WorkspaceCache,
+    type AstNodeDescription,
+    type LangiumCoreServices,
+    type LangiumDocument,
+    type LangiumDocuments,
+    type ReferenceInfo,
+    type Scope
+} from 'langium';
+import { isOntology, Ontology } from './generated/ast.js';
+import { getImportedNamespace, getMemberIri, getNamespaceIri, getOntology, getPrefixMap } from './oml-utils.js';
+
+/**
+ * Exports every ontology under its namespace IRI and every named member (including nested
+ * forward/reverse relations) under its full IRI, so that other documents can look them up
+ * in the global index regardless of the prefix they use for the namespace.
+ */
+export class OmlScopeComputation extends DefaultScopeComputation {
+
+    override async collectExportedSymbols(document: LangiumDocument, cancelToken = Cancellation.CancellationToken.None): Promise<AstNodeDescription[]> {
+        const exports: AstNodeDescription[] = [];
+        const root = document.parseResult.value;
+        if (!isOntology(root)) {
+            return exports;
+        }
+        const namespace = getNamespaceIri(root);
+        if (namespace) {
+            exports.push(this.descriptions.createDescription(root, namespace, document));
+        }
+        for (const node of AstUtils.streamAllContents(root)) {
+            await interruptAndCheck(cancelToken);
+            const iri = getMemberIri(node);
+            if (iri) {
+                exports.push(this.descriptions.createDescription(node, iri, document));
+            }
+        }
+        return exports;
+    }
+
+}
+
+/**
+ * Resolves references the way OML does:
+ *  - `<iri>` resolves against members of the document's ontology and its import closure,
+ *  - `prefix:name` resolves against the ontology's own prefix and the prefixes of its imports,
+ *  - a bare `name` resolves against members of the document's own ontology.
+ * Members of ontologies that are not imported are never visible.
+ */
+export class OmlScopeProvider extends DefaultScopeProvider {
+
+    protected readonly langiumDocuments: LangiumDocuments;
+    protected readonly visibleSymbolsCache: WorkspaceCache<string, AstNodeDescription[]>;
+
+    constructor(services: LangiumCoreServices) {
+        super(services);
+        this.langiumDocuments = services.shared.workspace.LangiumDocuments;
+        this.visibleSymbolsCache = new WorkspaceCache(services.shared);
+    }
+
+    override getScope(context: ReferenceInfo): Scope {
+        const referenceType = this.reflection.getReferenceType(context);
+        if (referenceType === Ontology.$type) {
+            return this.getOntologyScope();
+        }
+        const ontology = getOntology(context.container);
+        if (!ontology) {
+            return EMPTY_SCOPE;
+        }
+        const uri = AstUtils.getDocument(ontology).uri.toString();
+        const symbols = this.visibleSymbolsCache.get(uri, () => this.computeVisibleSymbols(ontology));
+        return new MapScope(symbols.filter(desc => this.reflection.isSubtype(desc.type, referenceType)));
+    }
+
+    /**
+     * Ontologies are referenced by their namespace token, i.e. `<namespace>`.
+     */
+    protected getOntologyScope(): Scope {
+        return new MapScope(this.indexManager.allElements(Ontology.$type).map(desc => this.alias(desc, `<${desc.name}>`)));
+    }
+
+    /**
+     * Collect the member descriptions visible from the given ontology, each registered under
+     * every textual form it can be referenced by.
+     */
+    protected computeVisibleSymbols(ontology: Ontology): AstNodeDescription[] {
+        const ontologies = this.getIndexedOntologies();
+        const ownNamespace = getNamespaceIri(ontology);
+        const prefixes = getPrefixMap(ontology);
+        const symbols: AstNodeDescription[] = [];
+
+        for (const namespace of this.computeImportClosure(ontology, ontologies)) {
+            const declaring = ontologies.get(namespace);
+            if (!declaring) {
+                continue;
+            }
+            const prefixesOfNamespace = [...prefixes].filter(([, ns]) => ns === namespace).map(([prefix]) => prefix);
+            const members = this.indexManager.allElements(undefined, new Set([declaring.documentUri.toString()]))
+                .filter(desc => desc.type !== declaring.type && desc.name.startsWith(namespace));
+            for (const member of members) {
+                const localName = member.name.substring(namespace.length);
+                symbols.push(this.alias(member, `<${member.name}>`));
+                for (const prefix of prefixesOfNamespace) {
+                    symbols.push(this.alias(member, `${prefix}:${localName}`));
+                }
+                if (namespace === ownNamespace) {
+                    symbols.push(this.alias(member, localName));
+                }
+            }
+        }
+        return symbols;
+    }
+
+    /**
+     * Compute the namespaces of the given ontology and all ontologies it transitively imports.
+     */
+    protected computeImportClosure(ontology: Ontology, ontologies: Map<string, AstNodeDescription>): Set<string> {
+        const closure = new Set<string>();
+        const visit = (current: Ontology) => {
+            const namespace = getNamespaceIri(current);
+            if (closure.has(namespace)) {
+                return;
+            }
+            closure.add(namespace);
+            for (const imp of current.ownedImports ?? []) {
+                const importedNamespace = getImportedNamespace(imp);
+                const imported = this.loadOntology(ontologies.get(importedNamespace));
+                if (imported) {
+                    visit(imported);
+                } else {
+                    closure.add(importedNamespace);
+                }
+            }
+        };
+        visit(ontology);
+        return closure;
+    }
+
+    protected getIndexedOntologies(): Map<string, AstNodeDescription> {
+        const map = new Map<string, AstNodeDescription>();
+        for (const desc of this.indexManager.allElements(Ontology.$type)) {
+            if (!map.has(desc.name)) {
+                map.set(desc.name, desc);
+            }
+        }
+        return map;
+    }
+
+    protected loadOntology(desc: AstNodeDescription | undefined): Ontology | undefined {
+        if (!desc || !this.langiumDocuments.hasDocument(desc.documentUri)) {
+            return undefined;
+        }
+        const root = this.langiumDocuments.getDocument(desc.documentUri)?.parseResult.value;
+        return isOntology(root) ? root : undefined;
+    }
+
+    protected alias(desc: AstNodeDescription, name: string): AstNodeDescription {
+        return { ...desc, name };
+    }
+
+}
@@ -0,0 +1,159 @@
+import { AstUtils, DocumentState } from 'langium';
+import * as oxigraph from 'oxigraph';
+import type { Ontology } from './generated/ast.js';
+import type { DiagramLocation } from './oml-diagram.js';
+import type { OmlSharedServices } from './oml-module.js';
+import { getImportClosure } from './oml-hierarchy.js';
+import { RDF } from './oml-literals.js';
+import { ontologyToTurtle } from './oml-owl.js';
+import { OML, OmlReasoner } from './oml-reasoner.js';
+import { getMemberIri } from './oml-utils.js';
+
+/**
+ * The results of a query in the SPARQL 1.1 JSON results format.
+ */
+export type SparqlJsonResults = {
+    head: { vars?: string[] };
+    boolean?: boolean;
+    results?: { bindings: Array<Record<string, SparqlJsonTerm>> };
+};
+
+export type SparqlJsonTerm = { type: 'uri' | 'literal' | 'bnode' | 'triple'; value: string; datatype?: string; 'xml:lang'?: string };
+
+/**
+ * The formats of the results of SELECT and ASK queries: the SPARQL results CSV and JSON formats,
+ * or a text table.
+ */
+export type QueryResultFormat = 'csv' | 'json' | 'table';
+
+/**
+ * The results of a query run from the editor, with the declarations of the members whose IRIs
+ * occur in them.
+ */
+export type QueryResultsModel = {
+    results?: SparqlJsonResults;
+    locations: Record<string, DiagramLocation>;
+    error?: string;
+};
+
+/**
+ * Create an in-memory RDF dataset with the OWL conversion of the given ontologies and the
+ * ontologies they import, like the one the Gradle `load` task uploads to Fuseki. With
+ * `entailments`, the types and property values the reasoner entails for the instances of the
+ * descriptions in their import closures are added as well.
+ */
+export function createDataset(ontologies: Ontology[], options: { entailments?: boolean } = {}): oxigraph.Store {
+    const store = new oxigraph.Store();
+    for (const ontology of new Set(ontologies.flatMap(getImportClosure))) {
+        store.load(ontologyToTurtle(ontology), { format: 'text/turtle' });
+    }
+    for (const ontology of options.entailments ? ontologies : []) {
+        const { facts } = new OmlReasoner(ontology).reason();
+        const node = (iri: string) => oxigraph.namedNode(iri);
+        // Facts about anonymous instances cannot be related to the blank nodes of the conversion
+        for (const subject of facts.getSubjects().filter(s => !s.startsWith('_:'))) {
+            facts.getTypes(subject).forEach(type => store.add(oxigraph.triple(node(subject), node(`${RDF}type`), node(type))));
+            for (const property of facts.getProperties(subject).filter(p => !p.startsWith(OML))) {
+                for (const object of facts.getValues(subject, property)) {
+                    if (typeof object !== 'string') {
+                        store.add(oxigraph.triple(node(subject), node(property), oxigraph.literal(object.value, object.language ?? node(object.datatype))));
+                    } else if (!object.startsWith('_:')) {
+                        store.add(oxigraph.triple(node(subject), node(property), node(object)));
+                    }
+                }
+            }
+        }
+    }
+    return store;
+}
+
+/**
+ * Evaluate a SPARQL query on a dataset. SELECT and ASK results are serialized in the SPARQL
+ * results CSV or JSON format or as a text table, CONSTRUCT and DESCRIBE results as Turtle.
+ */
+export function evaluateQuery(store: oxigraph.Store, query: string, format: QueryResultFormat): { extension: string; content: string } {
+    const form = getQueryForm(query);
+    if (form === 'CONSTRUCT' || form === 'DESCRIBE') {
+        return { extension: 'ttl', content: store.query(query, { results_format: 'text/turtle' }) as string };
+    } else if (format === 'table') {
+        return { extension: 'txt', content: toTable(JSON.parse(store.query(query, { results_format: 'json' }) as string)) };
+    }
+    return { extension: format, content: store.query(query, { results_format: format }) as string };
+}
+
+/**
+ * Render SPARQL JSON results as a text table with a column per variable.
+ */
+function toTable(results: SparqlJsonResults): string {
+    if (results.boolean !== undefined) {
+        return `${results.boolean}\n`;
+    }
+    const vars = results.head.vars ?? [];
+    const rows = (results.results?.bindings ?? []).map(binding => vars.map(v => {
+        const term = binding[v];
+        return !term ? '' : term.type === 'uri' ? `<${term.value}>` : term.type === 'bnode' ? `_:${term.value}` : term.value;
+    }));
+    const widths = vars.map((v, i) => Math.max(v.length, ...rows.map(r => r[i].length)));
+    const line = (cells: string[]) => `| ${cells.map((c, i) => c.padEnd(widths[i])).join(' | ')} |`;
+    const separator = `|${widths.map(w => '-'.repeat(w + 2)).join('|')}|`;
+    return [line(vars), separator, ...rows.map(line), ''].join('\n');
+}
+
+/**
+ * Return the form of a query (SELECT, ASK, CONSTRUCT or DESCRIBE): its first keyword after the
+ * prologue of PREFIX and BASE declarations.
+ */
+export function getQueryForm(query: string): string | undefined {
+    const prologue = /^\s*(?:#[^\n]*(?:\n|$)|PREFIX\s+[^\s:]*:\s*<[^>]*>|BASE\s*<[^>]*>)/i;
+    let body = query;
+    for (let match = prologue.exec(body); match; match = prologue.exec(body)) {
+        body = body.substring(match[0].length);
+    }
+    return /^\s*(SELECT|ASK|CONSTRUCT|DESCRIBE)\b/i.exec(body)?.[1].toUpperCase();
+}
+
+/**
+ * Run a query on the ontologies of the workspace: the import closure of the dataset with the
+ * given IRI (the bundle of `oml.yml`) if it is loaded, otherwise all loaded ontologies. The
+ * triples of CONSTRUCT and DESCRIBE queries are returned as `subject`, `predicate` and `object`
+ * bindings.
+ */
+export async function computeQueryResults(shared: OmlSharedServices, query: string, datasetIri?: string): Promise<QueryResultsModel> {
+    await shared.workspace.DocumentBuilder.waitUntil(DocumentState.Linked);
+    const bundleResolver = shared.workspace.BundleResolver;
+    const ontologies = bundleResolver.getOntologies();
+    const bundle = datasetIri ? bundleResolver.findOntology(datasetIri) : undefined;
+    let results: SparqlJsonResults;
+    try {
+        const store = createDataset(bundle ? [bundle] : ontologies);
+        const form = getQueryForm(query);
+        if (form === 'CONSTRUCT' || form === 'DESCRIBE') {
+            const quads = store.query(query) as oxigraph.Quad[];
+            const vars = ['subject', 'predicate', 'object'] as const;
+            results = { head: { vars: [...vars] }, results: { bindings: quads.map(q => Object.fromEntries(vars.map(v => [v, toJsonTerm(q[v])]))) } };
+        } else {
+            results = JSON.parse(store.query(query, { results_format: 'json' }) as string);
+        }
+    } catch (err) {
+        return { locations: {}, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    const iris = new Set((results.results?.bindings ?? []).flatMap(b => Object.values(b)).filter(t => t.type === 'uri').map(t => t.value));
+    const locations: Record<string, DiagramLocation> = {};
+    for (const ontology of ontologies) {
+        for (const node of AstUtils.streamAllContents(ontology)) {
+            const iri = getMemberIri(node);
+            if (iri && iris.has(iri) && !locations[iri] && node.$cstNode) {
+                locations[iri] = { uri: AstUtils.getDocument(node).uri.toString(), range: node.$cstNode.range };
+            }
+        }
+    }
+    return { results, locations };
+}
+
+function toJsonTerm(term: oxigraph.Term): SparqlJsonTerm {
+    if (term.termType === 'Literal') {
+        return term.language ? { type: 'literal', value: term.value, 'xml:lang': term.language } : { type: 'literal', value: term.value, datatype: term.datatype.value };
+    }
+    return { type: term.termType === 'NamedNode' ? 'uri' : term.termType === 'BlankNode' ? 'bnode' : 'triple', value: term.value };
+}
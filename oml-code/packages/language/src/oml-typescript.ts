@@ -0,0 +1,191 @@
+import type { AstNode, Reference, URI } from 'langium';
+import { AstUtils, UriUtils } from 'langium';
+import { expandToNode, joinToNode, toString } from 'langium/generate';
+import type { Entity, Literal, Ontology, Scalar, Vocabulary } from './generated/ast.js';
+import {
+    isAspect,
+    isBooleanLiteral,
+    isConcept,
+    isEntity,
+    isQuotedLiteral,
+    isRelationEntity,
+    isScalar,
+    isScalarProperty,
+    isUnreifiedRelation
+} from './generated/ast.js';
+import { getNamespaceIri, getOntology, getReferenceIri } from './oml-utils.js';
+
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const NUMBER_SCALARS = new Set([
+    'decimal', 'double', 'float', 'integer', 'int', 'long', 'short', 'byte',
+    'nonNegativeInteger', 'nonPositiveInteger', 'positiveInteger', 'negativeInteger',
+    'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte'
+]);
+
+type InterfaceModel = {
+    name: string;
+    supers: string[];
+    fields: Map<string, string>;
+};
+
+/**
+ * Produce the TypeScript declarations of a vocabulary: an interface per aspect, concept and
+ * relation entity, a type alias per scalar, and typed fields for the scalar properties and
+ * relations whose domain (or source) is declared in the vocabulary. Terms of imported
+ * vocabularies are referenced through the module generated for them (named after their file).
+ */
+export function toTypeScript(vocabulary: Vocabulary): string {
+    const context = new TypeContext(vocabulary);
+    const interfaces = new Map<Entity, InterfaceModel>();
+    const aliases: string[] = [];
+
+    for (const statement of vocabulary.ownedStatements) {
+        if ((isAspect(statement) || isConcept(statement) || isRelationEntity(statement)) && statement.name) {
+            interfaces.set(statement, {
+                name: typeName(statement.name),
+                supers: statement.ownedSpecializations.map(s => context.typeOf(s.superTerm, statement)).filter(t => t !== 'unknown'),
+                fields: new Map()
+            });
+        } else if (isScalar(statement) && statement.name) {
+            aliases.push(`export type ${typeName(statement.name)} = ${context.scalarDefinition(statement)};`);
+        }
+    }
+
+    const addField = (domain: Reference<Entity>, name: string | undefined, type: string, single: boolean) => {
+        const owner = domain.ref && interfaces.get(domain.ref);
+        if (owner && name) {
+            owner.fields.set(fieldName(name), single ? type : `${type}[]`);
+        }
+    };
+    const union = (types: string[]) => [...new Set(types)].join(' | ') || 'unknown';
+
+    for (const statement of vocabulary.ownedStatements) {
+        if (isScalarProperty(statement)) {
+            const type = union(statement.ranges.map(r => context.scalarType(r, statement)));
+            statement.domains.forEach(d => addField(d, statement.name, type, statement.functional));
+        } else if (isUnreifiedRelation(statement) || isRelationEntity(statement)) {
+            const sourceType = union(statement.sources.map(s => context.typeOf(s, statement)));
+            const targetType = union(statement.targets.map(t => context.typeOf(t, statement)));
+            const forwardName = isRelationEntity(statement) ? statement.forwardRelation?.name : statement.name;
+            statement.sources.forEach(s => addField(s, forwardName, targetType, statement.functional));
+            statement.targets.forEach(t => addField(t, statement.reverseRelation?.name, sourceType, statement.inverseFunctional));
+            const relationEntity = isRelationEntity(statement) ? interfaces.get(statement) : undefined;
+            if (relationEntity) {
+                relationEntity.fields.set('source', sourceType);
+                relationEntity.fields.set('target', targetType);
+            }
+        }
+    }
+
+    const declarations = [...interfaces.values()].map(i => toString(expandToNode`
+        export interface ${i.name}${i.supers.length > 0 ? ` extends ${i.supers.join(', ')}` : ''} {
+            ${joinToNode(i.fields, ([name, type]) => `${name}?: ${type};`, { appendNewLineIfNotEmpty: true })}
+        }
+    `));
+
+    return [...context.imports(), ...aliases, ...declarations].join('\n\n');
+}
+
+/**
+ * Maps OML references to TypeScript type expressions and tracks the imported modules.
+ */
+class TypeContext {
+
+    private readonly modules = new Map<string, string>();
+
+    constructor(private readonly vocabulary: Vocabulary) {}
+
+    imports(): string[] {
+        return [...this.modules].map(([alias, module]) => `import type * as ${alias} from './${module}.js';`);
+    }
+
+    /**
+     * The type of a referenced term: its name when declared locally, a qualified name when
+     * declared in another loaded vocabulary, `unknown` otherwise.
+     */
+    typeOf(reference: Reference<AstNode>, context: AstNode): string {
+        const target = reference.ref;
+        if (isScalar(target)) {
+            return this.scalarType(reference as Reference<Scalar>, context);
+        }
+        const name = (target as { name?: string } | undefined)?.name;
+        if (!target || !name || !isEntity(target)) {
+            return 'unknown';
+        }
+        const ontology = getOntology(target);
+        if (!ontology || ontology === this.vocabulary) {
+            return typeName(name);
+        }
+        return `${this.moduleAlias(ontology)}.${typeName(name)}`;
+    }
+
+    /**
+     * The type of a referenced scalar: XSD built-ins map to `string`, `number` or `boolean`,
+     * other scalars to their generated type alias.
+     */
+    scalarType(reference: Reference<Scalar>, context: AstNode): string {
+        const iri = getReferenceIri(reference, context);
+        if (iri?.startsWith(XSD)) {
+            const local = iri.substring(XSD.length);
+            return NUMBER_SCALARS.has(local) ? 'number' : local === 'boolean' ? 'boolean' : 'string';
+        }
+        const target = reference.ref;
+        if (!target?.name) {
+            return 'string';
+        }
+        const ontology = getOntology(target);
+        if (!ontology || ontology === this.vocabulary) {
+            return typeName(target.name);
+        }
+        return `${this.moduleAlias(ontology)}.${typeName(target.name)}`;
+    }
+
+    /**
+     * The definition of a scalar's type alias: a union of its enumerated literals, or the type
+     * of the scalar it specializes or is equivalent to.
+     */
+    scalarDefinition(scalar: Scalar): string {
+        if (scalar.ownedEnumeration && scalar.ownedEnumeration.literals.length > 0) {
+            return scalar.ownedEnumeration.literals.map(literalType).join(' | ');
+        }
+        const superScalar = scalar.ownedSpecializations[0]?.superTerm ?? scalar.ownedEquivalences[0]?.superScalar;
+        return superScalar ? this.scalarType(superScalar as Reference<Scalar>, scalar) : 'string';
+    }
+
+    private moduleAlias(ontology: Ontology): string {
+        const namespace = getNamespaceIri(ontology);
+        const prefix = this.vocabulary.ownedImports.find(i => i.imported.ref === ontology)?.prefix ?? ontology.prefix;
+        const alias = typeName(prefix ?? 'imported');
+        const module = moduleName(AstUtils.getDocument(ontology).uri) || namespace;
+        this.modules.set(alias, module);
+        return alias;
+    }
+
+}
+
+function literalType(literal: Literal): string {
+    if (isQuotedLiteral(literal)) {
+        return JSON.stringify(literal.value);
+    } else if (isBooleanLiteral(literal)) {
+        return literal.value ? 'true' : 'false';
+    }
+    return String(literal.value);
+}
+
+function typeName(name: string): string {
+    const sanitized = name.replace(/[^\w$]/g, '_');
+    return /^\d/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function fieldName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+/**
+ * The name of the module generated for a document: its file name without extension, dots and
+ * dashes.
+ */
+function moduleName(uri: URI): string {
+    return UriUtils.basename(uri).replace(/\.[^.]*$/, '').replace(/[.-]/g, '');
+}
@@ -0,0 +1,136 @@
+import { AstUtils, type AstNode, type Reference } from 'langium';
+import { isOntology, type Import, type Ontology } from './generated/ast.js';
+
+/**
+ * Remove the surrounding angle brackets of a NAMESPACE or IRI token, e.g. `<http://a/b#>` -> `http://a/b#`.
+ */
+export function stripAngleBrackets(text: string): string {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('<') && trimmed.endsWith('>')) {
+        return trimmed.substring(1, trimmed.length - 1);
+    }
+    return trimmed;
+}
+
+/**
+ * Return the namespace IRI of an ontology without its angle brackets.
+ */
+export function getNamespaceIri(ontology: Ontology): string {
+    return stripAngleBrackets(ontology.namespace ?? '');
+}
+
+/**
+ * Return the IRI of an ontology, i.e. its namespace without the trailing `#` or `/`.
+ */
+export function getOntologyIri(namespace: string): string {
+    return namespace.replace(/[#/]$/, '');
+}
+
+/**
+ * Return the namespace IRI an import points to, taken from the reference text so that it
+ * is available before (and regardless of whether) the import is linked.
+ */
+export function getImportedNamespace(imp: Import): string {
+    return stripAngleBrackets(imp.imported?.$refText ?? '');
+}
+
+/**
+ * Find the ontology containing the given node (or the node itself if it is an ontology).
+ */
+export function getOntology(node: AstNode | undefined): Ontology | undefined {
+    return node ? AstUtils.getContainerOfType(node, isOntology) : undefined;
+}
+
+/**
+ * Compute the IRI of a named member as `namespace + name`. Returns `undefined` for
+ * unnamed nodes (e.g. `ref` redeclarations) or nodes outside an ontology.
+ */
+export function getMemberIri(node: AstNode): string | undefined {
+    const name = (node as { name?: unknown }).name;
+    const ontology = getOntology(node);
+    if (typeof name !== 'string' || !name || !ontology || ontology === node) {
+        return undefined;
+    }
+    return getNamespaceIri(ontology) + name;
+}
+
+/**
+ * Build a lookup from prefix to namespace IRI for an ontology: its own prefix plus the
+ * prefixes declared by its imports.
+ */
+export function getPrefixMap(ontology: Ontology): Map<string, string> {
+    const map = new Map<string, string>();
+    if (ontology.prefix) {
+        map.set(ontology.prefix, getNamespaceIri(ontology));
+    }
+    for (const imp of ontology.ownedImports ?? []) {
+        if (imp.prefix && !map.has(imp.prefix)) {
+            map.set(imp.prefix, getImportedNamespace(imp));
+        }
+    }
+    return map;
+}
+
+/**
+ * Expand the text of a reference (`<iri>`, `prefix:name` or `name`) to a full IRI using the
+ * prefixes declared by the given ontology. Returns `undefined` for unknown prefixes.
+ */
+export function expandReferenceText(text: string, ontology: Ontology | undefined): string | undefined {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('<')) {
+        return stripAngleBrackets(trimmed);
+    }
+    if (!ontology) {
+        return undefined;
+    }
+    const colon = trimmed.indexOf(':');
+    if (colon >= 0) {
+        const namespace = getPrefixMap(ontology).get(trimmed.substring(0, colon));
+        return namespace !== undefined ? namespace + trimmed.substring(colon + 1) : undefined;
+    }
+    return getNamespaceIri(ontology) + trimmed.replace(/^\^/, '');
+}
+
+/**
+ * Return the IRI a reference points to: the IRI of the resolved target if it is linked,
+ * otherwise the reference text expanded against the prefixes of the referencing ontology.
+ * The fallback keeps references into ontologies that are not loaded usable.
+ */
+export function getReferenceIri(reference: Reference | undefined, context: AstNode): string | undefined {
+    if (!reference) {
+        return undefined;
+    }
+    const target = reference.ref;
+    if (target) {
+        const iri = isOntology(target) ? getNamespaceIri(target) : getDeclaredIri(target);
+        if (iri) {
+            return iri;
+        }
+    }
+    return expandReferenceText(reference.$refText ?? '', getOntology(context));
+}
+
+/**
+ * Return the IRI of the member declared or redeclared by the given node: its own IRI for a
+ * named member, or the IRI of the referenced member for a `ref` redeclaration.
+ */
+export function getDeclaredIri(node: AstNode): string | undefined {
+    const redeclared = (node as { ref?: Reference }).ref;
+    if (redeclared && typeof (node as { name?: unknown }).name !== 'string') {
+        return getReferenceIri(redeclared, node);
+    }
+    return getMemberIri(node);
+}
+
+/**
+ * Abbreviate an IRI with the prefixes of an ontology, e.g. `base:Thing`, or return it in angle
+ * brackets if no prefix applies.
+ */
+export function abbreviateIri(iri: string, ontology: Ontology): string {
+    for (const [prefix, namespace] of getPrefixMap(ontology)) {
+        if (namespace && iri.startsWith(namespace) && iri.length > namespace.length) {
+            return `${prefix}:${iri.substring(namespace.length)}`;
+        }
+    }
+    return `<${iri}>`;
+}
@@ -1,6 +1,100 @@
-import type { ValidationAcceptor, ValidationChecks } from 'langium';
-import type { OmlAstType, Concept } from './generated/ast.js';
+import type { AstNode, Reference, ValidationAcceptor, ValidationChecks } from 'langium';
+import { AstUtils, DocumentState } from 'langium';
+import type {
+    OmlAstType,
+    BuiltInPredicate,
+    Concept,
+    Description,
+    Entity,
+    Import,
+    Literal,
+    Member,
+    NamedInstance,
+    Ontology,
+    PropertyRestrictionAxiom,
+    PropertyValueAssertion,
+    RelationEntity,
+    SemanticProperty,
+    ScalarEquivalenceAxiom,
+    SpecializationAxiom,
+    UnreifiedRelation,
+    Rule,
+    Vocabulary
+} from './generated/ast.js';
+import {
+    isAnonymousConceptInstance,
+    isBuiltInPredicate,
+    isConceptInstance,
+    isPropertyValueRestrictionAxiom,
+    isQuotedLiteral,
+    isDescription,
+    isDescriptionBox,
+    isDescriptionBundle,
+    isDifferentFromPredicate,
+    isEntity,
+    isEntityEquivalenceAxiom,
+    isForwardRelation,
+    isLiteral,
+    isNamedInstance,
+    isPropertyCardinalityRestrictionAxiom,
+    isPropertyRangeRestrictionAxiom,
+    isPropertySelfRestrictionAxiom,
+    isRelationEntity,
+    isRelationInstance,
+    isReverseRelation,
+    isScalarProperty,
+    isVocabulary,
+    isVocabularyBox
+} from './generated/ast.js';
+import type { OmlBundleResolver } from './oml-bundles.js';
+import { getDeclaration, isCompatibleSpecialization, isCyclicSpecialization, OmlHierarchy } from './oml-hierarchy.js';
+import {
+    compilePattern,
+    getBuiltInDatatype,
+    getDatatypeCategory,
+    getFacetViolations,
+    getLiteralDatatype,
+    getLiteralText,
+    getLiteralValue,
+    getScalarFacets,
+    isCategoryCompatible
+} from './oml-literals.js';
+import { getPredicateArguments, getSupportedBuiltIn, OmlInconsistencyCodes, SUPPORTED_BUILTINS, type OmlReasoner, type OmlReasoningProvider, type Reasoning } from './oml-reasoner.js';
+import { getPropertyRestrictions, getPropertyValues, isValueOfType, type PropertyValue } from './oml-restrictions.js';
 import type { OmlServices } from './oml-module.js';
+import { getDeclaredIri, getImportedNamespace, getNamespaceIri, getOntology, getReferenceIri } from './oml-utils.js';
+
+/**
+ * Stable codes of the diagnostics reported by the OML validator, to suppress or quick-fix them.
+ */
+export const OmlIssueCodes = {
+    LowercaseConceptName: 'lowercase-concept-name',
+    InvalidNamespace: 'invalid-namespace',
+    DuplicatePrefix: 'duplicate-prefix',
+    InvalidImport: 'invalid-import',
+    DuplicateMember: 'duplicate-member',
+    DuplicateRelationName: 'duplicate-relation-name',
+    RelationNameClash: 'relation-name-clash',
+    SpecializationCycle: 'specialization-cycle',
+    IncompatibleSpecialization: 'incompatible-specialization',
+    InvalidRef: 'invalid-ref',
+    InvalidPropertyDomain: 'invalid-property-domain',
+    InvalidPropertyRange: 'invalid-property-range',
+    InvalidPropertyValue: 'invalid-property-value',
+    FunctionalProperty: 'functional-property',
+    InconsistentFacets: 'inconsistent-facets',
+    FacetViolation: 'facet-violation',
+    CardinalityViolation: 'cardinality-violation',
+    RangeRestrictionViolation: 'range-restriction-violation',
+    ValueRestrictionViolation: 'value-restriction-violation',
+    SelfRestrictionViolation: 'self-restriction-violation',
+    UnboundRuleVariable: 'unbound-rule-variable',
+    UnknownBuiltIn: 'unknown-builtin',
+    ImportCycle: 'import-cycle',
+    UnresolvedImport: 'unresolved-import',
+    DescriptionNotInBundle: 'description-not-in-bundle',
+    ...OmlInconsistencyCodes
+} as const;
 
 /**
  * Register custom validation checks.
@@ -9,9 +103,72 @@ export function registerValidationChecks(services: OmlServices) {
     const registry = services.validation.ValidationRegistry;
     const validator = services.validation.OmlValidator;
     const checks: ValidationChecks<OmlAstType> = {
-        Concept: validator.checkConceptStartsWithCapital
+        Concept: validator.checkConceptStartsWithCapital,
+        Ontology: [
+            validator.checkNamespaceSeparator,
+            validator.checkUniquePrefixes,
+            validator.checkUniqueMemberNames,
+            validator.checkImportCycles
+        ],
+        VocabularyBundle: validator.checkBundleClosure,
+        DescriptionBundle: validator.checkBundleClosure,
+        Import: validator.checkImportKind,
+        RelationEntity: validator.checkRelationNames,
+        UnreifiedRelation: validator.checkRelationNames,
+        SpecializationAxiom: [
+            validator.checkSpecializationCompatibility,
+            validator.checkSpecializationCycle
+        ],
+        Member: validator.checkRefToImportedMember,
+        Description: [
+            validator.checkPropertyValues,
+            validator.checkInstanceRestrictions,
+            validator.checkConsistency,
+            validator.checkIncludedInBundle
+        ],
+        Vocabulary: validator.checkRestrictedValues,
+        ScalarEquivalenceAxiom: validator.checkFacetConsistency,
+        Rule: validator.checkRuleVariables,
+        BuiltInPredicate: validator.checkBuiltInSupported
     };
     registry.register(checks, validator);
+    registerBundleRevalidation(services);
+}
+
+/**
+ * Revalidate the validated descriptions when description bundles are built or deleted: whether a
+ * description is included in a bundle depends on bundles it does not reference, so they are not
+ * relinked, nor revalidated, when the bundles change.
+ */
+function registerBundleRevalidation(services: OmlServices): void {
+    const documentBuilder = services.shared.workspace.DocumentBuilder;
+    const langiumDocuments = services.shared.workspace.LangiumDocuments;
+    // The URIs of the documents of description bundles, as of their last build
+    const bundles = new Set<string>();
+    let deleted = false;
+    documentBuilder.onUpdate((_changed, deletedUris) => {
+        deleted = deletedUris.filter(uri => bundles.delete(uri.toString())).length > 0 || deleted;
+    });
+    documentBuilder.onBuildPhase(DocumentState.Validated, async (built, cancelToken) => {
+        let changed = deleted;
+        deleted = false;
+        for (const document of built) {
+            const uri = document.uri.toString();
+            changed ||= bundles.has(uri);
+            if (isDescriptionBundle(document.parseResult.value)) {
+                changed = true;
+                bundles.add(uri);
+            } else {
+                bundles.delete(uri);
+            }
+        }
+        const descriptions = langiumDocuments.all
+            .filter(d => isDescription(d.parseResult.value) && d.state === DocumentState.Validated && !built.includes(d))
+            .toArray();
+        if (changed && descriptions.length > 0) {
+            await documentBuilder.build(descriptions, { validation: true }, cancelToken);
+        }
+    });
 }
 
 /**
@@ -19,13 +176,578 @@ export function registerValidationChecks(services: OmlServices) {
  */
 export class OmlValidator {
 
+    protected readonly bundleResolver: OmlBundleResolver;
+    protected readonly reasoningProvider: OmlReasoningProvider;
+
+    constructor(services: OmlServices) {
+        this.bundleResolver = services.shared.workspace.BundleResolver;
+        this.reasoningProvider = services.shared.workspace.ReasoningProvider;
+    }
+
     checkConceptStartsWithCapital(concept: Concept, accept: ValidationAcceptor): void {
         if (concept.name) {
             const firstChar = concept.name.substring(0, 1);
             if (firstChar.toUpperCase() !== firstChar) {
-                accept('warning', 'Concept name should start with a capital.', { node: concept, property: 'name' });
+                accept('warning', 'Concept name should start with a capital.', { node: concept, property: 'name', code: OmlIssueCodes.LowercaseConceptName });
+            }
+        }
+    }
+
+    checkNamespaceSeparator(ontology: Ontology, accept: ValidationAcceptor): void {
+        const namespace = getNamespaceIri(ontology);
+        if (namespace && !namespace.endsWith('#') && !namespace.endsWith('/')) {
+            accept('error', `Namespace <${namespace}> must end with '#' or '/'.`, { node: ontology, property: 'namespace', code: OmlIssueCodes.InvalidNamespace });
+        }
+    }
+
+    checkUniquePrefixes(ontology: Ontology, accept: ValidationAcceptor): void {
+        const used = new Set(ontology.prefix ? [ontology.prefix] : []);
+        for (const imp of ontology.ownedImports) {
+            if (!imp.prefix) {
+                continue;
+            }
+            if (used.has(imp.prefix)) {
+                accept('error', `Prefix '${imp.prefix}' is already used in this ontology.`, { node: imp, property: 'prefix', code: OmlIssueCodes.DuplicatePrefix });
+            }
+            used.add(imp.prefix);
+        }
+    }
+
+    /**
+     * Vocabularies extend and use vocabularies; descriptions extend descriptions and use vocabularies.
+     */
+    checkImportKind(imp: Import, accept: ValidationAcceptor): void {
+        const importing = imp.$container;
+        const imported = imp.imported?.ref;
+        if (!imported) {
+            return;
+        }
+        let expected: string | undefined;
+        if (isVocabulary(importing) && !isVocabulary(imported)) {
+            expected = 'a vocabulary';
+        } else if (isDescription(importing) && imp.kind === 'uses' && !isVocabularyBox(imported)) {
+            expected = 'a vocabulary';
+        } else if (isDescription(importing) && imp.kind === 'extends' && !isDescriptionBox(imported)) {
+            expected = 'a description';
+        }
+        if (expected) {
+            accept('error', `${describeOntology(importing)} can only '${imp.kind}' ${expected}.`, { node: imp, property: 'imported', code: OmlIssueCodes.InvalidImport });
+        }
+    }
+
+    /**
+     * An ontology does not import itself, directly or through the ontologies it imports. The cycle
+     * is reported on the import of this ontology it goes through.
+     */
+    checkImportCycles(ontology: Ontology, accept: ValidationAcceptor): void {
+        const reported = new Set<Import>();
+        for (const cycle of this.bundleResolver.getClosure(ontology).cycles) {
+            const imp = cycle[0];
+            if (imp.$container === ontology && cycle[cycle.length - 1].imported?.ref === ontology && !reported.has(imp)) {
+                reported.add(imp);
+                const chain = [ontology, ...cycle.map(i => i.imported.ref!)].map(o => `<${getNamespaceIri(o)}>`).join(' -> ');
+                accept('warning', `The import of <${getImportedNamespace(imp)}> is cyclic: ${chain}.`, { node: imp, property: 'imported', code: OmlIssueCodes.ImportCycle });
+            }
+        }
+    }
+
+    /**
+     * The import closure of a bundle is complete: the imports of the ontologies it (transitively)
+     * imports are resolved. Unresolved imports of the bundle itself are reported by the linker.
+     */
+    checkBundleClosure(bundle: Ontology, accept: ValidationAcceptor): void {
+        for (const imp of this.bundleResolver.getClosure(bundle).unresolved.filter(i => i.$container !== bundle)) {
+            accept('error', `The closure of this bundle is incomplete: <${getImportedNamespace(imp)}>, imported by <${getNamespaceIri(imp.$container)}>, cannot be resolved.`, { node: bundle, property: 'namespace', code: OmlIssueCodes.UnresolvedImport });
+        }
+    }
+
+    /**
+     * Once the workspace has description bundles, every description is in the closure of one of
+     * them, so that it is part of a dataset.
+     */
+    checkIncludedInBundle(description: Description, accept: ValidationAcceptor): void {
+        const bundles = this.bundleResolver.getBundles().filter(isDescriptionBundle);
+        if (bundles.length > 0 && !bundles.some(b => this.bundleResolver.getClosure(b).ontologies.includes(description))) {
+            accept('warning', 'This description is not included in any description bundle.', { node: description, property: 'namespace', code: OmlIssueCodes.DescriptionNotInBundle });
+        }
+    }
+
+    /**
+     * Member names are unique in the namespace of an ontology; this includes the forward and reverse
+     * relations of relation entities and unreified relations.
+     */
+    checkUniqueMemberNames(ontology: Ontology, accept: ValidationAcceptor): void {
+        const seen = new Map<string, AstNode>();
+        for (const node of AstUtils.streamAllContents(ontology)) {
+            const name = (node as { name?: unknown }).name;
+            if (typeof name !== 'string' || !name) {
+                continue;
+            }
+            const first = seen.get(name);
+            if (!first) {
+                seen.set(name, node);
+            } else if (!isInSameRelation(first, node)) {
+                const relation = isForwardRelation(node) || isReverseRelation(node);
+                accept('error', `The name '${name}' is already used in this ontology.`, {
+                    node,
+                    property: 'name',
+                    code: relation ? OmlIssueCodes.DuplicateRelationName : OmlIssueCodes.DuplicateMember
+                });
+            }
+        }
+    }
+
+    checkRelationNames(relation: RelationEntity | UnreifiedRelation, accept: ValidationAcceptor): void {
+        const names = [relation.name, isRelationEntity(relation) ? relation.forwardRelation?.name : undefined];
+        const reverse = relation.reverseRelation;
+        if (isRelationEntity(relation) && relation.forwardRelation?.name && relation.forwardRelation.name === relation.name) {
+            accept('error', `The forward relation cannot have the name of its relation entity.`, { node: relation.forwardRelation, property: 'name', code: OmlIssueCodes.RelationNameClash });
+        }
+        if (reverse?.name && names.includes(reverse.name)) {
+            accept('error', `The reverse relation '${reverse.name}' clashes with the name of its relation.`, { node: reverse, property: 'name', code: OmlIssueCodes.RelationNameClash });
+        }
+    }
+
+    /**
+     * Terms only specialize terms of a compatible kind, e.g. a concept may specialize an aspect but
+     * an aspect may not specialize a concept.
+     */
+    checkSpecializationCompatibility(axiom: SpecializationAxiom, accept: ValidationAcceptor): void {
+        const sub = axiom.$container;
+        const sup = axiom.superTerm?.ref;
+        if (sup && !isCompatibleSpecialization(sub, sup)) {
+            accept('error', `${describeTerm(sub)} cannot specialize ${describeTerm(sup)} '${axiom.superTerm.$refText}'.`, { node: axiom, property: 'superTerm', code: OmlIssueCodes.IncompatibleSpecialization });
+        }
+    }
+
+    checkSpecializationCycle(axiom: SpecializationAxiom, accept: ValidationAcceptor): void {
+        const sup = axiom.superTerm?.ref;
+        if (sup && isCyclicSpecialization(axiom.$container, sup)) {
+            accept('error', `The specialization of '${axiom.superTerm.$refText}' creates a cycle.`, { node: axiom, property: 'superTerm', code: OmlIssueCodes.SpecializationCycle });
+        }
+    }
+
+    /**
+     * A `ref` redeclaration adds to a member of a directly imported ontology.
+     */
+    checkRefToImportedMember(member: Member, accept: ValidationAcceptor): void {
+        const redeclaration = member as Member & { ref?: Reference<Member> };
+        const reference = redeclaration.ref;
+        const target = reference?.ref;
+        const ontology = getOntology(member);
+        const targetOntology = getOntology(target);
+        if (!reference || !target || !ontology || !targetOntology) {
+            return;
+        }
+        if (targetOntology === ontology) {
+            accept('error', `'${reference.$refText}' is declared in this ontology and cannot be redeclared with 'ref'.`, { node: redeclaration, property: 'ref', code: OmlIssueCodes.InvalidRef });
+        } else if (!ontology.ownedImports.some(i => i.imported?.ref === targetOntology)) {
+            accept('error', `'${reference.$refText}' must be a member of an imported ontology.`, { node: redeclaration, property: 'ref', code: OmlIssueCodes.InvalidRef });
+        }
+    }
+
+    /**
+     * Property values of instances conform to the declarations of their properties: the instance
+     * is in the domain, literals match the scalar range, referenced instances are in the relation
+     * range, and functional properties have at most one value.
+     */
+    checkPropertyValues(description: Description, accept: ValidationAcceptor): void {
+        const hierarchy = new OmlHierarchy(description);
+        for (const node of AstUtils.streamAllContents(description)) {
+            const types = isConceptInstance(node) || isRelationInstance(node) ? hierarchy.getTypes(node)
+                : isAnonymousConceptInstance(node) && node.type?.ref ? hierarchy.getSuperTerms(node.type.ref)
+                : undefined;
+            const assertions = (node as { ownedPropertyValues?: PropertyValueAssertion[] }).ownedPropertyValues ?? [];
+            const counts = new Map<AstNode, number>();
+            for (const assertion of assertions) {
+                const property = assertion.property?.ref;
+                if (!property) {
+                    continue;
+                }
+                const signature = getPropertySignature(property, hierarchy);
+                const count = (counts.get(getDeclaration(property)) ?? 0) + assertion.literalValues.length + assertion.containedValues.length + assertion.referencedValues.length;
+                counts.set(getDeclaration(property), count);
+                if (signature.functional && count > 1) {
+                    accept('error', `'${assertion.property.$refText}' is functional and can have at most one value.`, { node: assertion, property: 'property', code: OmlIssueCodes.FunctionalProperty });
+                }
+                if (types && types.size > 0) {
+                    const missing = signature.domains.filter(d => d.ref && !types.has(getDeclaration(d.ref)));
+                    for (const domain of missing) {
+                        accept('error', `'${assertion.property.$refText}' is not applicable: its domain '${domain.$refText}' is not a type of this instance.`, { node: assertion, property: 'property', code: OmlIssueCodes.InvalidPropertyDomain });
+                    }
+                }
+                if (signature.scalar) {
+                    this.checkScalarValues(assertion, signature, hierarchy, accept);
+                } else {
+                    this.checkRelationValues(assertion, signature, hierarchy, accept);
+                }
+            }
+        }
+    }
+
+    protected checkScalarValues(assertion: PropertyValueAssertion, signature: PropertySignature, hierarchy: OmlHierarchy, accept: ValidationAcceptor): void {
+        if (assertion.containedValues.length > 0 || assertion.referencedValues.length > 0) {
+            accept('error', `'${assertion.property.$refText}' is a scalar property and only has literal values.`, { node: assertion, property: 'property', code: OmlIssueCodes.InvalidPropertyValue });
+        }
+        for (const range of signature.ranges) {
+            const rangeDatatype = getBuiltInDatatype(range, range.$refNode?.astNode ?? assertion, hierarchy);
+            const rangeCategory = rangeDatatype && getDatatypeCategory(rangeDatatype);
+            if (!rangeCategory) {
+                continue;
+            }
+            for (const literal of assertion.literalValues) {
+                const literalDatatype = getLiteralDatatype(literal, hierarchy);
+                const literalCategory = literalDatatype && getDatatypeCategory(literalDatatype);
+                if (literalCategory && !isCategoryCompatible(literalCategory, rangeCategory)) {
+                    accept('error', `${getLiteralText(literal)} is not a valid value of '${range.$refText}', the range of '${assertion.property.$refText}'.`, { node: literal, code: OmlIssueCodes.InvalidPropertyRange });
+                }
+            }
+        }
+        assertion.literalValues.forEach(literal => this.checkLiteralFacets(literal, signature.ranges, hierarchy, accept));
+    }
+
+    /**
+     * Literals restricting the value of scalar properties conform to the facets and enumerations
+     * of the property ranges.
+     */
+    checkRestrictedValues(vocabulary: Vocabulary, accept: ValidationAcceptor): void {
+        const hierarchy = new OmlHierarchy(vocabulary);
+        for (const node of AstUtils.streamAllContents(vocabulary)) {
+            if (isPropertyValueRestrictionAxiom(node) && node.literalValue && isScalarProperty(node.property?.ref)) {
+                const signature = getPropertySignature(node.property.ref, hierarchy);
+                this.checkLiteralFacets(node.literalValue, signature.ranges, hierarchy, accept);
+            }
+        }
+    }
+
+    /**
+     * Check a literal against the facets and enumerations of the given scalars and of the scalar
+     * given with `^^`, reporting one diagnostic per violated scalar.
+     */
+    protected checkLiteralFacets(literal: Literal, scalars: Array<Reference<AstNode>>, hierarchy: OmlHierarchy, accept: ValidationAcceptor): void {
+        const candidates = isQuotedLiteral(literal) && literal.type ? [...scalars, literal.type] : scalars;
+        for (const scalar of candidates) {
+            const violations = getFacetViolations(literal, getScalarFacets(scalar, hierarchy), hierarchy);
+            if (violations.length > 0) {
+                accept('error', `${getLiteralText(literal)} is not a valid '${scalar.$refText}': it ${violations.join(' and ')}.`, { node: literal, code: OmlIssueCodes.FacetViolation });
+            }
+        }
+    }
+
+    /**
+     * The facets of a scalar equivalence can be satisfied: bounds and lengths do not contradict
+     * each other and patterns are valid regular expressions.
+     */
+    checkFacetConsistency(axiom: ScalarEquivalenceAxiom, accept: ValidationAcceptor): void {
+        const report = (property: 'length' | 'minLength' | 'pattern' | 'minInclusive' | 'minExclusive', message: string) =>
+            accept('error', message, { node: axiom, property, code: OmlIssueCodes.InconsistentFacets });
+        const min = (values: number[]) => values.length > 0 ? Math.max(...values) : undefined;
+        const max = (values: number[]) => values.length > 0 ? Math.min(...values) : undefined;
+
+        const minLength = min([...axiom.minLength, ...axiom.length]);
+        const maxLength = max([...axiom.maxLength, ...axiom.length]);
+        if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+            report(axiom.length.length > 0 ? 'length' : 'minLength', `The length facets cannot be satisfied: the minimum length ${minLength} exceeds the maximum length ${maxLength}.`);
+        }
+        for (const pattern of axiom.pattern) {
+            if (!compilePattern(pattern)) {
+                report('pattern', `The pattern ${JSON.stringify(pattern)} is not a valid regular expression.`);
+            }
+        }
+        const lower = [...axiom.minInclusive.map(l => ({ value: numericValue(l), exclusive: false })), ...axiom.minExclusive.map(l => ({ value: numericValue(l), exclusive: true }))];
+        const upper = [...axiom.maxInclusive.map(l => ({ value: numericValue(l), exclusive: false })), ...axiom.maxExclusive.map(l => ({ value: numericValue(l), exclusive: true }))];
+        for (const l of lower) {
+            for (const u of upper) {
+                if (l.value !== undefined && u.value !== undefined && (l.value > u.value || (l.value === u.value && (l.exclusive || u.exclusive)))) {
+                    report(l.exclusive ? 'minExclusive' : 'minInclusive', `The range facets cannot be satisfied: the lower bound ${l.value} is not below the upper bound ${u.value}.`);
+                }
+            }
+        }
+    }
+
+    /**
+     * The variables of a rule are bound by the predicates of its antecedent that match facts;
+     * builtins and `differentFrom` only test bound variables and the consequent uses them.
+     */
+    checkRuleVariables(rule: Rule, accept: ValidationAcceptor): void {
+        const tests = (predicate: typeof rule.antecedent[number]) => isBuiltInPredicate(predicate) || isDifferentFromPredicate(predicate);
+        const bound = new Set(rule.antecedent.filter(p => !tests(p)).flatMap(getPredicateArguments).map(a => a.variable).filter(v => v !== undefined));
+        const predicates = [...rule.antecedent.filter(tests), ...rule.consequent];
+        for (const argument of predicates.flatMap(getPredicateArguments)) {
+            if (argument.variable && !bound.has(argument.variable)) {
+                accept('error', `Variable '${argument.variable}' is not bound by the antecedent of rule '${rule.name ?? rule.ref?.$refText}'.`, { node: argument, property: 'variable', code: OmlIssueCodes.UnboundRuleVariable });
+            }
+        }
+    }
+
+    checkBuiltInSupported(predicate: BuiltInPredicate, accept: ValidationAcceptor): void {
+        if (!getSupportedBuiltIn(predicate)) {
+            accept('warning', `Builtin '${predicate.builtIn.$refText}' is not supported by the rule engine, so the rule never applies. Supported builtins: ${Object.keys(SUPPORTED_BUILTINS).join(', ')}.`, { node: predicate, property: 'builtIn', code: OmlIssueCodes.UnknownBuiltIn });
+        }
+    }
+
+    protected checkRelationValues(assertion: PropertyValueAssertion, signature: PropertySignature, hierarchy: OmlHierarchy, accept: ValidationAcceptor): void {
+        if (assertion.literalValues.length > 0) {
+            accept('error', `'${assertion.property.$refText}' is a relation and cannot have literal values.`, { node: assertion, property: 'property', code: OmlIssueCodes.InvalidPropertyValue });
+        }
+        assertion.referencedValues.forEach((value, index) => {
+            const types = value.ref ? hierarchy.getTypes(value.ref) : undefined;
+            if (!types || types.size === 0) {
+                return;
+            }
+            for (const range of signature.ranges) {
+                if (range.ref && !types.has(getDeclaration(range.ref))) {
+                    accept('error', `'${value.$refText}' is not an instance of '${range.$refText}', the range of '${assertion.property.$refText}'.`, { node: assertion, property: 'referencedValues', index, code: OmlIssueCodes.InvalidPropertyRange });
+                }
+            }
+        });
+    }
+
+    /**
+     * Instances satisfy the property restrictions of their entailed types: cardinalities, `all` and
+     * `some` ranges, fixed values and `self`. Values and their types are the ones entailed by the
+     * reasoner, rules included. Violations are reported on the offending assertions, or on the
+     * instance when a required value is missing or only entailed.
+     */
+    checkInstanceRestrictions(description: Description, accept: ValidationAcceptor): void {
+        const reasoning = this.reasoningProvider.getReasoning(description);
+        const { reasoner, result } = reasoning;
+        const hierarchy = reasoner.hierarchy;
+        const checked = new Set<AstNode>();
+        for (const instance of description.ownedStatements) {
+            if (!(isConceptInstance(instance) || isRelationInstance(instance)) || checked.has(getDeclaration(instance))) {
+                continue;
+            }
+            checked.add(getDeclaration(instance));
+            const iri = getDeclaredIri(instance);
+            const types = new Set(hierarchy.getTypes(instance));
+            for (const type of iri ? result.facts.getTypes(iri).map(t => reasoner.getMember(t)).filter(isEntity) : []) {
+                types.add(getDeclaration(type));
+            }
+            for (const restriction of getPropertyRestrictions(types, hierarchy)) {
+                const property = restriction.property?.ref;
+                if (property) {
+                    const values = getPropertyValues(instance, property, hierarchy);
+                    const propertyIri = getReferenceIri(restriction.property, restriction);
+                    for (const value of iri && propertyIri ? result.facts.getValues(iri, propertyIri) : []) {
+                        const member = typeof value === 'string' ? reasoner.getMember(value) : undefined;
+                        if (isNamedInstance(member) && !values.some(v => v.value && getDeclaration(v.value) === getDeclaration(member))) {
+                            values.push({ value: member, source: instance });
+                        }
+                    }
+                    this.checkRestriction(instance, restriction, distinctValues(values, hierarchy), reasoning, accept);
+                }
+            }
+        }
+    }
+
+    /**
+     * The instances and their entailed facts are consistent with the vocabularies. Inconsistencies
+     * are reported on the instances of this description they are about, except disjoint types
+     * entailed from a property value already reported as outside the domain or range.
+     */
+    checkConsistency(description: Description, accept: ValidationAcceptor): void {
+        const { reasoner, result } = this.reasoningProvider.getReasoning(description);
+        const document = AstUtils.getDocument(description);
+        let invalidTypes: Map<string, Set<string>> | undefined;
+        for (const inconsistency of result.inconsistencies) {
+            const node = reasoner.getSubjectNodes(inconsistency.subject).find(n => AstUtils.getDocument(n) === document);
+            if (inconsistency.types) {
+                invalidTypes ??= getInvalidlyEntailedTypes(reasoner);
+                if (inconsistency.types.some(t => invalidTypes!.get(inconsistency.subject)?.has(t))) {
+                    continue;
+                }
+            }
+            if (isConceptInstance(node) || isRelationInstance(node)) {
+                accept('error', inconsistency.message, node.name ? { node, property: 'name', code: inconsistency.code } : { node, property: 'ref', code: inconsistency.code });
+            } else if (node) {
+                accept('error', inconsistency.message, { node, code: inconsistency.code });
+            }
+        }
+    }
+
+    protected checkRestriction(instance: NamedInstance, restriction: PropertyRestrictionAxiom, values: PropertyValue[], reasoning: Reasoning, accept: ValidationAcceptor): void {
+        const hierarchy = reasoning.reasoner.hierarchy;
+        const isOfType = (value: PropertyValue['value'], type: Reference<AstNode> | undefined) => isEntailedValueOfType(value, type, reasoning);
+        const name = instance.name ?? instance.ref?.$refText;
+        const property = restriction.property.$refText;
+        const restricted = `restricted by '${getRestrictingEntityName(restriction)}'`;
+        const onInstance = (message: string, code: string) =>
+            accept('error', message, instance.name ? { node: instance, property: 'name', code } : { node: instance, property: 'ref', code });
+        const onValues = (offending: PropertyValue[], message: string, code: string) => {
+            // Entailed values have the instance as source and are reported on it
+            const local = offending.filter(v => v.source !== instance && AstUtils.getDocument(v.source) === AstUtils.getDocument(instance));
+            if (local.length === 0) {
+                onInstance(message, code);
+            }
+            new Set(local.map(v => v.source)).forEach(source => accept('error', message, { node: source, code }));
+        };
+
+        if (isPropertyCardinalityRestrictionAxiom(restriction)) {
+            const range = restriction.range ? ` ${restriction.range.$refText}` : '';
+            const known = values.filter(v => !restriction.range || isOfType(v.value, restriction.range) === true);
+            const possible = values.filter(v => !restriction.range || isOfType(v.value, restriction.range) !== false);
+            const message = (count: number) => `'${name}' has ${count} values for '${property}' but is ${restricted} to ${restriction.kind} ${restriction.cardinality}${range}.`;
+            if (restriction.kind !== 'min' && known.length > restriction.cardinality) {
+                onValues(known.slice(restriction.cardinality), message(known.length), OmlIssueCodes.CardinalityViolation);
+            } else if (restriction.kind !== 'max' && possible.length < restriction.cardinality) {
+                onInstance(message(possible.length), OmlIssueCodes.CardinalityViolation);
+            }
+        } else if (isPropertyRangeRestrictionAxiom(restriction)) {
+            const range = restriction.range.$refText;
+            if (restriction.kind === 'all') {
+                const offending = values.filter(v => isOfType(v.value, restriction.range) === false);
+                if (offending.length > 0) {
+                    onValues(offending, `All values of '${property}' of '${name}' must be ${range} (${restricted}).`, OmlIssueCodes.RangeRestrictionViolation);
+                }
+            } else if (!values.some(v => isOfType(v.value, restriction.range) !== false)) {
+                onInstance(`'${name}' must have a value of '${property}' that is ${range} (${restricted}).`, OmlIssueCodes.RangeRestrictionViolation);
+            }
+        } else if (isPropertySelfRestrictionAxiom(restriction)) {
+            if (!values.some(v => v.value && getDeclaration(v.value) === getDeclaration(instance))) {
+                onInstance(`'${name}' must have itself as a value of '${property}' (${restricted}).`, OmlIssueCodes.SelfRestrictionViolation);
+            }
+        } else if (restriction.literalValue || restriction.referencedValue) {
+            const expected = restriction.literalValue ? getLiteralValue(restriction.literalValue, hierarchy) : restriction.referencedValue?.ref && getDeclaration(restriction.referencedValue.ref);
+            const text = restriction.literalValue ? getLiteralText(restriction.literalValue) : restriction.referencedValue?.$refText;
+            if (expected !== undefined && !values.some(v => valueKey(v, hierarchy) === expected)) {
+                const message = `'${name}' must have the value ${text} for '${property}' (${restricted}).`;
+                if (values.length > 0) {
+                    onValues(values, message, OmlIssueCodes.ValueRestrictionViolation);
+                } else {
+                    onInstance(message, OmlIssueCodes.ValueRestrictionViolation);
+                }
+            }
+        }
+    }
+
+}
+
+type PropertySignature = {
+    domains: Array<Reference<Entity>>;
+    ranges: Array<Reference<AstNode>>;
+    scalar: boolean;
+    functional: boolean;
+};
+
+/**
+ * Collect the domains, ranges and functionality of a property from its declaration and its `ref`
+ * redeclarations. Forward and reverse relations take them from their relation, reverse ones with
+ * domains and ranges swapped.
+ */
+function getPropertySignature(property: SemanticProperty, hierarchy: OmlHierarchy): PropertySignature {
+    const signature: PropertySignature = { domains: [], ranges: [], scalar: isScalarProperty(property), functional: false };
+    if (isScalarProperty(property)) {
+        for (const declaration of hierarchy.getRedeclarations(property)) {
+            signature.domains.push(...declaration.domains);
+            signature.ranges.push(...declaration.ranges);
+            signature.functional ||= declaration.functional;
+        }
+        return signature;
+    }
+    const reverse = isReverseRelation(property);
+    const relation = isForwardRelation(property) || isReverseRelation(property) ? property.$container : property;
+    for (const declaration of hierarchy.getRedeclarations(relation)) {
+        signature.domains.push(...(reverse ? declaration.targets : declaration.sources));
+        signature.ranges.push(...(reverse ? declaration.sources : declaration.targets));
+        signature.functional ||= reverse ? declaration.inverseFunctional : declaration.functional;
+    }
+    return signature;
+}
+
+/**
+ * Return, by instance IRI, the types that instances are entailed to have only because of property
+ * values outside the domain or range of their property: the domains they are not an instance of
+ * and the ranges the values are not an instance of, with their super terms, except the types the
+ * instances are asserted to have.
+ */
+function getInvalidlyEntailedTypes(reasoner: OmlReasoner): Map<string, Set<string>> {
+    const hierarchy = reasoner.hierarchy;
+    const invalid = new Map<string, Set<string>>();
+    const add = (instance: NamedInstance, types: Array<Reference<AstNode>>) => {
+        const iri = getDeclaredIri(instance);
+        const asserted = hierarchy.getTypes(instance);
+        if (!iri || asserted.size === 0) {
+            return;
+        }
+        const assertedIris = new Set([...asserted].map(getDeclaredIri));
+        for (const type of types) {
+            const typeIri = type.ref && !asserted.has(getDeclaration(type.ref)) ? getDeclaredIri(type.ref) : undefined;
+            if (typeIri) {
+                const entailed = invalid.get(iri) ?? new Set<string>();
+                reasoner.getSuperTerms(typeIri).forEach(t => assertedIris.has(t) || entailed.add(t));
+                invalid.set(iri, entailed);
+            }
+        }
+    };
+    for (const description of hierarchy.ontologies.filter(isDescription)) {
+        for (const node of AstUtils.streamAllContents(description)) {
+            if (!isConceptInstance(node) && !isRelationInstance(node)) {
+                continue;
+            }
+            for (const assertion of node.ownedPropertyValues) {
+                const property = assertion.property?.ref;
+                if (property) {
+                    const signature = getPropertySignature(property, hierarchy);
+                    add(node, signature.domains);
+                    assertion.referencedValues.forEach(v => isNamedInstance(v.ref) && add(v.ref, signature.ranges));
+                }
             }
         }
     }
+    return invalid;
+}
+
+/**
+ * Whether a value is of the given type, including the types entailed for named instances.
+ */
+function isEntailedValueOfType(value: PropertyValue['value'], type: Reference<AstNode> | undefined, { reasoner, result }: Reasoning): boolean | undefined {
+    const iri = isNamedInstance(value) ? getDeclaredIri(value) : undefined;
+    const typeIri = type?.ref && isEntity(type.ref) ? getDeclaredIri(type.ref) : undefined;
+    const types = iri ? result.facts.getTypes(iri) : [];
+    if (typeIri && types.length > 0) {
+        return types.includes(typeIri);
+    }
+    return isValueOfType(value, type, reasoner.hierarchy);
+}
+
+/**
+ * Identify a value by its literal value or by the declaration of the instance.
+ */
+function valueKey(value: PropertyValue, hierarchy: OmlHierarchy): unknown {
+    return value.value && (isLiteral(value.value) ? getLiteralValue(value.value, hierarchy) : getDeclaration(value.value));
+}
+
+function distinctValues(values: PropertyValue[], hierarchy: OmlHierarchy): PropertyValue[] {
+    const distinct = new Map<unknown, PropertyValue>();
+    for (const value of values) {
+        const key = valueKey(value, hierarchy) ?? value;
+        if (!distinct.has(key)) {
+            distinct.set(key, value);
+        }
+    }
+    return [...distinct.values()];
+}
+
+function getRestrictingEntityName(restriction: PropertyRestrictionAxiom): string | undefined {
+    const entity = getDeclaration(isEntityEquivalenceAxiom(restriction.$container) ? restriction.$container.$container : restriction.$container);
+    return entity.name;
+}
+
+function numericValue(literal: Literal): number | undefined {
+    const value = isQuotedLiteral(literal) ? Number(literal.value) : literal.value;
+    return typeof value === 'number' && !isNaN(value) ? value : undefined;
+}
+
+function isInSameRelation(a: AstNode, b: AstNode): boolean {
+    const relationOf = (node: AstNode) => isForwardRelation(node) || isReverseRelation(node) ? node.$container : node;
+    return relationOf(a) === relationOf(b);
+}
+
+function describeOntology(ontology: Ontology): string {
+    return isVocabulary(ontology) ? 'A vocabulary' : isDescription(ontology) ? 'A description' : 'A bundle';
+}
 
+function describeTerm(term: AstNode): string {
+    return term.$type.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().replace(/^(\w)/, c => /[aeiou]/.test(c) ? `an ${c}` : `a ${c}`);
 }
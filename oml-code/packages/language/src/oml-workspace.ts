@@ -0,0 +1,124 @@
+import { DefaultWorkspaceManager, DocumentState, type LangiumDocument, type LangiumDocuments, URI, UriUtils, type WorkspaceFolder } from 'langium';
+import { DefaultDocumentUpdateHandler } from 'langium/lsp';
+import { type CancellationToken, type DidChangeWatchedFilesParams, type FileEvent, FileChangeType } from 'vscode-languageserver';
+import { isOntology } from './generated/ast.js';
+import { OmlCatalogProvider } from './oml-catalog.js';
+import type { OmlSharedServices } from './oml-module.js';
+import { getImportedNamespace, getNamespaceIri } from './oml-utils.js';
+
+/**
+ * Workspace manager that, in addition to the `.oml` files of the workspace folders, loads the
+ * files declaring imported ontologies as mapped by the nearest `catalog.xml` (e.g. dependency
+ * ontologies unpacked in `build/oml`), so that they are indexed without being opened. The
+ * namespaces newly imported by the documents being built (e.g. after an edit) are loaded too.
+ */
+export class OmlWorkspaceManager extends DefaultWorkspaceManager {
+
+    protected readonly catalogProvider: OmlCatalogProvider;
+
+    constructor(services: OmlSharedServices) {
+        super(services);
+        this.catalogProvider = services.workspace.CatalogProvider;
+        this.documentBuilder.onBuildPhase(DocumentState.IndexedContent, (documents, cancelToken) => this.buildImportedDocuments(documents, cancelToken));
+    }
+
+    protected override async performStartup(folders: WorkspaceFolder[]): Promise<LangiumDocument[]> {
+        const documents = await super.performStartup(folders);
+        return [...documents, ...await this.loadImportedDocuments(documents)];
+    }
+
+    /**
+     * Load and build the documents declaring the namespaces imported by the given documents, so
+     * that they are indexed before the given documents get linked.
+     */
+    protected async buildImportedDocuments(documents: LangiumDocument[], cancelToken: CancellationToken): Promise<void> {
+        const imported = await this.loadImportedDocuments(documents);
+        if (imported.length > 0) {
+            await this.documentBuilder.build(imported, this.initialBuildOptions, cancelToken);
+        }
+    }
+
+    /**
+     * Transitively load the documents declaring the namespaces imported by the given documents.
+     * The imports of documents that are already loaded are followed too, but those documents
+     * are not loaded again.
+     *
+     * @returns The newly loaded documents, which still need to be built.
+     */
+    async loadImportedDocuments(documents: LangiumDocument[]): Promise<LangiumDocument[]> {
+        const declaring = new Map<string, LangiumDocument>();
+        for (const document of this.langiumDocuments.all) {
+            const root = document.parseResult.value;
+            if (isOntology(root)) {
+                declaring.set(getNamespaceIri(root), document);
+            }
+        }
+
+        const loaded: LangiumDocument[] = [];
+        const unresolved = new Set<string>();
+        const visited = new Set<LangiumDocument>();
+        const queue = [...documents];
+        while (queue.length > 0) {
+            const document = queue.shift()!;
+            const root = document.parseResult.value;
+            if (visited.has(document) || !isOntology(root)) {
+                continue;
+            }
+            visited.add(document);
+            for (const imp of root.ownedImports ?? []) {
+                const namespace = getImportedNamespace(imp);
+                if (!namespace || unresolved.has(namespace)) {
+                    continue;
+                }
+                let imported = declaring.get(namespace);
+                if (!imported) {
+                    const uri = await this.catalogProvider.resolveNamespace(document.uri, namespace);
+                    if (uri && this.langiumDocuments.hasDocument(uri)) {
+                        imported = this.langiumDocuments.getDocument(uri);
+                    } else if (uri && await this.fileSystemProvider.exists(uri)) {
+                        imported = await this.langiumDocuments.getOrCreateDocument(uri);
+                        loaded.push(imported);
+                    }
+                    if (!imported) {
+                        unresolved.add(namespace);
+                        continue;
+                    }
+                    declaring.set(namespace, imported);
+                }
+                queue.push(imported);
+            }
+        }
+        return loaded;
+    }
+
+}
+
+/**
+ * Document update handler that forgets the cached catalogs when a `catalog.xml` changes, and
+ * then rebuilds all documents so that the imports are loaded and linked with the new mappings.
+ */
+export class OmlDocumentUpdateHandler extends DefaultDocumentUpdateHandler {
+
+    protected readonly catalogProvider: OmlCatalogProvider;
+    protected readonly langiumDocuments: LangiumDocuments;
+
+    constructor(services: OmlSharedServices) {
+        super(services);
+        this.catalogProvider = services.workspace.CatalogProvider;
+        this.langiumDocuments = services.workspace.LangiumDocuments;
+    }
+
+    override didChangeWatchedFiles(params: DidChangeWatchedFilesParams): void {
+        const catalogChanged = params.changes.some(c => UriUtils.basename(URI.parse(c.uri)) === OmlCatalogProvider.CATALOG_FILE_NAME);
+        if (!catalogChanged) {
+            super.didChangeWatchedFiles(params);
+            return;
+        }
+        this.catalogProvider.clear();
+        const documents = this.langiumDocuments.all
+            .map((d): FileEvent => ({ uri: d.uri.toString(), type: FileChangeType.Changed }))
+            .toArray();
+        super.didChangeWatchedFiles({ changes: [...params.changes, ...documents] });
+    }
+
+}
@@ -0,0 +1,191 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem, TextDocument, URI, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import type { Ontology } from "oml-language";
+import { createOmlServices, findConflictingNamespaces, getDatasetName, getNamespaceIri, OmlIssueCodes, resolveBundleIri } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+const describeDiagnostics = (document: LangiumDocument) => document.diagnostics?.map(d => `${d.code} ${d.range.start.line}: ${d.message}`);
+
+/**
+ * Parse and validate documents together, so that they can import each other.
+ */
+async function parseAll(...inputs: Array<[string, string]>): Promise<Array<LangiumDocument<Ontology>>> {
+    const documents = inputs.map(([text, uri]) => services.shared.workspace.LangiumDocumentFactory.fromString<Ontology>(text, URI.parse(uri)));
+    documents.forEach(d => services.shared.workspace.LangiumDocuments.addDocument(d));
+    await services.shared.workspace.DocumentBuilder.build(documents, { validation: true });
+    return documents;
+}
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/base#> as base {
+            concept Thing
+        }
+    `, { documentUri: 'file:///base.oml' });
+    await parse(`
+        vocabulary <http://example.com/ext#> as ext {
+            extends <http://example.com/base#> as base
+            concept Part < base:Thing
+        }
+    `, { documentUri: 'file:///ext.oml' });
+    await parse(`
+        vocabulary bundle <http://example.com/vocabularies#> as vocabularies {
+            includes <http://example.com/ext#>
+        }
+    `, { documentUri: 'file:///vocabularies.oml' });
+    await parse(`
+        description <http://example.com/parts#> as parts {
+            uses <http://example.com/ext#> as ext
+            instance wheel : ext:Part
+        }
+    `, { documentUri: 'file:///parts.oml' });
+    await parse(`
+        description bundle <http://example.com/dataset#> as dataset {
+            uses <http://example.com/vocabularies#>
+            includes <http://example.com/parts#>
+        }
+    `, { documentUri: 'file:///dataset.oml' });
+});
+
+describe('Bundles', () => {
+
+    test('computes the import closure of bundles', () => {
+        const resolver = services.shared.workspace.BundleResolver;
+        const dataset = resolver.findOntology('http://example.com/dataset')!;
+        const parts = resolver.findOntology('http://example.com/parts#')!;
+
+        expect(resolver.getClosure(dataset).ontologies.map(getNamespaceIri)).toEqual([
+            'http://example.com/dataset#',
+            'http://example.com/vocabularies#',
+            'http://example.com/ext#',
+            'http://example.com/base#',
+            'http://example.com/parts#'
+        ]);
+        expect(resolver.getBundles().map(getNamespaceIri)).toEqual(['http://example.com/vocabularies#', 'http://example.com/dataset#']);
+        expect(resolver.getIncludingBundles(parts).map(getNamespaceIri)).toEqual(['http://example.com/dataset#']);
+    });
+
+    test('reports import cycles and unresolved imports of bundle closures', async () => {
+        const [left] = await parseAll([`
+            vocabulary <http://example.com/left#> as left {
+                uses <http://example.com/right#> as right
+            }
+        `, 'file:///left.oml'], [`
+            vocabulary <http://example.com/right#> as right {
+                extends <http://example.com/left#> as left
+                extends <http://example.com/missing#> as missing
+            }
+        `, 'file:///right.oml']);
+        const bundle = await parse(`
+            vocabulary bundle <http://example.com/cyclic#> as cyclic {
+                includes <http://example.com/left#>
+            }
+        `, { documentUri: 'file:///cyclic.oml', validation: true });
+        const closure = services.shared.workspace.BundleResolver.getClosure(bundle.parseResult.value);
+
+        expect(closure.cycles.map(c => c.map(i => i.imported.$refText))).toEqual([['<http://example.com/right#>', '<http://example.com/left#>']]);
+        expect(describeDiagnostics(left)).toEqual([
+            `${OmlIssueCodes.ImportCycle} 2: The import of <http://example.com/right#> is cyclic: <http://example.com/left#> -> <http://example.com/right#> -> <http://example.com/left#>.`
+        ]);
+        expect(describeDiagnostics(bundle)).toEqual([
+            `${OmlIssueCodes.UnresolvedImport} 1: The closure of this bundle is incomplete: <http://example.com/missing#>, imported by <http://example.com/right#>, cannot be resolved.`
+        ]);
+    });
+
+    test('warns about descriptions that are not included in a bundle', async () => {
+        // The description was parsed before the bundle including it
+        const included = services.shared.workspace.LangiumDocuments.getDocument(URI.parse('file:///parts.oml'))!;
+        const stray = await parse(`
+            description <http://example.com/stray#> as stray {
+                uses <http://example.com/ext#> as ext
+                instance bolt : ext:Part
+            }
+        `, { documentUri: 'file:///stray.oml', validation: true });
+
+        expect((await services.Oml.validation.DocumentValidator.validateDocument(included)).map(d => d.message)).toEqual([]);
+        expect(describeDiagnostics(stray)).toEqual([
+            `${OmlIssueCodes.DescriptionNotInBundle} 1: This description is not included in any description bundle.`
+        ]);
+    });
+
+    test('revalidates descriptions when a bundle changes', async () => {
+        const workspace = services.shared.workspace;
+        const editBundle = async (includes: string) => {
+            const text = `
+                description bundle <http://example.com/dataset#> as dataset {
+                    uses <http://example.com/vocabularies#>
+                    ${includes}
+                }
+            `;
+            workspace.TextDocuments.set(TextDocument.create('file:///dataset.oml', 'oml', 1, text));
+            await workspace.DocumentBuilder.update([URI.parse('file:///dataset.oml')], []);
+        };
+        // The stray description was validated before the bundle changed
+        const stray = workspace.LangiumDocuments.getDocument(URI.parse('file:///stray.oml'))!;
+
+        await editBundle('includes <http://example.com/parts#> includes <http://example.com/stray#>');
+        expect(describeDiagnostics(stray)).toEqual([]);
+
+        await editBundle('includes <http://example.com/parts#>');
+        expect(describeDiagnostics(stray)).toEqual([
+            `${OmlIssueCodes.DescriptionNotInBundle} 1: This description is not included in any description bundle.`
+        ]);
+    });
+
+    test('resolves bundles given by their IRI or by the name of a dataset of an oml.yml', () => {
+        const config = `
+datasets:
+  dataset:
+    iri: http://example.com/dataset
+    queries: src/sparql
+  empty: {}
+`;
+        expect(resolveBundleIri('http://example.com/vocabularies#', config)).toBe('http://example.com/vocabularies#');
+        expect(resolveBundleIri('dataset', config)).toBe('http://example.com/dataset');
+        expect(resolveBundleIri('empty', config)).toBeUndefined();
+        expect(resolveBundleIri('missing', config)).toBeUndefined();
+        expect(resolveBundleIri('dataset', undefined)).toBeUndefined();
+    });
+
+    test('finds the oml.yml dataset of a bundle, or the first dataset', () => {
+        const config = `
+datasets:
+  first:
+    iri: http://example.com/first
+  second:
+    iri: http://example.com/second
+`;
+        expect(getDatasetName(config, 'http://example.com/second')).toBe('second');
+        expect(getDatasetName(config, 'http://example.com/other')).toBe('first');
+        expect(getDatasetName('name: project', 'http://example.com/second')).toBeUndefined();
+    });
+
+    test('finds the merged namespaces that other documents declare with a different content', () => {
+        const resolver = services.shared.workspace.BundleResolver;
+        const ontologies = resolver.getClosure(resolver.findOntology('http://example.com/vocabularies')!).ontologies;
+        const factory = services.shared.workspace.LangiumDocumentFactory;
+        const documents = services.shared.workspace.LangiumDocuments;
+        const same = factory.fromString(documents.getDocument(URI.parse('file:///base.oml'))!.textDocument.getText(), URI.parse('file:///copy/base.oml'));
+        const different = factory.fromString(`
+            vocabulary <http://example.com/base#> as base {
+                concept Thing
+                concept Other
+            }
+        `, URI.parse('file:///other/base.oml'));
+        const unrelated = factory.fromString(`
+            vocabulary <http://example.com/unrelated#> as unrelated {
+            }
+        `, URI.parse('file:///other/unrelated.oml'));
+
+        const conflicts = findConflictingNamespaces(ontologies, [...documents.all.toArray(), same, different, unrelated]);
+        expect([...conflicts].map(([namespace, uris]) => [namespace, uris.map(u => u.toString())])).toEqual([
+            ['http://example.com/base#', ['file:///base.oml', 'file:///other/base.oml']]
+        ]);
+    });
+});
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { TextDocument, URI } from "langium";
+import { NodeFileSystem } from "langium/node";
+import { FileChangeType } from "vscode-languageserver";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createOmlServices, isDescription, OmlCatalog, OmlWorkspaceManager } from "oml-language";
+
+const catalogXml = `<?xml version='1.0'?>
+<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog" prefer="public">
+    <!-- <rewriteURI uriStartString="http://ignored/" rewritePrefix="ignored/" /> -->
+    <rewriteURI uriStartString="https://example.com/project/" rewritePrefix="src/oml/example.com/project/" />
+    <rewriteURI uriStartString="https://" rewritePrefix="build/oml/" />
+    <rewriteSystem systemIdStartString="urn:example:" rewritePrefix="file:///lib/" />
+</catalog>`;
+
+describe('Catalog', () => {
+
+    const catalog = OmlCatalog.parse(URI.file('/ws/catalog.xml'), catalogXml);
+
+    test('parses rewrite rules and skips comments', () => {
+        expect(catalog.rules.map(r => `${r.kind} ${r.startString} -> ${r.rewritePrefix}`)).toEqual([
+            'rewriteURI https://example.com/project/ -> src/oml/example.com/project/',
+            'rewriteURI https:// -> build/oml/',
+            'rewriteSystem urn:example: -> file:///lib/'
+        ]);
+    });
+
+    test('resolves namespaces with the longest matching rule', () => {
+        expect(catalog.resolveNamespace('https://example.com/project/requirements#')?.path).toBe('/ws/src/oml/example.com/project/requirements.oml');
+        expect(catalog.resolveNamespace('https://other.org/base/')?.path).toBe('/ws/build/oml/other.org/base.oml');
+        expect(catalog.resolveUri('urn:example:x')?.toString()).toBe('file:///lib/x');
+        expect(catalog.resolveNamespace('ftp://unmapped#')).toBeUndefined();
+    });
+});
+
+describe('Workspace manager', () => {
+
+    let root: string;
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'oml-catalog-'));
+        fs.mkdirSync(path.join(root, 'src', 'oml', 'example.com', 'project'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'build', 'oml', 'example.org'), { recursive: true });
+        fs.writeFileSync(path.join(root, 'catalog.xml'), catalogXml);
+        fs.writeFileSync(path.join(root, 'build', 'oml', 'example.org', 'base.oml'), `
+            vocabulary <https://example.org/base#> as base {
+                extends <https://example.org/units#> as units
+                concept Thing
+            }
+        `);
+        fs.writeFileSync(path.join(root, 'build', 'oml', 'example.org', 'units.oml'), `
+            vocabulary <https://example.org/units#> as units {
+                concept Unit
+            }
+        `);
+        fs.writeFileSync(path.join(root, 'src', 'oml', 'example.com', 'project', 'data.oml'), `
+            description <https://example.com/project/data#> as data {
+                uses <https://example.org/base#> as base
+                instance a : base:Thing
+            }
+        `);
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('loads imported ontologies through the catalog', async () => {
+        const services = createOmlServices(NodeFileSystem);
+        const workspace = services.shared.workspace;
+        const document = await workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.join(root, 'src', 'oml', 'example.com', 'project', 'data.oml')));
+        const workspaceManager = workspace.WorkspaceManager as OmlWorkspaceManager;
+        const imported = await workspaceManager.loadImportedDocuments([document]);
+        await workspace.DocumentBuilder.build([document, ...imported]);
+
+        expect(imported.map(d => path.relative(root, d.uri.fsPath))).toEqual([
+            path.join('build', 'oml', 'example.org', 'base.oml'),
+            path.join('build', 'oml', 'example.org', 'units.oml')
+        ]);
+        const description = document.parseResult.value;
+        expect(isDescription(description) && description.ownedStatements[0].ownedTypes[0].type.ref?.name).toBe('Thing');
+    });
+
+    test('follows the imports of documents that are already loaded', async () => {
+        const services = createOmlServices(NodeFileSystem);
+        const workspace = services.shared.workspace;
+        await workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.join(root, 'build', 'oml', 'example.org', 'base.oml')));
+        const document = await workspace.LangiumDocuments.getOrCreateDocument(URI.file(path.join(root, 'src', 'oml', 'example.com', 'project', 'data.oml')));
+        const imported = await (workspace.WorkspaceManager as OmlWorkspaceManager).loadImportedDocuments([document]);
+
+        expect(imported.map(d => path.relative(root, d.uri.fsPath))).toEqual([path.join('build', 'oml', 'example.org', 'units.oml')]);
+    });
+
+    test('loads the namespaces newly imported by an updated document', async () => {
+        const services = createOmlServices(NodeFileSystem);
+        const workspace = services.shared.workspace;
+        // Creating the workspace manager registers the loading of imports on builds
+        expect(workspace.WorkspaceManager).toBeInstanceOf(OmlWorkspaceManager);
+        const uri = URI.file(path.join(root, 'src', 'oml', 'example.com', 'project', 'draft.oml'));
+        const edit = async (version: number, text: string) => {
+            workspace.TextDocuments.set(TextDocument.create(uri.toString(), 'oml', version, text));
+            await workspace.DocumentBuilder.update([uri], []);
+        };
+
+        await edit(1, `
+            description <https://example.com/project/draft#> as draft {
+            }
+        `);
+        expect(workspace.LangiumDocuments.all.toArray()).toHaveLength(1);
+
+        await edit(2, `
+            description <https://example.com/project/draft#> as draft {
+                uses <https://example.org/base#> as base
+                instance a : base:Thing
+            }
+        `);
+        expect(workspace.LangiumDocuments.all.map(d => path.relative(root, d.uri.fsPath)).toArray().sort()).toEqual([
+            path.join('build', 'oml', 'example.org', 'base.oml'),
+            path.join('build', 'oml', 'example.org', 'units.oml'),
+            path.join('src', 'oml', 'example.com', 'project', 'draft.oml')
+        ]);
+        const description = workspace.LangiumDocuments.getDocument(uri)!.parseResult.value;
+        expect(isDescription(description) && description.ownedStatements[0].ownedTypes[0].type.ref?.name).toBe('Thing');
+    });
+
+    test('reloads the imports when a catalog changes', async () => {
+        const services = createOmlServices(NodeFileSystem);
+        const workspace = services.shared.workspace;
+        const folder = path.join(root, 'other');
+        fs.mkdirSync(folder, { recursive: true });
+        const catalogPath = path.join(folder, 'catalog.xml');
+        fs.writeFileSync(catalogPath, `<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog"/>`);
+        fs.writeFileSync(path.join(folder, 'data.oml'), `
+            description <https://example.com/other/data#> as data {
+                uses <https://example.org/base#> as base
+                instance a : base:Thing
+            }
+        `);
+        await workspace.WorkspaceManager.initializeWorkspace([{ name: 'other', uri: URI.file(folder).toString() }]);
+        const document = workspace.LangiumDocuments.getDocument(URI.file(path.join(folder, 'data.oml')))!;
+        expect(workspace.LangiumDocuments.all.toArray()).toHaveLength(1);
+
+        fs.writeFileSync(catalogPath, `<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+            <rewriteURI uriStartString="https://" rewritePrefix="../build/oml/" />
+        </catalog>`);
+        services.shared.lsp.DocumentUpdateHandler.didChangeWatchedFiles!({ changes: [{ uri: URI.file(catalogPath).toString(), type: FileChangeType.Changed }] });
+        await workspace.WorkspaceManager.ready;
+        await workspace.WorkspaceLock.read(() => {});
+
+        expect(workspace.LangiumDocuments.all.toArray()).toHaveLength(3);
+        const description = workspace.LangiumDocuments.getDocument(document.uri)!.parseResult.value;
+        expect(isDescription(description) && description.ownedStatements[0].ownedTypes[0].type.ref?.name).toBe('Thing');
+    });
+});
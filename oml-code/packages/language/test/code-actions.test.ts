@@ -0,0 +1,102 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem, TextDocument, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import type { CodeAction, Diagnostic } from "vscode-languageserver-types";
+import type { Ontology } from "oml-language";
+import { createOmlServices, OmlIssueCodes } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+/**
+ * Return the quick fixes of the first diagnostic of a document matching the given predicate.
+ */
+async function getQuickFixes(document: LangiumDocument, predicate: (diagnostic: Diagnostic) => boolean): Promise<CodeAction[]> {
+    const diagnostic = document.diagnostics!.find(predicate)!;
+    const actions = await services.Oml.lsp.CodeActionProvider!.getCodeActions(document, {
+        textDocument: { uri: document.uri.toString() },
+        range: diagnostic.range,
+        context: { diagnostics: [diagnostic] }
+    });
+    return (actions ?? []) as CodeAction[];
+}
+
+const applyEdits = (document: LangiumDocument, action: CodeAction) => TextDocument.applyEdits(document.textDocument, action.edit!.changes![document.uri.toString()]);
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/capability#> as capability {
+            concept Capability
+        }
+    `, { documentUri: 'file:///capability.oml' });
+});
+
+describe('Code actions', () => {
+
+    test('import the ontology declaring an unresolved reference', async () => {
+        const document = await parse(`
+            description <http://example.com/mission#> as mission {
+                instance drive : capability:Capability
+            }
+        `, { documentUri: 'file:///mission.oml', validation: true });
+        const [action] = await getQuickFixes(document, d => d.message.endsWith(`named 'capability:Capability'.`));
+
+        expect(action.title).toBe(`Import 'Capability' from <http://example.com/capability#> as capability`);
+        expect(action.isPreferred).toBe(true);
+        expect(applyEdits(document, action)).toBe(`
+            description <http://example.com/mission#> as mission {
+                uses <http://example.com/capability#> as capability
+                instance drive : capability:Capability
+            }
+        `);
+    });
+
+    test('import with a prefix that is not used yet, or use the prefix of an existing import', async () => {
+        const unqualified = await parse(`
+            vocabulary <http://example.com/rover#> as rover {
+                extends <http://example.com/other#> as capability
+
+                concept Arm < Capability
+            }
+        `, { documentUri: 'file:///rover.oml', validation: true });
+        const [imported] = await getQuickFixes(unqualified, d => d.message.endsWith(`named 'Capability'.`));
+
+        expect(applyEdits(unqualified, imported)).toBe(`
+            vocabulary <http://example.com/rover#> as rover {
+                extends <http://example.com/other#> as capability
+                extends <http://example.com/capability#> as capability1
+
+                concept Arm < capability1:Capability
+            }
+        `);
+
+        const prefixed = await parse(`
+            vocabulary <http://example.com/arm#> as arm {
+                extends <http://example.com/capability#> as cap
+                concept Joint < capability:Capability
+            }
+        `, { documentUri: 'file:///arm.oml', validation: true });
+        const [changed] = await getQuickFixes(prefixed, d => d.message.endsWith(`named 'capability:Capability'.`));
+
+        expect(changed.title).toBe(`Change to 'cap:Capability'`);
+        expect(applyEdits(prefixed, changed)).toContain('concept Joint < cap:Capability');
+    });
+
+    test('fixes concept names and namespaces', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/widgets> as widgets {
+                concept widget
+                concept Gadget < widget
+            }
+        `, { documentUri: 'file:///widgets.oml', validation: true });
+        const [capitalize] = await getQuickFixes(document, d => d.code === OmlIssueCodes.LowercaseConceptName);
+        const [separator] = await getQuickFixes(document, d => d.code === OmlIssueCodes.InvalidNamespace);
+
+        expect(capitalize.title).toBe(`Rename to 'Widget'`);
+        expect(applyEdits(document, capitalize)).toContain('concept Widget\n                concept Gadget < Widget');
+        expect(applyEdits(document, separator)).toContain('vocabulary <http://example.com/widgets#> as widgets');
+    });
+});
@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import { EmptyFileSystem, URI } from "langium";
+import { NodeFileSystem } from "langium/node";
+import { clearDocuments, expectCompletion, parseHelper, type ExpectedCompletion } from "langium/test";
+import type { CompletionItem } from "vscode-languageserver-types";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Ontology } from "oml-language";
+import { createOmlServices } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let complete: (expected: ExpectedCompletion) => Promise<void>;
+
+const withInsertText = (item: CompletionItem) => item.insertText && item.insertText !== item.label ? `${item.label} = ${item.insertText}` : item.label;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    // Remove the completed document before the next one, which declares the same namespace
+    complete = async expected => {
+        await expectCompletion(services.Oml)(expected);
+        await clearDocuments(services.shared, services.shared.workspace.LangiumDocuments.all.filter(d => d.uri.toString() !== 'file:///base.oml').toArray());
+    };
+
+    await parseHelper<Ontology>(services.Oml)(`
+        vocabulary <http://example.com/base#> as base {
+            concept Thing
+            aspect Named
+            scalar Text
+            relation entity Link [
+                from Thing
+                to Thing
+            ]
+        }
+    `, { documentUri: 'file:///base.oml' });
+});
+
+describe('Completion', () => {
+
+    const vocabulary = (body: string) => `
+        vocabulary <http://example.com/parts#> as parts {
+            extends <http://example.com/base#> as base
+            concept Part
+            ${body}
+        }
+    `;
+
+    test('offers the members of an imported ontology after its prefix', async () => {
+        await complete({ text: vocabulary('relation entity Fits [ from base:<|> ]'), index: 0, expectedItems: ['base:Thing', 'base:Named', 'base:Link'] });
+        await complete({ text: vocabulary('scalar property weight [ range base:<|> ]'), index: 0, expectedItems: ['base:Text'] });
+    });
+
+    test('offers one form of the references of the expected type', async () => {
+        await complete({ text: vocabulary('relation entity Fits [ from <|> ]'), index: 0, expectedItems: ['Part', 'Fits', 'base:Thing', 'base:Named', 'base:Link'] });
+        await complete({ text: vocabulary('concept Wheel < <<|>'), index: 0, expectedItems: ['<http://example.com/parts#Part>', '<http://example.com/base#Thing>', '<http://example.com/base#Named>'] });
+    });
+
+    test('offers the terms a specialization can specialize', async () => {
+        await complete({ text: vocabulary('aspect Round < <|>'), index: 0, expectedItems: ['base:Named'] });
+        await complete({ text: vocabulary('relation entity Fits [ from Part to Part ] < <|>'), index: 0, expectedItems: ['base:Named', 'base:Link'] });
+        await complete({ text: vocabulary('concept Hub < <|> concept Wheel < Hub concept Rim < Wheel'), index: 0, expectedItems: ['Part', 'base:Thing', 'base:Named'] });
+    });
+
+    test('offers the namespaces that can be imported with their prefix', async () => {
+        await complete({
+            text: `
+                vocabulary <http://example.com/other#> as other {
+                    extends <|>
+                }
+            `,
+            index: 0,
+            expectedItems: ['<http://example.com/base#> = <http://example.com/base#> as base'],
+            itemToString: withInsertText
+        });
+        await complete({
+            text: `
+                description <http://example.com/things#> as things {
+                    extends <|>
+                }
+            `,
+            index: 0,
+            expectedItems: []
+        });
+    });
+
+    test('offers templates of common declarations', async () => {
+        await complete({
+            text: vocabulary('scal<|>'),
+            index: 0,
+            expectedItems: ['scalar', 'scalar property = scalar property ${1:name} [\n\tdomain ${2:Entity}\n\trange ${3:xsd:string}\n]'],
+            itemToString: withInsertText
+        });
+        await complete({ text: vocabulary('ref scal<|>'), index: 0, expectedItems: ['scalar'] });
+    });
+});
+
+describe('Completion with a catalog', () => {
+
+    let root: string;
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'oml-completion-'));
+        fs.mkdirSync(path.join(root, 'build', 'oml', 'example.org'), { recursive: true });
+        fs.writeFileSync(path.join(root, 'catalog.xml'), `<?xml version='1.0'?>
+<catalog xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog" prefer="public">
+    <rewriteURI uriStartString="https://" rewritePrefix="build/oml/" />
+</catalog>`);
+        fs.writeFileSync(path.join(root, 'build', 'oml', 'example.org', 'units.oml'), `
+            @dc:title "Units"
+            vocabulary <https://example.org/units#> as units {
+                scalar Meter
+            }
+        `);
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('offers the namespaces of the files the catalog maps to', async () => {
+        const { Oml } = createOmlServices(NodeFileSystem);
+        const document = await parseHelper<Ontology>(Oml)(`
+            vocabulary <https://example.org/parts#> as parts {
+                uses <
+            }
+        `, { documentUri: URI.file(path.join(root, 'parts.oml')).toString() });
+        const completions = await Oml.lsp.CompletionProvider!.getCompletion(document, {
+            textDocument: { uri: document.uri.toString() },
+            position: document.textDocument.positionAt(document.textDocument.getText().lastIndexOf('<') + 1)
+        });
+
+        expect(completions?.items.map(withInsertText)).toEqual(['<https://example.org/units#> = <https://example.org/units#> as units']);
+    });
+
+    test('reads the catalog folders once until the workspace changes', async () => {
+        const { Oml, shared } = createOmlServices(NodeFileSystem);
+        const document = await parseHelper<Ontology>(Oml)(`
+            vocabulary <https://example.org/parts#> as parts {
+                uses <
+            }
+        `, { documentUri: URI.file(path.join(root, 'parts.oml')).toString() });
+        const params = {
+            textDocument: { uri: document.uri.toString() },
+            position: document.textDocument.positionAt(document.textDocument.getText().lastIndexOf('<') + 1)
+        };
+        const readDirectory = vi.spyOn(shared.workspace.FileSystemProvider, 'readDirectory');
+        await Oml.lsp.CompletionProvider!.getCompletion(document, params);
+        const calls = readDirectory.mock.calls.length;
+        const completions = await Oml.lsp.CompletionProvider!.getCompletion(document, params);
+        const cachedCalls = readDirectory.mock.calls.length;
+        await shared.workspace.DocumentBuilder.update([], []);
+        await Oml.lsp.CompletionProvider!.getCompletion(document, params);
+        const updatedCalls = readDirectory.mock.calls.length;
+        readDirectory.mockRestore();
+
+        expect(calls).toBeGreaterThan(0);
+        expect(cachedCalls).toBe(calls);
+        expect(updatedCalls).toBe(2 * calls);
+        expect(completions?.items.map(withInsertText)).toEqual(['<https://example.org/units#> = <https://example.org/units#> as units']);
+    });
+});
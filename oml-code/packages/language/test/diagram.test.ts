@@ -0,0 +1,256 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import type { DiagramLocation, DiagramModel, Ontology } from "oml-language";
+import { computeDiagramModel, computeLaidOutSModelForUri, createOmlServices, findDiagramElementAt, getDiagramElementMessage, getDiagramElements, handleDiagramViewMessage, renderDiagramSvg } from "oml-language";
+
+const describeNodes = (model: DiagramModel) => model.nodes.map(n => `${n.label}${n.external ? ' (external)' : ''}`);
+const describeEdges = (model: DiagramModel) => {
+    const labels = new Map(model.nodes.map(n => [n.id, n.label]));
+    return model.edges.map(e => `${labels.get(e.source)} -${e.kind}-> ${labels.get(e.target)}`);
+};
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/req#> as req {
+            concept Requirement
+            concept Stakeholder
+            relation entity Expression [
+                from Requirement
+                to Stakeholder
+                forward isExpressedBy
+            ]
+            scalar property description [
+                domain Requirement
+                range string
+            ]
+            scalar string
+        }
+    `, { documentUri: 'file:///req.oml' });
+    await parse(`
+        description <http://example.com/people#> as people {
+            uses <http://example.com/req#> as req
+            instance author : req:Stakeholder
+        }
+    `, { documentUri: 'file:///people.oml' });
+});
+
+describe('Description diagrams', () => {
+
+    test('renders instances, literal compartments and referenced values', async () => {
+        const document = await parse(`
+            description <http://example.com/reqs#> as reqs {
+                uses <http://example.com/req#> as req
+                extends <http://example.com/people#> as people
+                instance r1 : req:Requirement [
+                    req:description "Models must be versioned"
+                    req:isExpressedBy people:author
+                ]
+                relation instance e1 : req:Expression [
+                    from r1
+                    to people:author
+                ]
+            }
+        `, { documentUri: 'file:///reqs.oml' });
+
+        const model = await computeDiagramModel(services.shared, document.uri.toString());
+
+        expect(model.nodes.map(({ location, ...n }) => n)).toEqual([
+            { id: 'http://example.com/reqs#r1', iri: 'http://example.com/reqs#r1', label: 'r1 : Requirement', kind: 'concept-instance', compartments: ['description = "Models must be versioned"'] },
+            { id: 'http://example.com/reqs#e1', iri: 'http://example.com/reqs#e1', label: 'e1 : Expression', kind: 'relation-instance' },
+            { id: 'http://example.com/people#author', iri: 'http://example.com/people#author', label: 'people:author : Stakeholder', kind: 'concept-instance', external: true, namespace: 'http://example.com/people#' }
+        ]);
+        expect(model.edges.map(e => e.id)).toEqual([
+            'http://example.com/reqs#r1|http://example.com/req#isExpressedBy|http://example.com/people#author',
+            'http://example.com/reqs#r1|from|http://example.com/reqs#e1',
+            'http://example.com/reqs#e1|to|http://example.com/people#author'
+        ]);
+        expect(model.edges[0].label).toBe('isExpressedBy');
+        expect(model.nodes[2].location?.uri).toBe('file:///people.oml');
+    });
+});
+
+describe('Import-aware diagrams', () => {
+
+    const text = (name: string) => `
+        vocabulary <http://example.com/${name}#> as ${name} {
+            extends <http://example.com/req#> as req
+            concept SafetyRequirement < req:Requirement
+            relation entity Approval [
+                from SafetyRequirement
+                to req:Stakeholder
+            ]
+        }
+    `;
+
+    test('shows referenced terms of imported vocabularies as external nodes', async () => {
+        const document = await parse(text('spec'), { documentUri: 'file:///spec.oml' });
+        const model = await computeDiagramModel(services.shared, document.uri.toString());
+
+        expect(describeNodes(model)).toEqual(['SafetyRequirement', 'Approval', 'req:Requirement (external)', 'req:Stakeholder (external)']);
+        expect(describeEdges(model)).toEqual([
+            'SafetyRequirement -specialization-> req:Requirement',
+            'SafetyRequirement -relation-> Approval',
+            'Approval -relation-> req:Stakeholder'
+        ]);
+    });
+
+    test('expands imported vocabularies inline', async () => {
+        const document = await parse(text('spec2'), { documentUri: 'file:///spec2.oml' });
+        const model = await computeDiagramModel(services.shared, document.uri.toString(), { expandedImports: ['http://example.com/req#'] });
+
+        expect(describeNodes(model)).toEqual(['SafetyRequirement', 'Approval', 'req:Requirement', 'req:Stakeholder', 'req:Expression']);
+        expect(describeEdges(model)).toContain('req:Requirement -relation-> req:Expression');
+    });
+
+    test('gives parallel relations distinct ids with their source location', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/parallel#> as parallel {
+                concept A
+                concept B
+                relation R1 [
+                    from A
+                    to B
+                ]
+                relation R2 [
+                    from A
+                    to B
+                ]
+            }
+        `, { documentUri: 'file:///parallel.oml' });
+        const model = await computeDiagramModel(services.shared, document.uri.toString());
+
+        expect(model.edges.map(e => e.id)).toEqual([
+            'http://example.com/parallel#A|http://example.com/parallel#R1|http://example.com/parallel#B',
+            'http://example.com/parallel#A|http://example.com/parallel#R2|http://example.com/parallel#B'
+        ]);
+        expect(model.edges.map(e => e.location?.range.start.line)).toEqual([4, 8]);
+    });
+
+    test('labels relations with the cardinalities and super relations of their own vocabulary', async () => {
+        await parse(`
+            vocabulary <http://example.com/machines#> as machines {
+                concept Part < [
+                    restricts has to max 2
+                ]
+                relation has [
+                    from Part
+                    to Part
+                ]
+            }
+        `, { documentUri: 'file:///machines.oml' });
+        const document = await parse(`
+            vocabulary <http://example.com/robots#> as robots {
+                extends <http://example.com/machines#> as machines
+                concept Part
+                relation has [
+                    from Part
+                    to Part
+                    functional
+                ] < machines:has
+            }
+        `, { documentUri: 'file:///robots.oml' });
+        const model = await computeDiagramModel(services.shared, document.uri.toString(), { expandedImports: ['http://example.com/machines#'] });
+        const relations = model.edges.filter(e => e.kind === 'relation');
+
+        expect(relations.map(e => [e.id, e.label])).toEqual([
+            ['http://example.com/robots#Part|http://example.com/robots#has|http://example.com/robots#Part', 'has [0..1]\n{subsets has}'],
+            ['http://example.com/machines#Part|http://example.com/machines#has|http://example.com/machines#Part', 'has [0..2]']
+        ]);
+    });
+});
+
+describe('Diagram export', () => {
+
+    test('renders laid-out diagrams as SVG', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/export#> as export {
+                extends <http://example.com/req#> as req
+                concept Review < req:Requirement
+            }
+        `, { documentUri: 'file:///export.oml' });
+        const root = await computeLaidOutSModelForUri(services.shared, document.uri.toString());
+        const svg = renderDiagramSvg(root, 'dark');
+
+        expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="\d+"/);
+        expect(svg).toContain('fill="#1e1e1e"');
+        expect(svg).toContain('>C: Review</tspan>');
+        expect(svg).toContain('>C: req:Requirement</tspan>');
+        expect(svg).toContain('marker-end="url(#oml-closed-triangle)"');
+        expect(svg.match(/stroke-dasharray="6 4"/g)).toHaveLength(1);
+    });
+});
+
+describe('Diagram messages', () => {
+
+    const REVIEW = 'http://example.com/review#';
+    const AUDIT = 'http://example.com/audit#';
+
+    test('attaches the IRI, namespace and declaration of nodes and edges to the laid-out model', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/review#> as review {
+                extends <http://example.com/req#> as req
+                concept Review < req:Requirement
+                relation reviews [
+                    from Review
+                    to req:Requirement
+                ]
+            }
+        `, { documentUri: 'file:///review.oml' });
+        const elements = getDiagramElements(await computeLaidOutSModelForUri(services.shared, document.uri.toString()));
+        const describe = (id: string) => {
+            const { iri, namespace, location } = elements.get(id) ?? {};
+            return { iri, namespace, uri: location?.uri, line: location?.range.start.line };
+        };
+
+        expect(describe(`${REVIEW}Review`)).toEqual({ iri: `${REVIEW}Review`, namespace: undefined, uri: 'file:///review.oml', line: 3 });
+        expect(describe('http://example.com/req#Requirement')).toEqual({ iri: 'http://example.com/req#Requirement', namespace: 'http://example.com/req#', uri: 'file:///req.oml', line: 2 });
+        expect(describe(`${REVIEW}Review|specializes|http://example.com/req#Requirement`)).toEqual({ iri: `${REVIEW}Review`, namespace: undefined, uri: 'file:///review.oml', line: 3 });
+        expect(describe(`${REVIEW}Review|${REVIEW}reviews|http://example.com/req#Requirement`)).toEqual({ iri: `${REVIEW}reviews`, namespace: undefined, uri: 'file:///review.oml', line: 4 });
+    });
+
+    test('resolves the elements at the editor cursor and the double-clicked elements', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/audit#> as audit {
+                extends <http://example.com/req#> as req
+                concept Audit < req:Requirement
+            }
+        `, { documentUri: 'file:///audit.oml' });
+        const elements = getDiagramElements(await computeLaidOutSModelForUri(services.shared, document.uri.toString()));
+        const positionOf = (text: string) => document.textDocument.positionAt(document.textDocument.getText().indexOf(text));
+        const received: string[] = [];
+        const handler = {
+            requestModel: async () => { received.push('requestModel'); },
+            navigate: async ({ uri, range }: DiagramLocation) => { received.push(`navigate ${uri}:${range.start.line}`); },
+            toggleImport: async (namespace: string) => { received.push(`toggleImport ${namespace}`); }
+        };
+
+        expect(findDiagramElementAt(elements, 'file:///audit.oml', positionOf('Audit <'))).toBe(`${AUDIT}Audit`);
+        expect(findDiagramElementAt(elements, 'file:///audit.oml', positionOf('req:Requirement'))).toBe(`${AUDIT}Audit|specializes|http://example.com/req#Requirement`);
+        expect(findDiagramElementAt(elements, 'file:///other.oml', positionOf('Audit <'))).toBeUndefined();
+
+        const requirement = elements.get('http://example.com/req#Requirement');
+        for (const message of [
+            { type: 'requestModel' },
+            getDiagramElementMessage(elements.get(`${AUDIT}Audit`), true),
+            getDiagramElementMessage(requirement, false),
+            getDiagramElementMessage(requirement, true),
+            { type: 'navigate' },
+            { type: 'toggleImport', namespace: 1 }
+        ]) {
+            await handleDiagramViewMessage(message, handler);
+        }
+        expect(received).toEqual([
+            'requestModel',
+            'navigate file:///audit.oml:3',
+            'navigate file:///req.oml:2',
+            'toggleImport http://example.com/req#'
+        ]);
+    });
+});
@@ -0,0 +1,125 @@
+import { beforeAll, describe, test } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { expectFormatting } from "langium/test";
+import { createOmlServices } from "oml-language";
+
+let format: ReturnType<typeof expectFormatting>;
+
+beforeAll(() => {
+    format = expectFormatting(createOmlServices(EmptyFileSystem).Oml);
+});
+
+describe('Formatter', () => {
+
+    test('indents blocks, spaces tokens and puts annotations on their own lines', async () => {
+        await format({
+            before: `@dc:title "Vehicles"   vocabulary <http://example.com/vehicles#> as vehicles {
+  concept Vehicle [oneOf car,bike key id ,name] < Thing,Named
+      @rdfs:comment "A wheel"$en, "Rad"^^xsd:string concept Wheel
+scalar property id [ domain Vehicle range xsd:string functional ]
+relation entity HasWheel [from Vehicle to Wheel forward wheels reverse wheelOf inverse functional asymmetric]
+rule r [ Vehicle( v ) & wheels(v,w)->Wheel ( w ) ]
+  aspect Named < [ restricts all id to Thing ] = Thing & Wheel [ restricts id to exactly 1 ]
+ scalar Code = xsd:string [ length 2 pattern "[A-Z]+" ]
+ concept Empty []
+}`,
+            after: `@dc:title "Vehicles"
+vocabulary <http://example.com/vehicles#> as vehicles {
+    concept Vehicle [
+        oneOf car, bike
+        key id, name
+    ] < Thing, Named
+    @rdfs:comment "A wheel"$en, "Rad"^^xsd:string
+    concept Wheel
+    scalar property id [
+        domain Vehicle
+        range xsd:string
+        functional
+    ]
+    relation entity HasWheel [
+        from Vehicle
+        to Wheel
+        forward wheels
+        reverse wheelOf
+        inverse functional
+        asymmetric
+    ]
+    rule r [
+        Vehicle(v) & wheels(v, w) -> Wheel(w)
+    ]
+    aspect Named < [
+        restricts all id to Thing
+    ] = Thing & Wheel [
+        restricts id to exactly 1
+    ]
+    scalar Code = xsd:string [
+        length 2
+        pattern "[A-Z]+"
+    ]
+    concept Empty []
+}
+`,
+            disposeAfterCheck: true
+        });
+    });
+
+    test('orders the imports by kind and keeps comments and blank lines', async () => {
+        await format({
+            before: `// Fleet
+description <http://example.com/fleet#> as fleet {
+        uses <http://example.com/vehicles#> as vehicles
+   extends <http://example.com/base#> as base
+
+
+
+    /* Cars */
+    instance beetle : vehicles:Car [ vehicles:name "Herbie" // the name
+        vehicles:wheels front, [ vehicles:size 15 ] ]
+    relation instance parked : vehicles:ParkedIn [ from beetle to garage ]
+}
+`,
+            after: `// Fleet
+description <http://example.com/fleet#> as fleet {
+\textends <http://example.com/base#> as base
+\tuses <http://example.com/vehicles#> as vehicles
+
+\t/* Cars */
+\tinstance beetle : vehicles:Car [
+\t\tvehicles:name "Herbie" // the name
+\t\tvehicles:wheels front, [
+\t\t\tvehicles:size 15
+\t\t]
+\t]
+\trelation instance parked : vehicles:ParkedIn [
+\t\tfrom beetle
+\t\tto garage
+\t]
+}
+`,
+            options: { tabSize: 4, insertSpaces: false },
+            disposeAfterCheck: true
+        });
+    });
+
+    test('formats only the given range, and not documents with syntax errors', async () => {
+        await format({
+            before: `vocabulary <http://example.com/shapes#> as shapes {
+  concept Shape [key id]
+  concept Circle < Shape,Round
+}
+`,
+            after: `vocabulary <http://example.com/shapes#> as shapes {
+  concept Shape [key id]
+    concept Circle < Shape, Round
+}
+`,
+            range: { start: { line: 2, character: 0 }, end: { line: 2, character: 30 } },
+            disposeAfterCheck: true
+        });
+        await format({
+            before: `vocabulary <http://example.com/shapes#> as shapes {  concept Shape [ }`,
+            after: `vocabulary <http://example.com/shapes#> as shapes {  concept Shape [ }`,
+            disposeAfterCheck: true
+        });
+    });
+});
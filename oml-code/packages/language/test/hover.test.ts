@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import type { MarkupContent } from "vscode-languageserver-types";
+import type { Ontology } from "oml-language";
+import { createOmlServices } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+/**
+ * Return the hover of the text at the end of the first occurrence of a marker in a document.
+ */
+async function hover(document: LangiumDocument, marker: string): Promise<string | undefined> {
+    const offset = document.textDocument.getText().indexOf(marker);
+    const result = await services.Oml.lsp.HoverProvider!.getHoverContent(document, {
+        textDocument: { uri: document.uri.toString() },
+        position: document.textDocument.positionAt(offset + marker.length)
+    });
+    return (result?.contents as MarkupContent | undefined)?.value;
+}
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://purl.org/dc/elements/1.1/> as dc {
+            annotation property description
+        }
+    `, { documentUri: 'file:///dc.oml' });
+    await parse(`
+        vocabulary <http://example.com/vehicles#> as vehicles {
+            extends <http://purl.org/dc/elements/1.1/> as dc
+
+            aspect Named < [
+                restricts name to exactly 1
+            ]
+            @dc:description "Something that moves."
+            concept Vehicle < Named
+            concept Car < Vehicle [
+                restricts all wheels to Wheel
+            ]
+            concept Wheel
+            scalar property name [
+                domain Named
+                range xsd:string
+                functional
+            ]
+            relation entity HasWheel [
+                from Vehicle
+                to Wheel
+                forward wheels
+                reverse wheelOf
+                inverse functional
+                asymmetric
+            ]
+        }
+    `, { documentUri: 'file:///vehicles.oml' });
+});
+
+describe('Hover', () => {
+
+    test('shows the IRI, description and supertypes of a term', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/cars#> as cars {
+                extends <http://example.com/vehicles#> as vehicles
+                concept Truck < vehicles:Car
+            }
+        `);
+
+        expect(await hover(document, 'vehicles:C')).toBe([
+            '**concept** `vehicles:Car`\n\n`<http://example.com/vehicles#Car>`',
+            'Supertypes: `vehicles:Vehicle`\n\n'
+                + 'Inherited supertypes: `vehicles:Named`\n\n'
+                + 'Restrictions:\n- `restricts all wheels to Wheel`\n- `restricts name to exactly 1` (from `vehicles:Named`)'
+        ].join('\n\n---\n\n'));
+        expect(await hover(document, 'concept Tr')).toContain('Inherited supertypes: `vehicles:Vehicle`, `vehicles:Named`');
+    });
+
+    test('shows the description annotations and the axioms of properties', async () => {
+        const vehicles = services.shared.workspace.LangiumDocuments.all.find(d => d.uri.path === '/vehicles.oml')!;
+
+        expect(await hover(vehicles, 'concept Ve')).toContain('Something that moves.');
+        expect(await hover(vehicles, 'property na')).toContain('Domain: `vehicles:Named`\n\nRange: `xsd:string`\n\nCharacteristics: functional');
+        expect(await hover(vehicles, 'reverse wh')).toContain('**reverse relation** `vehicles:wheelOf`');
+        expect(await hover(vehicles, 'reverse wh')).toContain('Domain: `vehicles:Wheel`\n\nRange: `vehicles:Vehicle`\n\nCharacteristics: inverse functional, asymmetric');
+    });
+
+    test('shows the types and property values of instances', async () => {
+        const document = await parse(`
+            description <http://example.com/garage#> as garage {
+                uses <http://example.com/vehicles#> as vehicles
+                instance front : vehicles:Wheel
+                instance beetle : vehicles:Car [
+                    vehicles:name "Herbie"
+                    vehicles:wheels front
+                ]
+            }
+        `);
+
+        expect(await hover(document, 'instance be')).toBe([
+            '**concept instance** `garage:beetle`\n\n`<http://example.com/garage#beetle>`',
+            'Types: `vehicles:Car`\n\n'
+                + 'Inherited types: `vehicles:Vehicle`, `vehicles:Named`\n\n'
+                + 'Property values:\n- `vehicles:name` `"Herbie"`\n- `vehicles:wheels` `garage:front`'
+        ].join('\n\n---\n\n'));
+    });
+});
@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import type { Ontology, Vocabulary } from "oml-language";
+import { createOmlServices, vocabularyToJsonSchema } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/base#> as base {
+            concept Thing
+            scalar Code = <http://www.w3.org/2001/XMLSchema#string> [
+                length 3
+                pattern "[A-Z]+"
+            ]
+        }
+    `, { documentUri: 'file:///base.oml' });
+});
+
+describe('JSON Schema', () => {
+
+    test('converts entities, properties, restrictions and scalars', async () => {
+        const vocabulary = (await parse(`
+            vocabulary <http://example.com/fleet#> as fleet {
+                extends <http://example.com/base#> as base
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                aspect Named
+                concept Vehicle < base:Thing, Named [
+                    restricts wheels to min 2
+                    restricts wheels to max 4
+                    restricts color to exactly 1
+                ]
+                concept Wheel
+                relation entity HasWheel [
+                    from Vehicle
+                    to Wheel
+                    forward wheels
+                ]
+                scalar property color [
+                    domain Vehicle
+                    range Color
+                    functional
+                ]
+                scalar property code [
+                    domain Named
+                    range base:Code
+                ]
+                scalar Color [
+                    oneOf "red", "blue"
+                ]
+                scalar Size = xsd:integer [
+                    minInclusive 10
+                    maxExclusive 30
+                ]
+            }
+        `, { documentUri: 'file:///fleet.oml' })).parseResult.value as Vocabulary;
+        const closure = services.shared.workspace.BundleResolver.getClosure(vocabulary).ontologies;
+        const schema = vocabularyToJsonSchema(vocabulary, closure);
+
+        expect(schema.$id).toBe('http://example.com/fleet');
+        expect(Object.keys(schema.$defs!)).toEqual(['Named', 'Vehicle', 'Wheel', 'HasWheel', 'Color', 'Size', 'base:Thing', 'base:Code']);
+        expect(schema.$defs!.Vehicle).toEqual({
+            type: 'object',
+            allOf: [{ $ref: '#/$defs/base:Thing' }, { $ref: '#/$defs/Named' }],
+            properties: {
+                wheels: { type: 'array', items: { type: 'string', format: 'iri' }, minItems: 2, maxItems: 4 },
+                color: { $ref: '#/$defs/Color' }
+            },
+            required: ['wheels', 'color']
+        });
+        expect(schema.$defs!.HasWheel.properties).toEqual({
+            source: { type: 'string', format: 'iri' },
+            target: { type: 'string', format: 'iri' }
+        });
+        expect(schema.$defs!.Named.properties).toEqual({ code: { type: 'array', items: { $ref: '#/$defs/base:Code' } } });
+        expect(schema.$defs!.Color).toEqual({ enum: ['red', 'blue'] });
+        expect(schema.$defs!.Size).toEqual({ type: 'integer', minimum: 10, exclusiveMaximum: 30 });
+        expect(schema.$defs!['base:Code']).toEqual({ type: 'string', minLength: 3, maxLength: 3, pattern: '^(?:[A-Z]+)$' });
+    });
+
+    test('matches patterns against whole values', () => {
+        const vocabulary = services.shared.workspace.LangiumDocuments.all.find(d => d.uri.path === '/base.oml')!.parseResult.value as Vocabulary;
+        const pattern = new RegExp(vocabularyToJsonSchema(vocabulary).$defs!.Code.pattern!, 'u');
+
+        expect(pattern.test('ABC')).toBe(true);
+        expect(pattern.test('aBC')).toBe(false);
+        expect(pattern.test('AB1')).toBe(false);
+    });
+
+    test('maps XSD built-ins to JSON types without definitions', async () => {
+        await parse(`
+            vocabulary <http://www.w3.org/2001/XMLSchema#> as xsd {
+                scalar string
+                scalar integer
+                scalar dateTime
+            }
+        `, { documentUri: 'file:///xsd.oml' });
+        const vocabulary = (await parse(`
+            vocabulary <http://example.com/log#> as log {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                concept Entry
+                scalar Level = xsd:integer [
+                    minInclusive 0
+                ]
+                scalar property time [
+                    domain Entry
+                    range xsd:dateTime
+                    functional
+                ]
+                scalar property message [
+                    domain Entry
+                    range xsd:string
+                    functional
+                ]
+            }
+        `, { documentUri: 'file:///log.oml' })).parseResult.value as Vocabulary;
+        const closure = services.shared.workspace.BundleResolver.getClosure(vocabulary).ontologies;
+        const schema = vocabularyToJsonSchema(vocabulary, closure);
+
+        expect(Object.keys(schema.$defs!)).toEqual(['Entry', 'Level']);
+        expect(schema.$defs!.Entry.properties).toEqual({
+            time: { type: 'string', format: 'date-time' },
+            message: { type: 'string' }
+        });
+        expect(schema.$defs!.Level).toEqual({ type: 'integer', minimum: 0 });
+    });
+});
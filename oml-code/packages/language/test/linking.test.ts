@@ -3,11 +3,12 @@ import { EmptyFileSystem, type LangiumDocument } from "langium";
 import { expandToString as s } from "langium/generate";
 import { clearDocuments, parseHelper } from "langium/test";
 import type { Ontology } from "oml-language";
-import { createOmlServices, isOntology, isVocabulary } from "oml-language";
+import { createOmlServices, isDescription, isOntology, isVocabulary } from "oml-language";
 
 let services: ReturnType<typeof createOmlServices>;
 let parse:    ReturnType<typeof parseHelper<Ontology>>;
 let document: LangiumDocument<Ontology> | undefined;
+let imported: LangiumDocument<Ontology> | undefined;
 
 beforeAll(async () => {
     services = createOmlServices(EmptyFileSystem);
@@ -19,6 +20,8 @@ beforeAll(async () => {
 
 afterEach(async () => {
     document && clearDocuments(services.shared, [ document ]);
+    imported && clearDocuments(services.shared, [ imported ]);
+    imported = undefined;
 });
 
 describe('Linking tests', () => {
@@ -41,8 +44,64 @@ describe('Linking tests', () => {
             A
         `);
     });
+
+    test('linking of prefixed and full IRI references across files', async () => {
+        imported = await parse(`
+            vocabulary <http://example.com/base#> as base {
+                concept Thing
+                relation entity Link [ from Thing to Thing forward links ]
+            }
+        `, { documentUri: 'file:///base.oml' });
+        document = await parse(`
+            description <http://example.com/data#> as data {
+                uses <http://example.com/base#> as b
+                instance a : b:Thing
+                instance c : <http://example.com/base#Thing> [
+                    b:links a
+                ]
+            }
+        `, { documentUri: 'file:///data.oml' });
+
+        expect(checkDocumentValid(document) || describeInstances(document)).toBe(s`
+            a : Thing
+            c : Thing [links -> a]
+        `);
+    });
+
+    test('members of ontologies that are not imported are not visible', async () => {
+        imported = await parse(`
+            vocabulary <http://example.com/base#> as base {
+                concept Thing
+            }
+        `, { documentUri: 'file:///base.oml' });
+        document = await parse(`
+            description <http://example.com/data#> as data {
+                instance a : base:Thing
+                instance b : <http://example.com/base#Thing>
+            }
+        `, { documentUri: 'file:///data.oml' });
+
+        expect(checkDocumentValid(document) || describeInstances(document)).toBe(s`
+            a : <unresolved>
+            b : <unresolved>
+        `);
+    });
 });
 
+function describeInstances(document: LangiumDocument<Ontology>): string {
+    const root = document.parseResult.value;
+    if (!isDescription(root)) {
+        return '';
+    }
+    return root.ownedStatements.map(i => {
+        const types = i.ownedTypes.map(t => t.type.ref?.name ?? '<unresolved>').join(', ');
+        const values = i.ownedPropertyValues
+            .map(pv => `${pv.property.ref?.name ?? '<unresolved>'} -> ${pv.referencedValues.map(v => v.ref?.name ?? '<unresolved>').join(', ')}`)
+            .join(', ');
+        return values ? `${i.name} : ${types} [${values}]` : `${i.name} : ${types}`;
+    }).join('\n');
+}
+
 function checkDocumentValid(document: LangiumDocument): string | undefined {
     return document.parseResult.parserErrors.length && s`
         Parser errors:
@@ -0,0 +1,169 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import * as oxigraph from "oxigraph";
+import type { Ontology } from "oml-language";
+import { createOmlServices, ontologyToTurtle } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+const oml = 'http://opencaesar.io/oml#';
+const owl = 'http://www.w3.org/2002/07/owl#';
+const rdf = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const rdfs = 'http://www.w3.org/2000/01/rdf-schema#';
+const xsd = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * Parse the Turtle of an ontology and return its triples in N-Triples syntax (without the final
+ * dots), with the blank nodes numbered in order of appearance, sorted.
+ */
+function toTriples(ontology: Ontology): string[] {
+    const blankNodes = new Map<string, string>();
+    return oxigraph.parse(ontologyToTurtle(ontology), { format: 'text/turtle' })
+        .map(q => q.toString().replace(/_:\w+/g, b => blankNodes.get(b) ?? blankNodes.set(b, `_:b${blankNodes.size}`).get(b)!))
+        .sort();
+}
+
+beforeAll(() => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+});
+
+describe('OWL', () => {
+
+    test('converts vocabularies and descriptions to triples', async () => {
+        const vocabulary = (await parse(`
+            vocabulary <http://example.com/fleet#> as fleet {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                concept Vehicle < [
+                    restricts wheels to min 2
+                ]
+                concept Wheel
+                relation entity HasWheel [
+                    from Vehicle
+                    to Wheel
+                    forward wheels
+                    reverse vehicle
+                    inverse functional
+                ]
+                scalar property name [
+                    domain Vehicle
+                    range xsd:string
+                    functional
+                ]
+            }
+        `, { documentUri: 'file:///fleet.oml' })).parseResult.value;
+        const description = (await parse(`
+            description <http://example.com/cars#> as cars {
+                uses <http://example.com/fleet#> as fleet
+                instance herbie : fleet:Vehicle [
+                    fleet:name "Herbie"
+                ]
+                instance front : fleet:Wheel
+                relation instance herbieFront : fleet:HasWheel [
+                    from herbie
+                    to front
+                ]
+            }
+        `, { documentUri: 'file:///cars.oml' })).parseResult.value;
+
+        const fleet = 'http://example.com/fleet#';
+        expect(toTriples(vocabulary)).toEqual([
+            `<${fleet}HasWheel> <${rdf}type> <${owl}Class>`,
+            `<${fleet}Vehicle> <${rdf}type> <${owl}Class>`,
+            `<${fleet}Vehicle> <${rdfs}subClassOf> _:b0`,
+            `<${fleet}Wheel> <${rdf}type> <${owl}Class>`,
+            `<${fleet}hasHasWheelSource> <${rdf}type> <${owl}FunctionalProperty>`,
+            `<${fleet}hasHasWheelSource> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${fleet}hasHasWheelSource> <${rdfs}domain> <${fleet}HasWheel>`,
+            `<${fleet}hasHasWheelSource> <${rdfs}range> <${fleet}Vehicle>`,
+            `<${fleet}hasHasWheelSource> <${rdfs}subPropertyOf> <${oml}hasSource>`,
+            `<${fleet}hasHasWheelTarget> <${rdf}type> <${owl}FunctionalProperty>`,
+            `<${fleet}hasHasWheelTarget> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${fleet}hasHasWheelTarget> <${rdfs}domain> <${fleet}HasWheel>`,
+            `<${fleet}hasHasWheelTarget> <${rdfs}range> <${fleet}Wheel>`,
+            `<${fleet}hasHasWheelTarget> <${rdfs}subPropertyOf> <${oml}hasTarget>`,
+            `<${fleet}name> <${rdf}type> <${owl}DatatypeProperty>`,
+            `<${fleet}name> <${rdf}type> <${owl}FunctionalProperty>`,
+            `<${fleet}name> <${rdfs}domain> <${fleet}Vehicle>`,
+            `<${fleet}name> <${rdfs}range> <${xsd}string>`,
+            `<${fleet}vehicle> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${fleet}vehicle> <${owl}inverseOf> <${fleet}wheels>`,
+            `<${fleet}wheels> <${rdf}type> <${owl}InverseFunctionalProperty>`,
+            `<${fleet}wheels> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${fleet}wheels> <${rdfs}domain> <${fleet}Vehicle>`,
+            `<${fleet}wheels> <${rdfs}range> <${fleet}Wheel>`,
+            `<http://example.com/fleet> <${rdf}type> <${owl}Ontology>`,
+            `<http://example.com/fleet> <${owl}imports> <http://www.w3.org/2001/XMLSchema>`,
+            `_:b0 <${rdf}type> <${owl}Restriction>`,
+            `_:b0 <${owl}minCardinality> "2"^^<${xsd}nonNegativeInteger>`,
+            `_:b0 <${owl}onProperty> <${fleet}wheels>`
+        ]);
+
+        const cars = 'http://example.com/cars#';
+        expect(toTriples(description)).toEqual([
+            `<${cars}front> <${rdf}type> <${fleet}Wheel>`,
+            `<${cars}front> <${rdf}type> <${owl}NamedIndividual>`,
+            `<${cars}herbie> <${fleet}name> "Herbie"`,
+            `<${cars}herbie> <${fleet}wheels> <${cars}front>`,
+            `<${cars}herbie> <${rdf}type> <${fleet}Vehicle>`,
+            `<${cars}herbie> <${rdf}type> <${owl}NamedIndividual>`,
+            `<${cars}herbieFront> <${fleet}hasHasWheelSource> <${cars}herbie>`,
+            `<${cars}herbieFront> <${fleet}hasHasWheelTarget> <${cars}front>`,
+            `<${cars}herbieFront> <${rdf}type> <${fleet}HasWheel>`,
+            `<${cars}herbieFront> <${rdf}type> <${owl}NamedIndividual>`,
+            `<http://example.com/cars> <${rdf}type> <${owl}Ontology>`,
+            `<http://example.com/cars> <${owl}imports> <http://example.com/fleet>`
+        ]);
+    });
+
+    test('converts relation entities to classes with source and target properties', async () => {
+        const vocabulary = (await parse(`
+            vocabulary <http://example.com/org#> as org {
+                concept Person
+                concept Robot
+                concept Team
+                relation entity Membership [
+                    from Person, Robot
+                    to Team
+                ]
+            }
+        `, { documentUri: 'file:///org.oml' })).parseResult.value;
+        const description = (await parse(`
+            description <http://example.com/staff#> as staff {
+                uses <http://example.com/org#> as org
+                instance ann : org:Person
+                instance red : org:Team
+                relation instance m1 : org:Membership [
+                    from ann
+                    to red
+                ]
+            }
+        `, { documentUri: 'file:///staff.oml' })).parseResult.value;
+
+        const org = 'http://example.com/org#';
+        expect(toTriples(vocabulary).filter(t => t.startsWith(`<${org}Membership>`) || t.startsWith(`<${org}hasMembership`))).toEqual([
+            `<${org}Membership> <${rdf}type> <${owl}Class>`,
+            `<${org}hasMembershipSource> <${rdf}type> <${owl}FunctionalProperty>`,
+            `<${org}hasMembershipSource> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${org}hasMembershipSource> <${rdfs}domain> <${org}Membership>`,
+            `<${org}hasMembershipSource> <${rdfs}range> <${org}Person>`,
+            `<${org}hasMembershipSource> <${rdfs}range> <${org}Robot>`,
+            `<${org}hasMembershipSource> <${rdfs}subPropertyOf> <${oml}hasSource>`,
+            `<${org}hasMembershipTarget> <${rdf}type> <${owl}FunctionalProperty>`,
+            `<${org}hasMembershipTarget> <${rdf}type> <${owl}ObjectProperty>`,
+            `<${org}hasMembershipTarget> <${rdfs}domain> <${org}Membership>`,
+            `<${org}hasMembershipTarget> <${rdfs}range> <${org}Team>`,
+            `<${org}hasMembershipTarget> <${rdfs}subPropertyOf> <${oml}hasTarget>`
+        ]);
+
+        const staff = 'http://example.com/staff#';
+        expect(toTriples(description).filter(t => t.startsWith(`<${staff}m1>`))).toEqual([
+            `<${staff}m1> <${org}hasMembershipSource> <${staff}ann>`,
+            `<${staff}m1> <${org}hasMembershipTarget> <${staff}red>`,
+            `<${staff}m1> <${rdf}type> <${org}Membership>`,
+            `<${staff}m1> <${rdf}type> <${owl}NamedIndividual>`
+        ]);
+    });
+});
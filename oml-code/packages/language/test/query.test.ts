@@ -0,0 +1,126 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem, URI } from "langium";
+import { parseHelper } from "langium/test";
+import type { Ontology } from "oml-language";
+import { computeQueryResults, createDataset, createOmlServices, evaluateQuery } from "oml-language";
+
+const ORG = 'http://example.com/org#';
+const TEAM = 'http://example.com/team#';
+const SQUAD = 'http://example.com/squad#';
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/org#> as org {
+            concept Person
+            concept Team
+            relation entity Membership [
+                from Person
+                to Team
+                forward memberOf
+                reverse hasMember
+            ]
+            relation colleagueOf [
+                from Person
+                to Person
+            ]
+            rule colleagues [
+                memberOf(x, t) & memberOf(y, t) & differentFrom(x, y) -> colleagueOf(x, y)
+            ]
+        }
+    `, { documentUri: 'file:///org.oml' });
+    await parse(`
+        description <http://example.com/team#> as team {
+            uses <http://example.com/org#> as org
+            instance ann : org:Person
+            instance ben : org:Person
+            instance red : org:Team
+            relation instance m3 : org:Membership [
+                from ann
+                to red
+            ]
+            relation instance m4 : org:Membership [
+                from ben
+                to red
+            ]
+        }
+    `, { documentUri: 'file:///team.oml' });
+});
+
+describe('SPARQL queries', () => {
+
+    test('evaluates queries on the workspace models', async () => {
+        const query = `
+            PREFIX org: <${ORG}>
+            SELECT ?person ?team WHERE { ?person org:memberOf ?team } ORDER BY ?person
+        `;
+        const { results, locations } = await computeQueryResults(services.shared, query, 'http://example.com/team');
+
+        expect(results?.results?.bindings.map(b => `${b.person.value} ${b.team.value}`)).toEqual([
+            `${TEAM}ann ${TEAM}red`,
+            `${TEAM}ben ${TEAM}red`
+        ]);
+        expect(locations[`${TEAM}ann`]).toMatchObject({ uri: 'file:///team.oml', range: { start: { line: 3 } } });
+        expect((await computeQueryResults(services.shared, 'SELECT * WHERE {')).error).toBeDefined();
+
+        const team = services.shared.workspace.LangiumDocuments.getDocument(URI.parse('file:///team.oml'))!.parseResult.value as Ontology;
+        const ask = `ASK { <${TEAM}ann> <${ORG}colleagueOf> <${TEAM}ben> }`;
+        expect(evaluateQuery(createDataset([team]), ask, 'json').content).toContain('"boolean":false');
+        expect(evaluateQuery(createDataset([team], { entailments: true }), ask, 'json').content).toContain('"boolean":true');
+    });
+
+    test('evaluates queries in the result formats of the query command', async () => {
+        const squad = (await parse(`
+            description <http://example.com/squad#> as squad {
+                uses <http://example.com/org#> as org
+                instance ann : org:Person
+                instance ben : org:Person
+                instance red : org:Team
+                relation instance m1 : org:Membership [
+                    from ann
+                    to red
+                ]
+                relation instance m2 : org:Membership [
+                    from ben
+                    to red
+                ]
+            }
+        `, { documentUri: 'file:///squad.oml' })).parseResult.value;
+        const store = createDataset([squad]);
+        const select = `
+            PREFIX org: <${ORG}>
+            SELECT ?person ?team WHERE { ?person org:memberOf ?team } ORDER BY ?person
+        `;
+        const ask = `ASK { <${SQUAD}ann> <${ORG}memberOf> <${SQUAD}red> }`;
+        const construct = `CONSTRUCT { ?team <${ORG}hasMember> ?person } WHERE { <${SQUAD}ann> <${ORG}memberOf> ?team . ?person <${ORG}memberOf> ?team }`;
+
+        expect(evaluateQuery(store, select, 'csv')).toEqual({
+            extension: 'csv',
+            content: `person,team\r\n${SQUAD}ann,${SQUAD}red\r\n${SQUAD}ben,${SQUAD}red\r\n`
+        });
+        const json = evaluateQuery(store, select, 'json');
+        expect(json.extension).toBe('json');
+        expect(JSON.parse(json.content).results.bindings.map((b: Record<string, { value: string }>) => b.person.value)).toEqual([`${SQUAD}ann`, `${SQUAD}ben`]);
+        expect(evaluateQuery(store, select, 'table')).toEqual({
+            extension: 'txt',
+            content: [
+                '| person                         | team                           |',
+                '|--------------------------------|--------------------------------|',
+                `| <${SQUAD}ann> | <${SQUAD}red> |`,
+                `| <${SQUAD}ben> | <${SQUAD}red> |`,
+                ''
+            ].join('\n')
+        });
+        expect(evaluateQuery(store, ask, 'table')).toEqual({ extension: 'txt', content: 'true\n' });
+        const constructed = evaluateQuery(store, construct, 'table');
+        expect(constructed.extension).toBe('ttl');
+        expect(constructed.content).toContain(`<${SQUAD}red> <${ORG}hasMember>`);
+        expect(constructed.content).toContain(`<${SQUAD}ann>`);
+        expect(constructed.content).toContain(`<${SQUAD}ben>`);
+    });
+});
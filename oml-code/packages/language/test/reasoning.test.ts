@@ -0,0 +1,180 @@
+import { beforeAll, describe, expect, test, vi } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import type { Ontology } from "oml-language";
+import { computeInferredFacts, createOmlServices, OML, OmlIssueCodes, OmlReasoner, SUPPORTED_BUILTINS } from "oml-language";
+
+const ORG = 'http://example.com/org#';
+const STAFF = 'http://example.com/staff#';
+const TEAM = 'http://example.com/team#';
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/org#> as org {
+            aspect Identified
+            concept Person < Identified
+            concept Employee < Person
+            concept Team
+            concept Robot
+            relation entity Membership [
+                from Person
+                to Team
+                forward memberOf
+                reverse hasMember
+            ]
+            relation manages [
+                from Employee
+                to Employee
+                transitive
+                irreflexive
+            ]
+            relation knows [
+                from Person
+                to Person
+                symmetric
+            ]
+            relation reportsTo [
+                from Person
+                to Person
+                asymmetric
+            ]
+            relation colleagueOf [
+                from Person
+                to Person
+            ]
+            rule colleagues [
+                memberOf(x, t) & memberOf(y, t) & differentFrom(x, y) -> colleagueOf(x, y)
+            ]
+        }
+    `, { documentUri: 'file:///org.oml' });
+});
+
+describe('OWL-lite reasoning', () => {
+
+    test('entails types, relations and rule consequents', async () => {
+        const document = await parse(`
+            description <http://example.com/staff#> as staff {
+                uses <http://example.com/org#> as org
+                instance ada : org:Employee [
+                    org:manages bob
+                    org:knows cyd
+                ]
+                instance bob : org:Employee [
+                    org:manages cyd
+                ]
+                instance cyd
+                instance core : org:Team
+                relation instance m1 : org:Membership [
+                    from ada
+                    to core
+                ]
+                relation instance m2 : org:Membership [
+                    from bob
+                    to core
+                ]
+            }
+        `, { documentUri: 'file:///staff.oml' });
+        const { facts, asserted, inconsistencies } = new OmlReasoner(document.parseResult.value).reason();
+
+        expect(facts.getTypes(`${STAFF}ada`)).toEqual([`${ORG}Employee`, `${ORG}Person`, `${ORG}Identified`]);
+        expect(facts.getTypes(`${STAFF}cyd`)).toContain(`${ORG}Employee`);
+        expect(facts.getValues(`${STAFF}ada`, `${ORG}manages`)).toEqual([`${STAFF}bob`, `${STAFF}cyd`]);
+        expect(facts.getValues(`${STAFF}cyd`, `${ORG}knows`)).toEqual([`${STAFF}ada`]);
+        expect(facts.getValues(`${STAFF}ada`, `${ORG}memberOf`)).toEqual([`${STAFF}core`]);
+        expect(facts.getValues(`${STAFF}core`, `${ORG}hasMember`)).toEqual([`${STAFF}ada`, `${STAFF}bob`]);
+        expect(facts.getValues(`${STAFF}ada`, `${ORG}colleagueOf`)).toEqual([`${STAFF}bob`]);
+        expect(asserted.getValues(`${STAFF}ada`, `${ORG}colleagueOf`)).toEqual([]);
+        expect(inconsistencies).toEqual([]);
+    });
+
+    test('reports inconsistencies as diagnostics', async () => {
+        const document = await parse(`
+            description <http://example.com/broken#> as broken {
+                uses <http://example.com/org#> as org
+                instance eve : org:Person, org:Robot
+                instance fay : org:Employee [
+                    org:manages fay
+                    org:reportsTo gus
+                ]
+                instance gus : org:Person [
+                    org:reportsTo fay
+                ]
+            }
+        `, { documentUri: 'file:///broken.oml', validation: true });
+
+        expect(document.diagnostics?.filter(d => d.severity === 1).map(d => `${d.code} ${d.range.start.line}: ${d.message}`)).toEqual([
+            `${OmlIssueCodes.DisjointTypes} 3: 'broken:eve' cannot be both 'org:Person' and 'org:Robot': entities that do not specialize each other are disjoint.`,
+            `${OmlIssueCodes.IrreflexiveRelation} 4: 'broken:fay' cannot be related to itself by the irreflexive 'org:manages'.`,
+            `${OmlIssueCodes.AsymmetricRelation} 4: 'broken:fay' and 'broken:gus' cannot be related both ways by the asymmetric 'org:reportsTo'.`,
+            `${OmlIssueCodes.AsymmetricRelation} 8: 'broken:gus' and 'broken:fay' cannot be related both ways by the asymmetric 'org:reportsTo'.`
+        ]);
+    });
+
+    test('reports unbound rule variables and unknown builtins', async () => {
+        const document = await parse(`
+            vocabulary <http://example.com/rules#> as rules {
+                uses <http://example.com/org#> as org
+                builtin lessThan
+                builtin add
+                rule promote [
+                    org:Employee(x) & builtIn(add, x, y) & builtIn(lessThan, x, z) -> org:manages(x, w)
+                ]
+            }
+        `, { documentUri: 'file:///rules.oml', validation: true });
+
+        expect(document.diagnostics?.map(d => `${d.code} ${d.range.start.line}: ${d.message}`)).toEqual([
+            `${OmlIssueCodes.UnboundRuleVariable} 6: Variable 'y' is not bound by the antecedent of rule 'promote'.`,
+            `${OmlIssueCodes.UnboundRuleVariable} 6: Variable 'z' is not bound by the antecedent of rule 'promote'.`,
+            `${OmlIssueCodes.UnboundRuleVariable} 6: Variable 'w' is not bound by the antecedent of rule 'promote'.`,
+            `${OmlIssueCodes.UnknownBuiltIn} 6: Builtin 'add' is not supported by the rule engine, so the rule never applies. Supported builtins: ${Object.keys(SUPPORTED_BUILTINS).join(', ')}.`
+        ]);
+    });
+
+    test('lists the inferred facts of a description', async () => {
+        const { facts, asserted } = new OmlReasoner((await parse(`
+            description <http://example.com/team#> as team {
+                uses <http://example.com/org#> as org
+                instance ann : org:Employee
+                instance ben : org:Employee
+                instance red : org:Team
+                relation instance m3 : org:Membership [
+                    from ann
+                    to red
+                ]
+                relation instance m4 : org:Membership [
+                    from ben
+                    to red
+                ]
+            }
+        `, { documentUri: 'file:///team.oml' })).parseResult.value).reason();
+        const inferred = facts.without(asserted);
+
+        expect(inferred.getTypes(`${TEAM}ann`)).toEqual([`${ORG}Person`, `${ORG}Identified`]);
+        expect(inferred.getTypes(`${TEAM}m3`)).toEqual([]);
+        expect(inferred.getValues(`${TEAM}ann`, `${ORG}colleagueOf`)).toEqual([`${TEAM}ben`]);
+        expect(inferred.getValues(`${TEAM}m3`, `${OML}hasSource`)).toEqual([]);
+    });
+
+    test('reasons once per workspace state for the validation and the inferred facts', async () => {
+        const reason = vi.spyOn(OmlReasoner.prototype, 'reason');
+        const document = await parse(`
+            description <http://example.com/cached#> as cached {
+                uses <http://example.com/org#> as org
+                instance hal : org:Employee
+            }
+        `, { documentUri: 'file:///cached.oml', validation: true });
+        const inferred = await computeInferredFacts(services.shared, 'file:///cached.oml');
+        const calls = reason.mock.calls.length;
+        reason.mockRestore();
+
+        expect(calls).toBe(1);
+        expect(inferred.subjects.map(s => s.label)).toEqual(['cached:hal']);
+        expect(services.shared.workspace.ReasoningProvider.getReasoning(document.parseResult.value).result.inconsistencies).toEqual([]);
+    });
+});
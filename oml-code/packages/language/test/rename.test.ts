@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem, TextDocument, URI, type LangiumDocument } from "langium";
+import { NodeFileSystem } from "langium/node";
+import { parseHelper } from "langium/test";
+import type { WorkspaceEdit } from "vscode-languageserver-types";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Ontology } from "oml-language";
+import { createOmlServices } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let base: LangiumDocument;
+let ext: LangiumDocument;
+
+/**
+ * Rename what is at the end of the first occurrence of a marker in a document.
+ */
+function rename(oml: typeof services.Oml, document: LangiumDocument, marker: string, newName: string): Promise<WorkspaceEdit | undefined> {
+    const offset = document.textDocument.getText().indexOf(marker) + marker.length;
+    return Promise.resolve(oml.lsp.RenameProvider!.rename(document, {
+        textDocument: { uri: document.uri.toString() },
+        position: document.textDocument.positionAt(offset),
+        newName
+    }));
+}
+
+const applyEdit = (document: LangiumDocument, edit: WorkspaceEdit | undefined) => TextDocument.applyEdits(document.textDocument, edit?.changes?.[document.uri.toString()] ?? []);
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    const parse = parseHelper<Ontology>(services.Oml);
+
+    base = await parse(`
+        vocabulary <http://example.com/base#> as base {
+            concept Thing [
+                key name
+            ]
+            concept Part < Thing
+            scalar property name [
+                domain Thing
+            ]
+        }
+    `, { documentUri: 'file:///base.oml' });
+    ext = await parse(`
+        vocabulary <http://example.com/ext#> as ext {
+            extends <http://example.com/base#> as base
+            concept Gear < base:Thing, <http://example.com/base#Part>
+            ref concept base:Thing [
+                key base:name
+            ]
+        }
+    `, { documentUri: 'file:///ext.oml' });
+});
+
+describe('Rename', () => {
+
+    test('renames a member and all the forms of its references', async () => {
+        const edit = await rename(services.Oml, ext, 'ref concept base:Th', 'Item');
+
+        expect(applyEdit(base, edit)).toBe(base.textDocument.getText().replace(/Thing/g, 'Item'));
+        expect(applyEdit(ext, edit)).toBe(ext.textDocument.getText().replace(/Thing/g, 'Item'));
+
+        const property = await rename(services.Oml, base, 'property na', 'label');
+
+        expect(applyEdit(base, property)).toContain('key label');
+        expect(applyEdit(ext, property)).toContain('key base:label');
+    });
+
+    test('refuses names that are invalid or already used', async () => {
+        await expect(rename(services.Oml, base, 'concept Th', 'Part')).rejects.toThrow(`The name 'Part' is already used in <http://example.com/base#>.`);
+        await expect(rename(services.Oml, base, 'concept Th', 'a:b')).rejects.toThrow(`'a:b' is not a valid name.`);
+        await expect(rename(services.Oml, ext, 'as b', 'ext')).rejects.toThrow(`The prefix 'ext' is already used in <http://example.com/ext#>.`);
+    });
+
+    test('renames prefixes and namespaces across the workspace', async () => {
+        const prefix = await rename(services.Oml, base, 'as b', 'core');
+
+        expect(applyEdit(base, prefix)).toContain('vocabulary <http://example.com/base#> as core {');
+        expect(applyEdit(ext, prefix)).toBe(ext.textDocument.getText().replace(/base:/g, 'core:').replace('as base', 'as core'));
+
+        const namespace = await rename(services.Oml, ext, 'extends <http://ex', 'http://example.com/core#');
+
+        expect(applyEdit(base, namespace)).toContain('vocabulary <http://example.com/core#> as base {');
+        expect(applyEdit(ext, namespace)).toBe(ext.textDocument.getText().replace(/example\.com\/base#/g, 'example.com/core#'));
+        await expect(rename(services.Oml, ext, 'extends <http://ex', 'http://example.com/ext#')).rejects.toThrow(`The namespace <http://example.com/ext#> is already declared by another ontology.`);
+    });
+});
+
+describe('Rename in queries', () => {
+
+    let root: string;
+
+    beforeAll(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'oml-rename-'));
+        fs.mkdirSync(path.join(root, 'queries'));
+        fs.writeFileSync(path.join(root, 'base.oml'), base.textDocument.getText());
+        fs.writeFileSync(path.join(root, 'queries', 'things.sparql'), [
+            'PREFIX base: <http://example.com/base#>',
+            'SELECT ?t WHERE { ?t a base:Thing . ?u a <http://example.com/base#Thing> . ?v a base:Things }'
+        ].join('\n'));
+        fs.writeFileSync(path.join(root, 'queries', 'labels.sparql'), [
+            'PREFIX base: <http://example.com/base#>',
+            '# The labels of base:Thing, i.e. <http://example.com/base#Thing>',
+            'SELECT ?t WHERE { ?t a base:Thing ; rdfs:label "base:Thing <http://example.com/base#Thing>" }'
+        ].join('\n'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('renames the IRIs of the SPARQL queries of the workspace', async () => {
+        const { shared, Oml } = createOmlServices(NodeFileSystem);
+        const workspaceFolders = [{ name: 'workspace', uri: URI.file(root).toString() }];
+        shared.workspace.WorkspaceManager.initialize({ processId: null, rootUri: null, capabilities: {}, workspaceFolders });
+        await shared.workspace.WorkspaceManager.initializeWorkspace(workspaceFolders);
+        const document = shared.workspace.LangiumDocuments.getDocument(URI.file(path.join(root, 'base.oml')))!;
+        const edit = await rename(Oml, document, 'concept Th', 'Item');
+        const query = URI.file(path.join(root, 'queries', 'things.sparql')).toString();
+
+        expect(TextDocument.applyEdits(TextDocument.create(query, 'sparql', 0, fs.readFileSync(URI.parse(query).fsPath, 'utf-8')), edit!.changes![query])).toBe([
+            'PREFIX base: <http://example.com/base#>',
+            'SELECT ?t WHERE { ?t a base:Item . ?u a <http://example.com/base#Item> . ?v a base:Things }'
+        ].join('\n'));
+    });
+
+    test('keeps the strings and comments of the SPARQL queries', async () => {
+        const { shared, Oml } = createOmlServices(NodeFileSystem);
+        const workspaceFolders = [{ name: 'workspace', uri: URI.file(root).toString() }];
+        shared.workspace.WorkspaceManager.initialize({ processId: null, rootUri: null, capabilities: {}, workspaceFolders });
+        await shared.workspace.WorkspaceManager.initializeWorkspace(workspaceFolders);
+        const document = shared.workspace.LangiumDocuments.getDocument(URI.file(path.join(root, 'base.oml')))!;
+        const edit = await rename(Oml, document, 'concept Th', 'Item');
+        const query = URI.file(path.join(root, 'queries', 'labels.sparql')).toString();
+
+        expect(TextDocument.applyEdits(TextDocument.create(query, 'sparql', 0, fs.readFileSync(URI.parse(query).fsPath, 'utf-8')), edit!.changes![query])).toBe([
+            'PREFIX base: <http://example.com/base#>',
+            '# The labels of base:Thing, i.e. <http://example.com/base#Thing>',
+            'SELECT ?t WHERE { ?t a base:Item ; rdfs:label "base:Thing <http://example.com/base#Thing>" }'
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, test } from "vitest";
+import { EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import type { Ontology, Vocabulary } from "oml-language";
+import { createOmlServices, toTypeScript } from "oml-language";
+
+let services: ReturnType<typeof createOmlServices>;
+let parse:    ReturnType<typeof parseHelper<Ontology>>;
+
+beforeAll(async () => {
+    services = createOmlServices(EmptyFileSystem);
+    parse = parseHelper<Ontology>(services.Oml);
+
+    await parse(`
+        vocabulary <http://example.com/base#> as base {
+            concept Thing
+        }
+    `, { documentUri: 'file:///base-types.oml' });
+});
+
+describe('TypeScript', () => {
+
+    test('converts entities to interfaces with their supertypes and properties', async () => {
+        const vocabulary = (await parse(`
+            vocabulary <http://example.com/fleet#> as fleet {
+                extends <http://example.com/base#> as base
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                aspect Named
+                concept Vehicle < base:Thing, Named
+                concept Wheel
+                relation entity HasWheel [
+                    from Vehicle
+                    to Wheel
+                    forward wheels
+                    reverse vehicle
+                    inverse functional
+                ]
+                scalar property name [
+                    domain Named
+                    range xsd:string
+                    functional
+                ]
+                scalar property size [
+                    domain Wheel
+                    range xsd:integer
+                ]
+                scalar property color [
+                    domain Vehicle
+                    range Color
+                    functional
+                ]
+                scalar Color [
+                    oneOf "red", "blue"
+                ]
+            }
+        `, { documentUri: 'file:///fleet.oml' })).parseResult.value as Vocabulary;
+
+        expect(toTypeScript(vocabulary)).toBe([
+            `import type * as base from './basetypes.js';`,
+            `export type Color = "red" | "blue";`,
+            [
+                'export interface Named {',
+                '    name?: string;',
+                '}'
+            ].join('\n'),
+            [
+                'export interface Vehicle extends base.Thing, Named {',
+                '    wheels?: Wheel[];',
+                '    color?: Color;',
+                '}'
+            ].join('\n'),
+            [
+                'export interface Wheel {',
+                '    vehicle?: Vehicle;',
+                '    size?: number[];',
+                '}'
+            ].join('\n'),
+            [
+                'export interface HasWheel {',
+                '    source?: Vehicle;',
+                '    target?: Wheel;',
+                '}'
+            ].join('\n')
+        ].join('\n\n'));
+    });
+});
@@ -4,16 +4,16 @@ import { expandToString as s } from "langium/generate";
 import { parseHelper } from "langium/test";
 import type { Diagnostic } from "vscode-languageserver-types";
 import type { Ontology } from "oml-language";
-import { createOmlServices, isOntology } from "oml-language";
+import { createOmlServices, isOntology, OmlIssueCodes } from "oml-language";
 
 let services: ReturnType<typeof createOmlServices>;
-let parse:    ReturnType<typeof parseHelper<Ontology>>;
+let parse:    (input: string, documentUri?: string) => Promise<LangiumDocument<Ontology>>;
 let document: LangiumDocument<Ontology> | undefined;
 
 beforeAll(async () => {
     services = createOmlServices(EmptyFileSystem);
     const doParse = parseHelper<Ontology>(services.Oml);
-    parse = (input: string) => doParse(input, { validation: true });
+    parse = (input: string, documentUri?: string) => doParse(input, { validation: true, documentUri });
 
     // activate the following if your linking test requires elements from a built-in library, for example
     // await services.shared.workspace.WorkspaceManager.initializeWorkspace([]);
@@ -53,6 +53,432 @@ describe('Validating', () => {
     });
 });
 
+describe('Validation rules', () => {
+
+    const codes = (document: LangiumDocument) => document.diagnostics?.filter(d => d.severity === 1).map(d => d.code) ?? [];
+
+    beforeAll(async () => {
+        await parse(`
+            vocabulary <http://example.com/base#> as base {
+                aspect Named
+                concept Thing
+            }
+        `, 'file:///base.oml');
+        await parse(`
+            description <http://example.com/things#> as things {
+                uses <http://example.com/base#> as base
+            }
+        `, 'file:///things.oml');
+    });
+
+    test('namespaces end with a separator', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/ns> as ns {
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.InvalidNamespace]);
+    });
+
+    test('prefixes are unique', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/prefixes#> as base {
+                extends <http://example.com/base#> as base
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.DuplicatePrefix]);
+    });
+
+    test('vocabularies only import vocabularies and descriptions only use vocabularies', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/imports#> as imports {
+                uses <http://example.com/things#> as things
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.InvalidImport]);
+
+        document = await parse(`
+            description <http://example.com/imports2#> as imports2 {
+                uses <http://example.com/things#> as things
+                extends <http://example.com/base#> as base
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.InvalidImport, OmlIssueCodes.InvalidImport]);
+    });
+
+    test('member and relation names are unique in the namespace', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/names#> as names {
+                concept A
+                concept A
+                relation entity R [
+                    from A
+                    to A
+                    forward a
+                    reverse b
+                ]
+                relation S [
+                    from A
+                    to A
+                    reverse b
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.DuplicateMember, OmlIssueCodes.DuplicateRelationName]);
+    });
+
+    test('relation entities do not reuse their name for their forward and reverse relations', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/clash#> as clash {
+                concept A
+                relation entity R [
+                    from A
+                    to A
+                    forward f
+                    reverse f
+                ]
+            }
+        `);
+        expect(codes(document)).toContain(OmlIssueCodes.RelationNameClash);
+    });
+
+    test('specializations are acyclic and of a compatible kind', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/specs#> as specs {
+                extends <http://example.com/base#> as base
+                concept A < B
+                concept B < A
+                concept C < base:Named
+                aspect D < base:Thing
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.SpecializationCycle, OmlIssueCodes.SpecializationCycle, OmlIssueCodes.IncompatibleSpecialization]);
+    });
+
+    test('ref only redeclares members of imported ontologies', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/refs#> as refs {
+                extends <http://example.com/base#> as base
+                concept A
+                ref concept base:Thing
+                ref concept A
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.InvalidRef]);
+    });
+});
+
+describe('Property value checks', () => {
+
+    const codes = (document: LangiumDocument) => document.diagnostics?.filter(d => d.severity === 1).map(d => d.code) ?? [];
+
+    beforeAll(async () => {
+        await parse(`
+            vocabulary <http://www.w3.org/2001/XMLSchema#> as xsd {
+                scalar string
+                scalar double
+                scalar integer
+            }
+        `, 'file:///xsd.oml');
+        await parse(`
+            vocabulary <http://example.com/mission#> as mission {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                concept Mission
+                concept Component
+                concept Person
+                scalar Mass < xsd:double
+                relation entity Deploys [
+                    from Mission
+                    to Component
+                    forward deploys
+                    reverse isDeployedBy
+                    inverse functional
+                ]
+                scalar property mass [
+                    domain Component
+                    range Mass
+                    functional
+                ]
+                scalar property title [
+                    domain Mission
+                    range xsd:string
+                ]
+            }
+        `, 'file:///mission.oml');
+    });
+
+    test('accepts conforming values', async () => {
+        document = await parse(`
+            description <http://example.com/ok#> as ok {
+                uses <http://example.com/mission#> as mission
+                instance m : mission:Mission [
+                    mission:title "Orbiter"
+                    mission:deploys c
+                ]
+                instance c : mission:Component [
+                    mission:mass 12
+                    mission:isDeployedBy m
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([]);
+    });
+
+    test('reports domains, ranges and functional properties', async () => {
+        document = await parse(`
+            description <http://example.com/bad#> as bad {
+                uses <http://example.com/mission#> as mission
+                instance m : mission:Mission [
+                    mission:mass 12.5
+                    mission:deploys p
+                    mission:title "Orbiter", 42
+                ]
+                instance c : mission:Component [
+                    mission:mass "heavy"
+                    mission:mass 3
+                    mission:isDeployedBy m, m
+                ]
+                instance p : mission:Person [
+                    mission:title p
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([
+            OmlIssueCodes.InvalidPropertyDomain,
+            OmlIssueCodes.InvalidPropertyRange,
+            OmlIssueCodes.InvalidPropertyRange,
+            OmlIssueCodes.InvalidPropertyRange,
+            OmlIssueCodes.FunctionalProperty,
+            OmlIssueCodes.FunctionalProperty,
+            OmlIssueCodes.InvalidPropertyDomain,
+            OmlIssueCodes.InvalidPropertyValue
+            // m and p are not also reported to be of disjoint types from the domains and ranges
+        ]);
+    });
+});
+
+describe('Scalar facet checks', () => {
+
+    const codes = (document: LangiumDocument) => document.diagnostics?.filter(d => d.severity === 1).map(d => d.code) ?? [];
+
+    beforeAll(async () => {
+        await parse(`
+            vocabulary <http://example.com/units#> as units {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                concept Part
+                scalar Code = xsd:string [
+                    minLength 3
+                    maxLength 5
+                    pattern "[A-Z]+"
+                ]
+                scalar Percentage = xsd:double [
+                    minInclusive 0
+                    maxInclusive 100
+                ]
+                scalar Severity [
+                    oneOf "low", "high"
+                ]
+                scalar property code [
+                    domain Part
+                    range Code
+                ]
+                scalar property ratio [
+                    domain Part
+                    range Percentage
+                ]
+                scalar property severity [
+                    domain Part
+                    range Severity
+                ]
+            }
+        `, 'file:///units.oml');
+    });
+
+    test('reports inconsistent facets', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/facets#> as facets {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                scalar A = xsd:string [
+                    minLength 4
+                    maxLength 2
+                ]
+                scalar B = xsd:string [
+                    pattern "[a-z"
+                ]
+                scalar C = xsd:integer [
+                    minInclusive 10
+                    maxExclusive 10
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.InconsistentFacets, OmlIssueCodes.InconsistentFacets, OmlIssueCodes.InconsistentFacets]);
+    });
+
+    test('checks literals against inherited facets and enumerations', async () => {
+        document = await parse(`
+            description <http://example.com/parts#> as parts {
+                uses <http://example.com/units#> as units
+                instance p1 : units:Part [
+                    units:code "ABC"
+                    units:ratio 50
+                    units:severity "low"
+                ]
+                instance p2 : units:Part [
+                    units:code "abc"
+                    units:ratio 120.5
+                    units:severity "medium"
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.FacetViolation, OmlIssueCodes.FacetViolation, OmlIssueCodes.FacetViolation]);
+        expect(document.diagnostics?.[0].message).toBe(`"abc" is not a valid 'Code': it does not match the pattern "[A-Z]+".`);
+    });
+
+    test('checks literals of value restrictions', async () => {
+        document = await parse(`
+            vocabulary <http://example.com/restricted#> as restricted {
+                extends <http://example.com/units#> as units
+                concept Gadget < units:Part [
+                    restricts units:ratio to 200
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([OmlIssueCodes.FacetViolation]);
+    });
+});
+
+describe('Restriction checks', () => {
+
+    const codes = (document: LangiumDocument) => document.diagnostics?.filter(d => d.severity === 1).map(d => d.code) ?? [];
+
+    beforeAll(async () => {
+        await parse(`
+            vocabulary <http://example.com/family#> as family {
+                extends <http://www.w3.org/2001/XMLSchema#> as xsd
+                aspect Named < [
+                    restricts name to exactly 1
+                ]
+                concept Person < Named [
+                    restricts parent to max 2
+                    restricts all parent to Person
+                ]
+                concept Robot < Named
+                concept Citizen < Person [
+                    restricts some nationality to Country
+                    restricts status to "resident"
+                ]
+                concept Country
+                concept Narcissist < Person [
+                    restricts admires to self
+                ]
+                relation parent [
+                    from Person
+                    to Named
+                ]
+                relation nationality [
+                    from Citizen
+                    to Country
+                ]
+                relation admires [
+                    from Person
+                    to Person
+                ]
+                scalar property name [
+                    domain Named
+                    range xsd:string
+                ]
+                scalar property status [
+                    domain Citizen
+                    range xsd:string
+                ]
+            }
+        `, 'file:///family.oml');
+    });
+
+    test('accepts instances satisfying inherited restrictions', async () => {
+        document = await parse(`
+            description <http://example.com/people#> as people {
+                uses <http://example.com/family#> as family
+                instance fr : family:Country
+                instance alice : family:Citizen [
+                    family:name "Alice"
+                    family:nationality fr
+                    family:status "resident"
+                ]
+                instance bob : family:Narcissist [
+                    family:name "Bob"
+                    family:parent alice
+                    family:admires bob
+                ]
+            }
+        `);
+        expect(codes(document)).toEqual([]);
+    });
+
+    test('checks restrictions against the facts entailed by rules', async () => {
+        await parse(`
+            vocabulary <http://example.com/ages#> as ages {
+                extends <http://example.com/family#> as family
+                concept Adult < family:Person
+                concept Child < family:Person [
+                    restricts some family:parent to Adult
+                ]
+                rule parentsAreAdults [
+                    family:parent(c, p) -> Adult(p)
+                ]
+            }
+        `, 'file:///ages.oml');
+        document = await parse(`
+            description <http://example.com/kids#> as kids {
+                uses <http://example.com/family#> as family
+                uses <http://example.com/ages#> as ages
+                instance mia : family:Person [
+                    family:name "Mia"
+                ]
+                instance leo : ages:Child [
+                    family:name "Leo"
+                    family:parent mia
+                ]
+                instance ada : ages:Child [
+                    family:name "Ada"
+                ]
+            }
+        `);
+        expect(document.diagnostics?.filter(d => d.severity === 1).map(d => `${d.code} ${d.range.start.line}`)).toEqual([
+            `${OmlIssueCodes.RangeRestrictionViolation} 11`
+        ]);
+    });
+
+    test('reports violated restrictions on the offending assertions', async () => {
+        document = await parse(`
+            description <http://example.com/violations#> as violations {
+                uses <http://example.com/family#> as family
+                instance r2 : family:Robot [
+                    family:name "R2"
+                ]
+                instance carol : family:Citizen [
+                    family:name "Carol", "Caz"
+                    family:status "visitor"
+                ]
+                instance dave : family:Narcissist [
+                    family:name "Dave"
+                    family:parent carol, r2
+                    family:parent eve
+                ]
+                instance eve : family:Person
+            }
+        `);
+        expect(document.diagnostics?.filter(d => d.severity === 1).map(d => `${d.code} ${d.range.start.line}`)).toEqual([
+            `${OmlIssueCodes.RangeRestrictionViolation} 6`,
+            `${OmlIssueCodes.ValueRestrictionViolation} 8`,
+            `${OmlIssueCodes.CardinalityViolation} 7`,
+            `${OmlIssueCodes.SelfRestrictionViolation} 10`,
+            `${OmlIssueCodes.CardinalityViolation} 13`,
+            `${OmlIssueCodes.RangeRestrictionViolation} 12`,
+            `${OmlIssueCodes.CardinalityViolation} 15`
+        ]);
+    });
+});
+
 function checkDocumentValid(document: LangiumDocument): string | undefined {
     return document.parseResult.parserErrors.length && s`
         Parser errors: